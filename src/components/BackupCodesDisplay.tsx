@@ -0,0 +1,76 @@
+/**
+ * Backup Codes Display
+ * Shows one-time MFA backup codes with copy and download actions
+ */
+
+import React from 'react';
+import { Box, Typography, Button, Alert, Paper } from '@mui/material';
+import { ContentCopy, Download } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+
+interface BackupCodesDisplayProps {
+  codes: string[];
+  username?: string;
+}
+
+const BackupCodesDisplay: React.FC<BackupCodesDisplayProps> = ({ codes, username }) => {
+  const codesText = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codesText);
+      toast.success('Backup codes copied');
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  const handleDownload = () => {
+    const header = `LINC backup codes${username ? ` for ${username}` : ''}\nGenerated ${new Date().toLocaleString()}\n\n`;
+    const blob = new Blob([header + codesText + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'linc-backup-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Box>
+      <Alert severity="warning" sx={{ mb: 2 }}>
+        Store these codes somewhere safe. Each code can be used once if you lose access to your
+        authenticator app. They will not be shown again.
+      </Alert>
+
+      <Paper
+        variant="outlined"
+        sx={{
+          p: 2,
+          display: 'grid',
+          gridTemplateColumns: 'repeat(2, 1fr)',
+          gap: 1,
+          fontFamily: 'monospace',
+          bgcolor: 'grey.50'
+        }}
+      >
+        {codes.map(code => (
+          <Typography key={code} variant="body1" sx={{ fontFamily: 'monospace', textAlign: 'center' }}>
+            {code}
+          </Typography>
+        ))}
+      </Paper>
+
+      <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+        <Button size="small" startIcon={<ContentCopy />} onClick={handleCopy}>
+          Copy
+        </Button>
+        <Button size="small" startIcon={<Download />} onClick={handleDownload}>
+          Download
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default BackupCodesDisplay;
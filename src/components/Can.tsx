@@ -0,0 +1,28 @@
+/**
+ * Can Component
+ * Renders its children only when the current user meets a permission and/or
+ * role requirement; otherwise renders the optional fallback
+ *
+ * Usage:
+ *   <Can permission={PERMISSIONS.USER_MANAGEMENT_CREATE}>
+ *     <Button>Add User</Button>
+ *   </Can>
+ */
+
+import React from 'react';
+import { usePermission } from '../contexts/AuthContext';
+import { PermissionRequirement, Role } from '../config/permissions';
+
+interface CanProps {
+  permission?: PermissionRequirement;
+  role?: Role;
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+const Can: React.FC<CanProps> = ({ permission, role, fallback = null, children }) => {
+  const { allowed } = usePermission(permission, role);
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
@@ -0,0 +1,112 @@
+/**
+ * DuplicateMergeDialog Component
+ * When registration details are merged into an existing person, lets the
+ * clerk pick per field whether the existing or the entered value survives.
+ * Existing values are kept unless the entered one is chosen.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
+} from '@mui/material';
+import { MergeField, PersonDetails } from '../config/personMerge';
+
+type Source = 'existing' | 'entered';
+
+interface DuplicateMergeDialogProps {
+  open: boolean;
+  personName: string;
+  /** Fields where the existing and entered values differ */
+  fields: MergeField[];
+  existing: PersonDetails;
+  entered: PersonDetails;
+  /** Called with the keys of the fields that take the entered value */
+  onConfirm: (enteredFields: string[]) => void;
+  onClose: () => void;
+}
+
+const DuplicateMergeDialog: React.FC<DuplicateMergeDialogProps> = ({
+  open,
+  personName,
+  fields,
+  existing,
+  entered,
+  onConfirm,
+  onClose,
+}) => {
+  const [choices, setChoices] = useState<Record<string, Source>>({});
+
+  useEffect(() => {
+    if (open) {
+      setChoices({});
+    }
+  }, [open]);
+
+  const sourceFor = (field: MergeField): Source => choices[field.key] || 'existing';
+
+  const handleConfirm = () => {
+    onConfirm(fields.filter(field => sourceFor(field) === 'entered').map(field => field.key));
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Merge into {personName}</DialogTitle>
+      <DialogContent>
+        <Alert severity="info" sx={{ mb: 2 }}>
+          These details differ from the existing record. The existing values are kept unless you
+          choose the entered ones. ID documents and addresses are combined.
+        </Alert>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Field</TableCell>
+              <TableCell>Existing</TableCell>
+              <TableCell>Entered</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {fields.map(field => (
+              <TableRow key={field.key}>
+                <TableCell sx={{ fontWeight: 600 }}>{field.label}</TableCell>
+                {(['existing', 'entered'] as Source[]).map(source => (
+                  <TableCell key={source}>
+                    <FormControlLabel
+                      control={
+                        <Radio
+                          size="small"
+                          checked={sourceFor(field) === source}
+                          onChange={() => setChoices(prev => ({ ...prev, [field.key]: source }))}
+                        />
+                      }
+                      label={field.get(source === 'existing' ? existing : entered) || '-'}
+                    />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleConfirm}>
+          Merge
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DuplicateMergeDialog;
@@ -0,0 +1,134 @@
+/**
+ * DuplicatePersonDialog Component
+ * Lists likely duplicates of a person being registered, with similarity
+ * scores, and lets the clerk merge into one, link the new ID document to it
+ * as an alias, or confirm the registration is a new person
+ */
+
+import React from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { PersonDuplicateMatch } from '../types/person';
+
+const MATCHED_FIELD_LABELS: Record<string, string> = {
+  business_or_surname: 'Surname',
+  initials: 'Initials',
+  birth_date: 'Birth date',
+  cell_phone: 'Cell phone',
+  email_address: 'Email',
+};
+
+const scoreColor = (score: number): 'error' | 'warning' | 'info' =>
+  score >= 0.85 ? 'error' : score >= 0.6 ? 'warning' : 'info';
+
+interface DuplicatePersonDialogProps {
+  open: boolean;
+  matches: PersonDuplicateMatch[];
+  /** Set while a chosen action is being carried out */
+  busy?: boolean;
+  onMerge: (match: PersonDuplicateMatch) => void;
+  onLinkAlias: (match: PersonDuplicateMatch) => void;
+  onConfirmNew: () => void;
+  onClose: () => void;
+}
+
+const DuplicatePersonDialog: React.FC<DuplicatePersonDialogProps> = ({
+  open,
+  matches,
+  busy = false,
+  onMerge,
+  onLinkAlias,
+  onConfirmNew,
+  onClose,
+}) => (
+  <Dialog open={open} onClose={busy ? undefined : onClose} maxWidth="md" fullWidth>
+    <DialogTitle>Possible Duplicate Persons</DialogTitle>
+    <DialogContent>
+      <Alert severity="warning" sx={{ mb: 2 }}>
+        These existing persons closely match the details entered. If the applicant is already
+        registered under another ID document, merge or link instead of creating a new person.
+      </Alert>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Person</TableCell>
+            <TableCell>ID Document</TableCell>
+            <TableCell>Matched On</TableCell>
+            <TableCell>Similarity</TableCell>
+            <TableCell align="right">Actions</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {matches.map((match) => {
+            const { person } = match;
+            const percent = Math.round(match.score * 100);
+            // Merging and linking act on the existing record, so it must be identifiable and active
+            const actionable = !busy && person.is_active && Boolean(person.id);
+            return (
+              <TableRow key={person.id || person.id_number}>
+                <TableCell>
+                  <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                    {[person.natural_person?.full_name_1, person.business_or_surname || person.name].filter(Boolean).join(' ')}
+                  </Typography>
+                  {person.natural_person?.birth_date && (
+                    <Typography variant="caption" color="text.secondary">
+                      Born {person.natural_person.birth_date}
+                    </Typography>
+                  )}
+                  {!person.is_active && (
+                    <Chip label="Deactivated" size="small" color="error" sx={{ ml: 1 }} />
+                  )}
+                </TableCell>
+                <TableCell>{person.id_number || '-'}</TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                    {match.matched_fields.map(field => (
+                      <Chip key={field} label={MATCHED_FIELD_LABELS[field] || field} size="small" variant="outlined" />
+                    ))}
+                  </Box>
+                </TableCell>
+                <TableCell sx={{ minWidth: 120 }}>
+                  <Typography variant="body2">{percent}%</Typography>
+                  <LinearProgress variant="determinate" value={percent} color={scoreColor(match.score)} />
+                </TableCell>
+                <TableCell align="right">
+                  <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+                    <Button size="small" variant="outlined" disabled={!actionable} onClick={() => onLinkAlias(match)}>
+                      Link as Alias
+                    </Button>
+                    <Button size="small" variant="contained" disabled={!actionable} onClick={() => onMerge(match)}>
+                      Merge
+                    </Button>
+                  </Box>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </DialogContent>
+    <DialogActions>
+      <Button onClick={onClose} disabled={busy}>Back to Editing</Button>
+      <Button variant="contained" color="warning" onClick={onConfirmNew} disabled={busy}>
+        Confirm New Person
+      </Button>
+    </DialogActions>
+  </Dialog>
+);
+
+export default DuplicatePersonDialog;
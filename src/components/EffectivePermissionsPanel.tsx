@@ -0,0 +1,232 @@
+/**
+ * EffectivePermissionsPanel Component
+ * Shows a user's effective permissions, where each one comes from, and the
+ * pages and menu entries they unlock - for answering "why can't this user
+ * open X?"
+ *
+ * "Preview navigation" renders the sidebar for that user's permission set
+ * in read-only form.
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Paper,
+  Grid
+} from '@mui/material';
+import {
+  CheckCircle as CheckCircleIcon,
+  Block as BlockIcon,
+  Visibility as VisibilityIcon
+} from '@mui/icons-material';
+import userService from '../services/userService';
+import { getErrorMessage } from '../config/api';
+import {
+  dashboardRoutes,
+  buildNavigationItems,
+  createRouteAccessChecker,
+  listRouteAccess,
+  AccessSubject
+} from '../config/routes';
+import { EffectivePermissions, PermissionSource } from '../types/role';
+import NavigationMenu from './NavigationMenu';
+
+const SOURCE_LABELS: Record<PermissionSource['type'], string> = {
+  role: 'Role',
+  user_group: 'User Group',
+  superuser: 'Superuser',
+  direct: 'Direct',
+};
+
+const formatSource = (source: PermissionSource) =>
+  source.name ? `${SOURCE_LABELS[source.type]}: ${source.name}` : SOURCE_LABELS[source.type];
+
+interface EffectivePermissionsPanelProps {
+  userId: string;
+}
+
+const EffectivePermissionsPanel: React.FC<EffectivePermissionsPanelProps> = ({ userId }) => {
+  const [data, setData] = useState<EffectivePermissions | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [previewOpen, setPreviewOpen] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setData(await userService.getEffectivePermissions(userId));
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to load effective permissions'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [userId]);
+
+  const subject: AccessSubject | null = useMemo(() => data && {
+    is_superuser: data.is_superuser,
+    permissions: data.permissions.map(permission => permission.name),
+    roles: data.roles,
+  }, [data]);
+
+  const routeAccess = useMemo(() => subject ? listRouteAccess(dashboardRoutes, subject) : [], [subject]);
+  const previewItems = useMemo(
+    () => subject ? buildNavigationItems(dashboardRoutes, createRouteAccessChecker(subject)) : [],
+    [subject]
+  );
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Box>
+            <Typography variant="h6">Effective Permissions</Typography>
+            <Typography variant="body2" color="text.secondary">
+              What this user can do, why, and which pages it unlocks
+            </Typography>
+          </Box>
+          <Button
+            variant="outlined"
+            startIcon={<VisibilityIcon />}
+            onClick={() => setPreviewOpen(true)}
+            disabled={!subject}
+          >
+            Preview Navigation
+          </Button>
+        </Box>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : data && (
+          <>
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+              {data.is_superuser && <Chip label="Superuser - all permissions" color="warning" size="small" />}
+              {data.roles.map(role => (
+                <Chip key={role} label={`Role: ${role}`} size="small" variant="outlined" />
+              ))}
+            </Box>
+
+            <Grid container spacing={3}>
+              <Grid item xs={12} md={6}>
+                <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+                  Permissions ({data.permissions.length})
+                </Typography>
+                {data.permissions.length === 0 ? (
+                  <Alert severity="info">This user has no permissions.</Alert>
+                ) : (
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Permission</TableCell>
+                        <TableCell>Granted By</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {data.permissions.map(permission => (
+                        <TableRow key={permission.name}>
+                          <TableCell sx={{ fontFamily: 'monospace' }}>{permission.name}</TableCell>
+                          <TableCell>
+                            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                              {permission.sources.map(source => (
+                                <Chip key={formatSource(source)} label={formatSource(source)} size="small" />
+                              ))}
+                            </Box>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </Grid>
+
+              <Grid item xs={12} md={6}>
+                <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+                  Page Access
+                </Typography>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Page</TableCell>
+                      <TableCell>Access</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {routeAccess.map(entry => (
+                      <TableRow key={entry.path}>
+                        <TableCell>
+                          <Typography variant="body2">{entry.label}</Typography>
+                          {entry.inMenu && (
+                            <Typography variant="caption" color="text.secondary">{entry.path}</Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {entry.allowed ? (
+                            <Chip icon={<CheckCircleIcon />} label="Allowed" color="success" size="small" />
+                          ) : (
+                            <Box>
+                              <Chip icon={<BlockIcon />} label="Blocked" color="error" size="small" />
+                              <Typography variant="caption" color="text.secondary" display="block">
+                                {entry.reason}
+                              </Typography>
+                            </Box>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Grid>
+            </Grid>
+          </>
+        )}
+      </CardContent>
+
+      {/* Read-only navigation preview */}
+      <Dialog open={previewOpen} onClose={() => setPreviewOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Navigation as {data?.username}</DialogTitle>
+        <DialogContent>
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Read-only preview of the sidebar this user sees. Entries are not clickable.
+          </Alert>
+          <Paper variant="outlined" sx={{ width: 240 }}>
+            {previewItems.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                No menu entries available.
+              </Typography>
+            ) : (
+              <NavigationMenu items={previewItems} preview />
+            )}
+          </Paper>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPreviewOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default EffectivePermissionsPanel;
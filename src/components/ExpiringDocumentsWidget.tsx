@@ -0,0 +1,142 @@
+/**
+ * ExpiringDocumentsWidget Component
+ * Dashboard card listing persons in the user's province whose foreign ID or
+ * passport has expired or expires within the next 30 days
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  List,
+  ListItemButton,
+  ListItemText,
+  Typography
+} from '@mui/material';
+import { useAuth, useDataScope } from '../contexts/AuthContext';
+import { getErrorMessage } from '../config/api';
+import { getDocumentExpiryStatus, describeExpiry } from '../config/documentExpiry';
+import { buildSearchQuery } from '../config/personSearchQuery';
+import { personService } from '../services/personService';
+import { PersonSearchResult } from '../types/person';
+
+const WIDGET_EXPIRY_DAYS = 30;
+const WIDGET_LIMIT = 10;
+
+// The soonest-expiring document of a person
+const soonestExpiringAlias = (person: PersonSearchResult) =>
+  (person.aliases || [])
+    .filter(alias => alias.id_document_expiry_date)
+    .sort((a, b) => (a.id_document_expiry_date! < b.id_document_expiry_date! ? -1 : 1))[0];
+
+const ExpiringDocumentsWidget: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { defaultProvinceCode } = useDataScope();
+  const provinceCode = user?.province_code || defaultProvinceCode;
+
+  const [persons, setPersons] = useState<PersonSearchResult[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await personService.search({
+          documents_expiring_within_days: WIDGET_EXPIRY_DAYS,
+          province_code: provinceCode || undefined,
+          is_active: true,
+          skip: 0,
+          limit: WIDGET_LIMIT
+        });
+        setPersons(result.persons);
+        setTotalCount(result.total_count);
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to load expiring documents'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [provinceCode]);
+
+  const viewAll = () => {
+    const query = buildSearchQuery({
+      documents_expiring_within_days: WIDGET_EXPIRY_DAYS,
+      province_code: provinceCode || undefined,
+      is_active: true
+    });
+    navigate(`/dashboard/persons/search?${query.toString()}`);
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6">
+            Expiring ID Documents
+            {totalCount > 0 && <Chip label={totalCount} size="small" color="warning" sx={{ ml: 1 }} />}
+          </Typography>
+          {provinceCode && <Chip label={provinceCode} size="small" variant="outlined" />}
+        </Box>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Expired or expiring within {WIDGET_EXPIRY_DAYS} days
+        </Typography>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : persons.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No documents are expiring.
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {persons.map(person => {
+              const alias = soonestExpiringAlias(person);
+              const expiryDate = alias?.id_document_expiry_date;
+              const status = getDocumentExpiryStatus(expiryDate);
+              return (
+                <ListItemButton key={person.id} onClick={() => navigate(`/dashboard/persons/${person.id}`)}>
+                  <ListItemText
+                    primary={[person.natural_person?.full_name_1, person.business_or_surname].filter(Boolean).join(' ')}
+                    secondary={alias?.id_document_number}
+                  />
+                  {expiryDate && (
+                    <Chip
+                      label={describeExpiry(expiryDate)}
+                      size="small"
+                      color={status === 'expired' ? 'error' : 'warning'}
+                    />
+                  )}
+                </ListItemButton>
+              );
+            })}
+          </List>
+        )}
+
+        {totalCount > persons.length && (
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+            <Button size="small" onClick={viewAll}>
+              View all {totalCount}
+            </Button>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExpiringDocumentsWidget;
@@ -0,0 +1,110 @@
+/**
+ * LocalityAutocomplete Component
+ * Suburb field that suggests known suburbs (within the selected province)
+ * as the user types. Picking a suggestion hands back its city, postal code
+ * and province so the whole address stays consistent; free text is still
+ * accepted for suburbs the lookup does not know.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Autocomplete, TextField, Typography, Box } from '@mui/material';
+import lookupService, { AddressLocality } from '../config/lookupService';
+
+const MIN_QUERY_LENGTH = 3;
+const SEARCH_DELAY_MS = 300;
+
+interface LocalityAutocompleteProps {
+  value: string;
+  label: string;
+  provinceCode?: string;
+  error?: boolean;
+  helperText?: string;
+  onChange: (suburb: string) => void;
+  onSelect: (locality: AddressLocality) => void;
+}
+
+const LocalityAutocomplete: React.FC<LocalityAutocompleteProps> = ({
+  value,
+  label,
+  provinceCode,
+  error,
+  helperText,
+  onChange,
+  onSelect,
+}) => {
+  const [options, setOptions] = useState<AddressLocality[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!value || value.trim().length < MIN_QUERY_LENGTH) {
+      setOptions([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      const localities = await lookupService.searchLocalities({
+        query: value,
+        province_code: provinceCode || undefined,
+      });
+      if (!cancelled) {
+        setOptions(localities);
+        setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    // A superseded lookup must not leave the spinner on
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setLoading(false);
+    };
+  }, [value, provinceCode]);
+
+  return (
+    <Autocomplete<AddressLocality, false, false, true>
+      freeSolo
+      options={options}
+      loading={loading}
+      filterOptions={(x) => x}
+      inputValue={value || ''}
+      onInputChange={(_, newValue, reason) => {
+        if (reason === 'input' || reason === 'clear') {
+          onChange(newValue.toUpperCase());
+        }
+      }}
+      onChange={(_, selected) => {
+        if (selected && typeof selected !== 'string') {
+          onSelect(selected);
+        }
+      }}
+      getOptionLabel={(option) => (typeof option === 'string' ? option : option.suburb)}
+      isOptionEqualToValue={(option, selected) =>
+        option.suburb === selected.suburb && option.postal_code === selected.postal_code
+      }
+      renderOption={(props, option) => (
+        <Box component="li" {...props} key={`${option.suburb}-${option.postal_code}`}>
+          <Box>
+            <Typography variant="body2">{option.suburb}</Typography>
+            <Typography variant="caption" color="text.secondary">
+              {option.city} • {option.postal_code} • {option.province_code}
+            </Typography>
+          </Box>
+        </Box>
+      )}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label={label}
+          error={error}
+          helperText={helperText}
+          inputProps={{ ...params.inputProps, maxLength: 35, style: { textTransform: 'uppercase' } }}
+        />
+      )}
+    />
+  );
+};
+
+export default LocalityAutocomplete;
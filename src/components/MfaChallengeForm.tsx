@@ -0,0 +1,130 @@
+/**
+ * MFA Challenge Form
+ * Second login step: authenticator (TOTP) code or one-time backup code
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  Link,
+  CircularProgress
+} from '@mui/material';
+import { VerifiedUser } from '@mui/icons-material';
+import { getErrorMessage } from '../config/api';
+import { MfaMethod } from '../types/auth';
+
+interface MfaChallengeFormProps {
+  methods: MfaMethod[];
+  onSubmit: (code: string, method: MfaMethod) => Promise<void>;
+  onCancel?: () => void;
+  cancelLabel?: string;
+}
+
+const TOTP_PATTERN = /^\d{6}$/;
+const BACKUP_CODE_PATTERN = /^[A-Za-z0-9-]{8,12}$/;
+
+const MfaChallengeForm: React.FC<MfaChallengeFormProps> = ({
+  methods,
+  onSubmit,
+  onCancel,
+  cancelLabel = 'Back to sign in'
+}) => {
+  const [method, setMethod] = useState<MfaMethod>(methods.includes('totp') ? 'totp' : 'backup_code');
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isTotp = method === 'totp';
+  const trimmedCode = code.trim();
+  const isCodeValid = isTotp ? TOTP_PATTERN.test(trimmedCode) : BACKUP_CODE_PATTERN.test(trimmedCode);
+
+  const switchMethod = () => {
+    setMethod(isTotp ? 'backup_code' : 'totp');
+    setCode('');
+    setError(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isCodeValid) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onSubmit(trimmedCode, method);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Verification failed. Please try again.'));
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+        <Box sx={{ textAlign: 'center' }}>
+          <VerifiedUser sx={{ fontSize: 40, color: 'primary.main', mb: 1 }} />
+          <Typography variant="h6">Two-factor verification</Typography>
+          <Typography variant="body2" color="text.secondary">
+            {isTotp
+              ? 'Enter the 6-digit code from your authenticator app.'
+              : 'Enter one of your backup codes. Each code can only be used once.'}
+          </Typography>
+        </Box>
+
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <TextField
+          fullWidth
+          autoFocus
+          label={isTotp ? 'Authentication code' : 'Backup code'}
+          value={code}
+          onChange={(e) => setCode(isTotp ? e.target.value.replace(/\D/g, '').slice(0, 6) : e.target.value)}
+          disabled={isSubmitting}
+          autoComplete="one-time-code"
+          inputProps={{
+            inputMode: isTotp ? 'numeric' : 'text',
+            style: { letterSpacing: isTotp ? '0.5em' : undefined, textAlign: 'center' }
+          }}
+        />
+
+        <Button
+          type="submit"
+          fullWidth
+          variant="contained"
+          size="large"
+          disabled={!isCodeValid || isSubmitting}
+          startIcon={isSubmitting ? <CircularProgress size={20} color="inherit" /> : undefined}
+          sx={{ py: 1.5, borderRadius: 2, textTransform: 'none', fontWeight: 600 }}
+        >
+          {isSubmitting ? 'Verifying...' : 'Verify'}
+        </Button>
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+          {methods.length > 1 ? (
+            <Link component="button" type="button" variant="body2" onClick={switchMethod}>
+              {isTotp ? 'Use a backup code' : 'Use authenticator app'}
+            </Link>
+          ) : <span />}
+          {onCancel && (
+            <Link component="button" type="button" variant="body2" onClick={onCancel}>
+              {cancelLabel}
+            </Link>
+          )}
+        </Box>
+      </Box>
+    </form>
+  );
+};
+
+export default MfaChallengeForm;
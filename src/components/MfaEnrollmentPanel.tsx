@@ -0,0 +1,178 @@
+/**
+ * MFA Enrollment Panel
+ * Enrols an authenticator app: QR code display, verification of the first
+ * code and the resulting backup codes.
+ * Used during login (with the challenge's mfa_token) and on the profile page.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  CircularProgress,
+  Stepper,
+  Step,
+  StepLabel
+} from '@mui/material';
+import { getErrorMessage } from '../config/api';
+import { mfaService } from '../services/mfaService';
+import { MfaEnrollment } from '../types/auth';
+import BackupCodesDisplay from './BackupCodesDisplay';
+
+interface MfaEnrollmentPanelProps {
+  /** Challenge token when enrolling during login */
+  mfaToken?: string;
+  deviceName?: string;
+  username?: string;
+  /** Confirm the code and return the backup codes */
+  onVerify: (deviceId: string, code: string) => Promise<string[]>;
+  onComplete: () => void;
+  onCancel?: () => void;
+}
+
+const steps = ['Scan QR code', 'Verify code', 'Save backup codes'];
+
+const MfaEnrollmentPanel: React.FC<MfaEnrollmentPanelProps> = ({
+  mfaToken,
+  deviceName,
+  username,
+  onVerify,
+  onComplete,
+  onCancel
+}) => {
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const activeStep = backupCodes ? 2 : code.length > 0 ? 1 : 0;
+
+  // Start enrolment on mount to get the secret and QR code
+  useEffect(() => {
+    let cancelled = false;
+
+    const startEnrollment = async () => {
+      try {
+        const result = await mfaService.startEnrollment({ mfa_token: mfaToken, device_name: deviceName });
+        if (!cancelled) setEnrollment(result);
+      } catch (err) {
+        if (!cancelled) setError(getErrorMessage(err, 'Could not start authenticator enrolment'));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    startEnrollment();
+    return () => {
+      cancelled = true;
+    };
+  }, [mfaToken, deviceName]);
+
+  const handleVerify = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!enrollment || code.length !== 6) return;
+
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      const codes = await onVerify(enrollment.device_id, code);
+      setBackupCodes(codes);
+    } catch (err) {
+      setError(getErrorMessage(err, 'The code could not be verified. Check the time on your device and try again.'));
+      setCode('');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Stepper activeStep={activeStep} alternativeLabel>
+        {steps.map(label => (
+          <Step key={label}>
+            <StepLabel>{label}</StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {backupCodes ? (
+        <>
+          <BackupCodesDisplay codes={backupCodes} username={username} />
+          <Button variant="contained" onClick={onComplete}>
+            I have saved my backup codes
+          </Button>
+        </>
+      ) : enrollment ? (
+        <form onSubmit={handleVerify}>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, alignItems: 'center' }}>
+            <Typography variant="body2" color="text.secondary" align="center">
+              Scan this QR code with an authenticator app (e.g. Google or Microsoft Authenticator),
+              then enter the 6-digit code it shows.
+            </Typography>
+            <Box
+              component="img"
+              src={enrollment.qr_code}
+              alt="Authenticator QR code"
+              sx={{ width: 200, height: 200, border: 1, borderColor: 'divider', borderRadius: 1 }}
+            />
+            <Typography variant="caption" color="text.secondary">
+              Can't scan? Enter this key manually:
+            </Typography>
+            <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+              {enrollment.secret}
+            </Typography>
+            <TextField
+              fullWidth
+              autoFocus
+              label="Authentication code"
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              disabled={isVerifying}
+              autoComplete="one-time-code"
+              inputProps={{ inputMode: 'numeric', style: { letterSpacing: '0.5em', textAlign: 'center' } }}
+            />
+            <Box sx={{ display: 'flex', gap: 1, width: '100%', justifyContent: 'flex-end' }}>
+              {onCancel && (
+                <Button onClick={onCancel} disabled={isVerifying}>
+                  Cancel
+                </Button>
+              )}
+              <Button
+                type="submit"
+                variant="contained"
+                disabled={code.length !== 6 || isVerifying}
+                startIcon={isVerifying ? <CircularProgress size={16} color="inherit" /> : undefined}
+              >
+                Verify & Enable
+              </Button>
+            </Box>
+          </Box>
+        </form>
+      ) : (
+        onCancel && <Button onClick={onCancel}>Back</Button>
+      )}
+    </Box>
+  );
+};
+
+export default MfaEnrollmentPanel;
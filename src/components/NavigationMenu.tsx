@@ -0,0 +1,87 @@
+/**
+ * NavigationMenu Component
+ * Sidebar list built from NavigationItem entries (see config/routes)
+ *
+ * In preview mode the entries are not links, so admins can inspect another
+ * user's sidebar without navigating anywhere.
+ */
+
+import React, { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import {
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Collapse
+} from '@mui/material';
+import { ExpandLess, ExpandMore } from '@mui/icons-material';
+import { NavigationItem } from '../config/routes';
+
+interface NavigationMenuProps {
+  items: NavigationItem[];
+  /** Render read-only entries instead of links */
+  preview?: boolean;
+}
+
+const NavigationMenu: React.FC<NavigationMenuProps> = ({ items, preview = false }) => {
+  const location = useLocation();
+  const [openGroups, setOpenGroups] = useState<Record<string, boolean>>({});
+
+  const handleGroupClick = (groupText: string) => {
+    setOpenGroups(prev => ({ ...prev, [groupText]: !prev[groupText] }));
+  };
+
+  const renderEntry = (item: NavigationItem, nested = false) => (
+    <ListItem key={item.text} disablePadding>
+      {preview ? (
+        <ListItemButton sx={nested ? { pl: 4 } : undefined} disableRipple>
+          <ListItemIcon>{item.icon}</ListItemIcon>
+          <ListItemText primary={item.text} secondary={item.path} />
+        </ListItemButton>
+      ) : (
+        <ListItemButton
+          component={Link}
+          to={item.path!}
+          selected={location.pathname === item.path}
+          sx={nested ? { pl: 4 } : undefined}
+        >
+          <ListItemIcon>{item.icon}</ListItemIcon>
+          <ListItemText primary={item.text} />
+        </ListItemButton>
+      )}
+    </ListItem>
+  );
+
+  return (
+    <List>
+      {items.map((item) => (
+        <div key={item.text}>
+          {item.subItems ? (
+            <>
+              <ListItem disablePadding>
+                <ListItemButton onClick={() => handleGroupClick(item.text)}>
+                  <ListItemIcon>
+                    {item.icon}
+                  </ListItemIcon>
+                  <ListItemText primary={item.text} />
+                  {openGroups[item.text] ? <ExpandLess /> : <ExpandMore />}
+                </ListItemButton>
+              </ListItem>
+              <Collapse in={Boolean(openGroups[item.text])} timeout="auto" unmountOnExit>
+                <List component="div" disablePadding>
+                  {item.subItems.map((subItem) => renderEntry(subItem, true))}
+                </List>
+              </Collapse>
+            </>
+          ) : (
+            renderEntry(item)
+          )}
+        </div>
+      ))}
+    </List>
+  );
+};
+
+export default NavigationMenu;
@@ -0,0 +1,75 @@
+/**
+ * Password Strength Meter
+ * Strength bar and policy checklist shown under new-password fields
+ */
+
+import React from 'react';
+import { Box, LinearProgress, Typography, List, ListItem, ListItemIcon, ListItemText } from '@mui/material';
+import { CheckCircle, RadioButtonUnchecked, History } from '@mui/icons-material';
+import { PasswordPolicy } from '../types/auth';
+import { checkPasswordPolicy, getPasswordStrength, getPasswordHistoryHint } from '../config/passwordPolicy';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  policy: PasswordPolicy;
+  username?: string;
+  showHistoryHint?: boolean;
+}
+
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({
+  password,
+  policy,
+  username,
+  showHistoryHint = true
+}) => {
+  const strength = getPasswordStrength(password);
+  const rules = checkPasswordPolicy(password, policy, username);
+  const historyHint = showHistoryHint ? getPasswordHistoryHint(policy) : null;
+
+  return (
+    <Box sx={{ mt: 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <LinearProgress
+          variant="determinate"
+          value={password ? Math.max(strength.score, 0.5) * 25 : 0}
+          color={strength.color}
+          sx={{ flexGrow: 1, height: 6, borderRadius: 3 }}
+        />
+        <Typography variant="caption" color={`${strength.color}.main`} sx={{ minWidth: 64, textAlign: 'right' }}>
+          {password ? strength.label : ''}
+        </Typography>
+      </Box>
+
+      <List dense disablePadding sx={{ mt: 0.5 }}>
+        {rules.map(rule => (
+          <ListItem key={rule.id} disableGutters sx={{ py: 0 }}>
+            <ListItemIcon sx={{ minWidth: 28 }}>
+              {rule.passed ? (
+                <CheckCircle fontSize="small" color="success" />
+              ) : (
+                <RadioButtonUnchecked fontSize="small" color="disabled" />
+              )}
+            </ListItemIcon>
+            <ListItemText
+              primary={rule.label}
+              primaryTypographyProps={{ variant: 'caption', color: rule.passed ? 'text.primary' : 'text.secondary' }}
+            />
+          </ListItem>
+        ))}
+        {historyHint && (
+          <ListItem disableGutters sx={{ py: 0 }}>
+            <ListItemIcon sx={{ minWidth: 28 }}>
+              <History fontSize="small" color="disabled" />
+            </ListItemIcon>
+            <ListItemText
+              primary={historyHint}
+              primaryTypographyProps={{ variant: 'caption', color: 'text.secondary' }}
+            />
+          </ListItem>
+        )}
+      </List>
+    </Box>
+  );
+};
+
+export default PasswordStrengthMeter;
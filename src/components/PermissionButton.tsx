@@ -0,0 +1,64 @@
+/**
+ * Permission-aware Action Buttons
+ * Buttons that stay visible but render disabled, with a tooltip explaining
+ * the missing permission, when the current user cannot perform the action
+ */
+
+import React from 'react';
+import { Button, ButtonProps, IconButton, IconButtonProps, Tooltip } from '@mui/material';
+import { usePermission } from '../contexts/AuthContext';
+import { PermissionRequirement, Role } from '../config/permissions';
+
+interface PermissionProps {
+  permission?: PermissionRequirement;
+  role?: Role;
+}
+
+type PermissionButtonProps = ButtonProps & PermissionProps;
+
+export const PermissionButton: React.FC<PermissionButtonProps> = ({
+  permission,
+  role,
+  disabled,
+  ...buttonProps
+}) => {
+  const { allowed, reason } = usePermission(permission, role);
+
+  if (allowed) {
+    return <Button {...buttonProps} disabled={disabled} />;
+  }
+
+  // Disabled buttons do not fire mouse events, so the tooltip wraps a span
+  return (
+    <Tooltip title={reason}>
+      <span style={{ display: buttonProps.fullWidth ? 'block' : 'inline-block' }}>
+        <Button {...buttonProps} disabled />
+      </span>
+    </Tooltip>
+  );
+};
+
+type PermissionIconButtonProps = IconButtonProps & PermissionProps & {
+  /** Tooltip shown when the action is allowed */
+  title: string;
+};
+
+export const PermissionIconButton: React.FC<PermissionIconButtonProps> = ({
+  permission,
+  role,
+  title,
+  disabled,
+  ...iconButtonProps
+}) => {
+  const { allowed, reason } = usePermission(permission, role);
+
+  return (
+    <Tooltip title={allowed ? title : `${title} - ${reason}`}>
+      <span>
+        <IconButton {...iconButtonProps} disabled={disabled || !allowed} />
+      </span>
+    </Tooltip>
+  );
+};
+
+export default PermissionButton;
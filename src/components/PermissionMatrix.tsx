@@ -0,0 +1,160 @@
+/**
+ * PermissionMatrix Component
+ * Grouped read/create/update/delete grid of permission checkboxes, with a
+ * group's special actions (e.g. merging persons) listed beneath its row
+ *
+ * Rows come from PERMISSION_GROUPS; permissions the backend reports that are
+ * not in the registry are listed under "Other". Cells are disabled when the
+ * permission is not assignable or the current user may not grant it.
+ */
+
+import React from 'react';
+import {
+  Box,
+  Checkbox,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { PERMISSION_GROUPS, PermissionAction } from '../config/permissions';
+import { PermissionDefinition } from '../types/role';
+
+const ACTIONS: { key: PermissionAction; label: string }[] = [
+  { key: 'read', label: 'Read' },
+  { key: 'create', label: 'Create' },
+  { key: 'update', label: 'Update' },
+  { key: 'delete', label: 'Delete' },
+];
+
+const REGISTRY_PERMISSIONS = new Set<string>(
+  PERMISSION_GROUPS.flatMap(group => [
+    ...Object.values(group.actions),
+    ...(group.specialActions || []).map(action => action.permission),
+  ])
+);
+
+interface PermissionMatrixProps {
+  /** Permission names currently selected */
+  selected: string[];
+  onChange?: (selected: string[]) => void;
+  /** Permissions that exist on the backend and can be assigned */
+  availablePermissions: PermissionDefinition[];
+  /** Whether the current user may grant (or revoke) a permission */
+  canGrant?: (permission: string) => boolean;
+  readOnly?: boolean;
+}
+
+const PermissionMatrix: React.FC<PermissionMatrixProps> = ({
+  selected,
+  onChange,
+  availablePermissions,
+  canGrant = () => true,
+  readOnly = false,
+}) => {
+  const available = new Set(availablePermissions.map(permission => permission.name));
+  const otherPermissions = availablePermissions.filter(permission => !REGISTRY_PERMISSIONS.has(permission.name));
+
+  const toggle = (permission: string) => {
+    if (!onChange) return;
+    onChange(
+      selected.includes(permission)
+        ? selected.filter(name => name !== permission)
+        : [...selected, permission]
+    );
+  };
+
+  const renderCheckbox = (permission: string) => {
+    const grantable = canGrant(permission);
+    const checkbox = (
+      <Checkbox
+        size="small"
+        checked={selected.includes(permission)}
+        onChange={() => toggle(permission)}
+        disabled={readOnly || !available.has(permission) || !grantable}
+        inputProps={{ 'aria-label': permission }}
+      />
+    );
+
+    if (!readOnly && available.has(permission) && !grantable) {
+      return (
+        <Tooltip title="You cannot grant a permission you do not hold">
+          <span>{checkbox}</span>
+        </Tooltip>
+      );
+    }
+    return checkbox;
+  };
+
+  return (
+    <Box>
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Area</TableCell>
+              {ACTIONS.map(action => (
+                <TableCell key={action.key} align="center">{action.label}</TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {PERMISSION_GROUPS.map(group => (
+              <React.Fragment key={group.key}>
+                <TableRow>
+                  <TableCell>{group.label}</TableCell>
+                  {ACTIONS.map(action => {
+                    const permission = group.actions[action.key];
+                    return (
+                      <TableCell key={action.key} align="center">
+                        {permission ? renderCheckbox(permission) : '-'}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+                {group.specialActions && (
+                  <TableRow>
+                    <TableCell sx={{ pl: 4, color: 'text.secondary' }}>{group.label}: special actions</TableCell>
+                    <TableCell colSpan={ACTIONS.length}>
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', columnGap: 2 }}>
+                        {group.specialActions.map(action => (
+                          <Box key={action.permission} sx={{ display: 'flex', alignItems: 'center' }}>
+                            {renderCheckbox(action.permission)}
+                            <Typography variant="body2">{action.label}</Typography>
+                          </Box>
+                        ))}
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </React.Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {otherPermissions.length > 0 && (
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="subtitle2" gutterBottom>
+            Other Permissions
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', columnGap: 2 }}>
+            {otherPermissions.map(permission => (
+              <Box key={permission.id} sx={{ display: 'flex', alignItems: 'center' }}>
+                {renderCheckbox(permission.name)}
+                <Typography variant="body2">{permission.display_name || permission.name}</Typography>
+              </Box>
+            ))}
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default PermissionMatrix;
@@ -0,0 +1,131 @@
+/**
+ * PersonHistoryTimeline Component
+ * Audit trail of a person record - who changed what and when, with the
+ * before/after value of every changed field
+ */
+
+import React from 'react';
+import {
+  Box,
+  Chip,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import {
+  Timeline,
+  TimelineConnector,
+  TimelineContent,
+  TimelineDot,
+  TimelineItem,
+  TimelineOppositeContent,
+  TimelineSeparator
+} from '@mui/lab';
+import {
+  PersonAdd as CreatedIcon,
+  Edit as UpdatedIcon,
+  Block as DeactivatedIcon,
+  CheckCircle as ReactivatedIcon,
+  MergeType as MergedIcon
+} from '@mui/icons-material';
+import { PersonHistoryAction, PersonHistoryEntry } from '../types/person';
+
+const ACTION_DISPLAY: Record<PersonHistoryAction, {
+  label: string;
+  color: 'primary' | 'info' | 'error' | 'success' | 'warning';
+  icon: React.ReactElement;
+}> = {
+  created: { label: 'Registered', color: 'primary', icon: <CreatedIcon fontSize="small" /> },
+  updated: { label: 'Updated', color: 'info', icon: <UpdatedIcon fontSize="small" /> },
+  deactivated: { label: 'Deactivated', color: 'error', icon: <DeactivatedIcon fontSize="small" /> },
+  reactivated: { label: 'Reactivated', color: 'success', icon: <ReactivatedIcon fontSize="small" /> },
+  merged: { label: 'Merged', color: 'warning', icon: <MergedIcon fontSize="small" /> },
+};
+
+const formatValue = (value?: string | null) =>
+  value === undefined || value === null || value === '' ? '-' : value;
+
+interface PersonHistoryTimelineProps {
+  entries: PersonHistoryEntry[];
+}
+
+const PersonHistoryTimeline: React.FC<PersonHistoryTimelineProps> = ({ entries }) => {
+  if (entries.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No history recorded for this person.
+      </Typography>
+    );
+  }
+
+  return (
+    <Timeline position="right" sx={{ p: 0, m: 0 }}>
+      {entries.map((entry, index) => {
+        const display = ACTION_DISPLAY[entry.action] || ACTION_DISPLAY.updated;
+        return (
+          <TimelineItem key={entry.id}>
+            <TimelineOppositeContent sx={{ flex: 0.25, pt: 1.5 }}>
+              <Typography variant="body2">{new Date(entry.changed_at).toLocaleDateString()}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                {new Date(entry.changed_at).toLocaleTimeString()}
+              </Typography>
+            </TimelineOppositeContent>
+
+            <TimelineSeparator>
+              <TimelineDot color={display.color}>{display.icon}</TimelineDot>
+              {index < entries.length - 1 && <TimelineConnector />}
+            </TimelineSeparator>
+
+            <TimelineContent sx={{ pb: 3 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Chip label={display.label} color={display.color} size="small" />
+                <Typography variant="body2" color="text.secondary">
+                  by {entry.changed_by}
+                </Typography>
+              </Box>
+
+              {entry.reason && (
+                <Typography variant="body2" sx={{ mb: 1 }}>
+                  Reason: {entry.reason}
+                </Typography>
+              )}
+
+              {entry.changes.length > 0 && (
+                <Paper variant="outlined">
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Field</TableCell>
+                        <TableCell>Before</TableCell>
+                        <TableCell>After</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {entry.changes.map(change => (
+                        <TableRow key={change.field}>
+                          <TableCell sx={{ fontFamily: 'monospace' }}>{change.field}</TableCell>
+                          <TableCell sx={{ color: 'error.main', textDecoration: 'line-through' }}>
+                            {formatValue(change.old_value)}
+                          </TableCell>
+                          <TableCell sx={{ color: 'success.main' }}>
+                            {formatValue(change.new_value)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Paper>
+              )}
+            </TimelineContent>
+          </TimelineItem>
+        );
+      })}
+    </Timeline>
+  );
+};
+
+export default PersonHistoryTimeline;
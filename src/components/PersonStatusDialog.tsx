@@ -0,0 +1,133 @@
+/**
+ * PersonStatusDialog Component
+ * Captures the reason code and note required to deactivate or reactivate a
+ * person record
+ */
+
+import React, { useEffect } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField
+} from '@mui/material';
+import { useForm, Controller } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { PersonStatusChange } from '../types/person';
+
+export const DEACTIVATION_REASONS = [
+  { value: 'DECEASED', label: 'Deceased' },
+  { value: 'DUPLICATE', label: 'Duplicate record' },
+  { value: 'FRAUD', label: 'Suspected fraudulent identity' },
+  { value: 'ERROR', label: 'Captured in error' },
+  { value: 'OTHER', label: 'Other' }
+];
+
+export const REACTIVATION_REASONS = [
+  { value: 'IDENTITY_VERIFIED', label: 'Identity verified' },
+  { value: 'DEACTIVATED_IN_ERROR', label: 'Deactivated in error' },
+  { value: 'COURT_ORDER', label: 'Court order' },
+  { value: 'OTHER', label: 'Other' }
+];
+
+const statusChangeSchema = yup.object({
+  reason_code: yup.string().required('Reason is required'),
+  note: yup.string().trim().required('A note is required').max(500, 'Maximum 500 characters')
+});
+
+interface PersonStatusDialogProps {
+  open: boolean;
+  /** Whether the dialog deactivates (true) or reactivates (false) the person */
+  deactivating: boolean;
+  personName: string;
+  submitting?: boolean;
+  onSubmit: (change: PersonStatusChange) => void;
+  onClose: () => void;
+}
+
+const PersonStatusDialog: React.FC<PersonStatusDialogProps> = ({
+  open,
+  deactivating,
+  personName,
+  submitting = false,
+  onSubmit,
+  onClose,
+}) => {
+  const reasons = deactivating ? DEACTIVATION_REASONS : REACTIVATION_REASONS;
+  const { control, handleSubmit, reset, formState: { errors } } = useForm<PersonStatusChange>({
+    resolver: yupResolver(statusChangeSchema),
+    defaultValues: { reason_code: '', note: '' }
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset({ reason_code: '', note: '' });
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onClose={submitting ? undefined : onClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <DialogTitle>{deactivating ? 'Deactivate' : 'Reactivate'} {personName}</DialogTitle>
+        <DialogContent>
+          <Alert severity={deactivating ? 'warning' : 'info'} sx={{ mb: 2 }}>
+            {deactivating
+              ? 'A deactivated person is hidden from default searches and cannot be used in new registrations until reactivated.'
+              : 'The person will be available for new registrations again.'}
+          </Alert>
+
+          <Controller
+            name="reason_code"
+            control={control}
+            render={({ field }) => (
+              <FormControl fullWidth error={!!errors.reason_code} sx={{ mb: 2 }}>
+                <InputLabel>Reason *</InputLabel>
+                <Select {...field} label="Reason *">
+                  {reasons.map(reason => (
+                    <MenuItem key={reason.value} value={reason.value}>
+                      {reason.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+                {errors.reason_code && <FormHelperText>{errors.reason_code.message}</FormHelperText>}
+              </FormControl>
+            )}
+          />
+
+          <Controller
+            name="note"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                fullWidth
+                multiline
+                rows={3}
+                label="Note *"
+                error={!!errors.note}
+                helperText={errors.note?.message || 'Recorded in the status history'}
+              />
+            )}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={submitting}>Cancel</Button>
+          <Button type="submit" variant="contained" color={deactivating ? 'error' : 'success'} disabled={submitting}>
+            {submitting ? 'Saving...' : deactivating ? 'Deactivate' : 'Reactivate'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default PersonStatusDialog;
@@ -6,11 +6,12 @@
 import { Navigate, useLocation } from 'react-router-dom';
 import { Box, CircularProgress, Typography } from '@mui/material';
 import { useAuth } from '../contexts/AuthContext';
+import { PermissionRequirement, Role, describePermissionRequirement } from '../config/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredPermission?: string;
-  requiredRole?: string;
+  requiredPermission?: PermissionRequirement;
+  requiredRole?: Role;
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
@@ -18,7 +19,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   requiredPermission,
   requiredRole
 }) => {
-  const { isAuthenticated, isLoading, hasPermission, hasRole } = useAuth();
+  const { isAuthenticated, isLoading, sessionExpired, passwordChangeRequired, meetsRequirement, hasRole } = useAuth();
   const location = useLocation();
 
   // Show loading spinner while checking authentication
@@ -42,11 +43,22 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     );
   }
 
-  // Redirect to login if not authenticated
+  // Redirect to login if not authenticated, keeping the return location
   if (!isAuthenticated) {
     return (
       <Navigate
         to="/login"
+        state={{ from: location, sessionExpired }}
+        replace
+      />
+    );
+  }
+
+  // A forced password change (first login or admin reset) blocks everything else
+  if (passwordChangeRequired && location.pathname !== '/change-password') {
+    return (
+      <Navigate
+        to="/change-password"
         state={{ from: location }}
         replace
       />
@@ -54,7 +66,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   }
 
   // Check permissions if required
-  if (requiredPermission && !hasPermission(requiredPermission)) {
+  if (requiredPermission && !meetsRequirement(requiredPermission)) {
     return (
       <Box
         sx={{
@@ -75,7 +87,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
           You don't have permission to access this page.
         </Typography>
         <Typography variant="body2" color="text.secondary">
-          Required permission: {requiredPermission}
+          Required permission: {describePermissionRequirement(requiredPermission)}
         </Typography>
       </Box>
     );
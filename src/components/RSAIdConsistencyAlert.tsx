@@ -0,0 +1,84 @@
+/**
+ * RSAIdConsistencyAlert Component
+ * Lists where the captured birth date, person nature or nationality disagree
+ * with the RSA ID number. Officers can apply the ID's details; users with the
+ * validation override permission can instead keep the captured values by
+ * recording a reason.
+ */
+
+import React from 'react';
+import { Alert, AlertTitle, Box, Button, TextField, Typography } from '@mui/material';
+import { RSAIdConflict } from '../config/identityDocuments';
+
+export const OVERRIDE_REASON_MIN_LENGTH = 10;
+
+export const isOverrideReasonValid = (reason: string) =>
+  reason.trim().length >= OVERRIDE_REASON_MIN_LENGTH;
+
+interface RSAIdConsistencyAlertProps {
+  conflicts: RSAIdConflict[];
+  canOverride: boolean;
+  overrideReason: string;
+  onOverrideReasonChange: (reason: string) => void;
+  onApplyIdDetails: () => void;
+  readOnly?: boolean;
+}
+
+const RSAIdConsistencyAlert: React.FC<RSAIdConsistencyAlertProps> = ({
+  conflicts,
+  canOverride,
+  overrideReason,
+  onOverrideReasonChange,
+  onApplyIdDetails,
+  readOnly = false,
+}) => {
+  if (conflicts.length === 0) return null;
+
+  const overridden = canOverride && isOverrideReasonValid(overrideReason);
+
+  return (
+    <Alert severity={overridden ? 'info' : 'warning'} sx={{ mb: 3 }}>
+      <AlertTitle>{overridden ? 'RSA ID conflicts overridden' : 'Details do not match the RSA ID'}</AlertTitle>
+      <Box component="ul" sx={{ m: 0, pl: 2 }}>
+        {conflicts.map(conflict => (
+          <li key={conflict.field}>
+            <Typography variant="body2">{conflict.message}</Typography>
+          </li>
+        ))}
+      </Box>
+
+      {readOnly ? (
+        overridden && (
+          <Typography variant="body2" sx={{ mt: 1 }}>
+            <strong>Override reason:</strong> {overrideReason}
+          </Typography>
+        )
+      ) : (
+        <>
+          <Button size="small" variant="outlined" color="inherit" onClick={onApplyIdDetails} sx={{ mt: 1 }}>
+            Use details from RSA ID
+          </Button>
+          {canOverride ? (
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              size="small"
+              label="Supervisor override reason"
+              value={overrideReason}
+              onChange={(e) => onOverrideReasonChange(e.target.value)}
+              helperText={`Keep the captured details by recording why they differ (at least ${OVERRIDE_REASON_MIN_LENGTH} characters)`}
+              sx={{ mt: 2, backgroundColor: 'white' }}
+            />
+          ) : (
+            <Typography variant="body2" sx={{ mt: 1 }}>
+              Correct the details or ask a supervisor to override before saving.
+            </Typography>
+          )}
+        </>
+      )}
+    </Alert>
+  );
+};
+
+export default RSAIdConsistencyAlert;
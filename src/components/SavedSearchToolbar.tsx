@@ -0,0 +1,213 @@
+/**
+ * SavedSearchToolbar Component
+ * Saved and recent person searches: apply a named search (private or shared
+ * with the user group), re-run a recent one, or save the current criteria
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Bookmarks as BookmarksIcon,
+  BookmarkAdd as BookmarkAddIcon,
+  History as HistoryIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage } from '../config/api';
+import { buildSearchQuery, describeSearchCriteria, RecentSearch } from '../config/personSearchQuery';
+import { personSavedSearchService } from '../services/personService';
+import { PersonSavedSearch, PersonSearchCriteria, SavedSearchVisibility } from '../types/person';
+
+interface SavedSearchToolbarProps {
+  /** Criteria currently entered in the search form */
+  getCriteria: () => PersonSearchCriteria;
+  recentSearches: RecentSearch[];
+  /** Run the search described by a query string */
+  onApply: (query: string) => void;
+}
+
+const SavedSearchToolbar: React.FC<SavedSearchToolbarProps> = ({ getCriteria, recentSearches, onApply }) => {
+  const { user } = useAuth();
+  const [savedSearches, setSavedSearches] = useState<PersonSavedSearch[]>([]);
+  const [savedAnchor, setSavedAnchor] = useState<HTMLElement | null>(null);
+  const [recentAnchor, setRecentAnchor] = useState<HTMLElement | null>(null);
+
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [visibility, setVisibility] = useState<SavedSearchVisibility>('private');
+  const [saving, setSaving] = useState(false);
+
+  const loadSavedSearches = async () => {
+    try {
+      setSavedSearches(await personSavedSearchService.getAll());
+    } catch (err) {
+      console.error('Failed to load saved searches:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadSavedSearches();
+  }, []);
+
+  const openSaveDialog = () => {
+    setName('');
+    setVisibility('private');
+    setSaveDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await personSavedSearchService.create({ name: name.trim(), visibility, criteria: getCriteria() });
+      toast.success('Search saved');
+      setSaveDialogOpen(false);
+      loadSavedSearches();
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Failed to save search'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (search: PersonSavedSearch) => {
+    try {
+      await personSavedSearchService.delete(search.id);
+      setSavedSearches(prev => prev.filter(saved => saved.id !== search.id));
+      toast.success(`Deleted "${search.name}"`);
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Failed to delete saved search'));
+    }
+  };
+
+  const applySaved = (search: PersonSavedSearch) => {
+    setSavedAnchor(null);
+    onApply(buildSearchQuery(search.criteria).toString());
+  };
+
+  const applyRecent = (search: RecentSearch) => {
+    setRecentAnchor(null);
+    onApply(search.query);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+      <Button size="small" startIcon={<BookmarksIcon />} onClick={(e) => setSavedAnchor(e.currentTarget)}>
+        Saved Searches ({savedSearches.length})
+      </Button>
+      <Button
+        size="small"
+        startIcon={<HistoryIcon />}
+        disabled={recentSearches.length === 0}
+        onClick={(e) => setRecentAnchor(e.currentTarget)}
+      >
+        Recent
+      </Button>
+      <Button size="small" startIcon={<BookmarkAddIcon />} onClick={openSaveDialog}>
+        Save Search
+      </Button>
+
+      <Menu anchorEl={savedAnchor} open={!!savedAnchor} onClose={() => setSavedAnchor(null)}>
+        {savedSearches.length === 0 && (
+          <MenuItem disabled>No saved searches</MenuItem>
+        )}
+        {savedSearches.map(search => (
+          <MenuItem key={search.id} onClick={() => applySaved(search)} sx={{ gap: 1, maxWidth: 480 }}>
+            <ListItemText
+              primary={search.name}
+              secondary={describeSearchCriteria(search.criteria)}
+              secondaryTypographyProps={{ noWrap: true }}
+            />
+            {search.visibility === 'user_group' && (
+              <Chip
+                label={search.owner_id === user?.id ? 'Shared' : `Shared by ${search.owner_name || 'colleague'}`}
+                size="small"
+                variant="outlined"
+              />
+            )}
+            {search.owner_id === user?.id && (
+              <Tooltip title="Delete saved search">
+                <IconButton
+                  size="small"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(search);
+                  }}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <Menu anchorEl={recentAnchor} open={!!recentAnchor} onClose={() => setRecentAnchor(null)}>
+        {recentSearches.map(search => (
+          <MenuItem key={search.query} onClick={() => applyRecent(search)} sx={{ maxWidth: 480 }}>
+            <ListItemText
+              primary={search.summary}
+              secondary={new Date(search.searched_at).toLocaleTimeString()}
+              primaryTypographyProps={{ noWrap: true }}
+            />
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <Dialog open={saveDialogOpen} onClose={() => setSaveDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Save Search</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {describeSearchCriteria(getCriteria())}
+          </Typography>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Name *"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            inputProps={{ maxLength: 60 }}
+          />
+          <RadioGroup
+            value={visibility}
+            onChange={(e) => setVisibility(e.target.value as SavedSearchVisibility)}
+            sx={{ mt: 2 }}
+          >
+            <FormControlLabel value="private" control={<Radio />} label="Private - only I can see it" />
+            <FormControlLabel
+              value="user_group"
+              control={<Radio />}
+              label={`Shared with my user group${user?.user_group_code ? ` (${user.user_group_code})` : ''}`}
+            />
+          </RadioGroup>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default SavedSearchToolbar;
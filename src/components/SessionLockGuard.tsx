@@ -0,0 +1,257 @@
+/**
+ * Session Lock Guard
+ * Locks the UI after a period of inactivity on shared counter terminals
+ *
+ * - Shows a countdown warning before locking
+ * - Locks with a re-enter-password overlay; the page underneath stays mounted
+ *   so in-progress form state (e.g. the person wizard) survives the lock
+ * - Logs out after the second, longer threshold, counted from the latest
+ *   activity in any tab because the logout signs out every tab
+ * - Thresholds come from config/session per user type
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  LinearProgress,
+  CircularProgress
+} from '@mui/material';
+import { Lock, Timer } from '@mui/icons-material';
+import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage } from '../config/api';
+import { getIdleTimeouts, ACTIVITY_EVENTS } from '../config/session';
+import { MfaChallenge, MfaMethod } from '../types/auth';
+import MfaChallengeForm from './MfaChallengeForm';
+
+const TICK_INTERVAL_MS = 1000;
+
+const SessionLockGuard: React.FC = () => {
+  const {
+    user,
+    isAuthenticated,
+    isLocked,
+    lockSession,
+    unlockSession,
+    verifyMfa,
+    logout,
+    recordActivity,
+    getLastActivityAt
+  } = useAuth();
+  const [secondsUntilLock, setSecondsUntilLock] = useState<number | null>(null);
+  const [password, setPassword] = useState('');
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  const loggingOutRef = useRef(false);
+
+  const timeouts = getIdleTimeouts(user?.user_type_code);
+
+  const markActive = () => {
+    lastActivityRef.current = Date.now();
+    recordActivity();
+  };
+
+  // A new sign-in starts from fresh activity
+  useEffect(() => {
+    if (isAuthenticated) {
+      loggingOutRef.current = false;
+      markActive();
+    }
+  }, [isAuthenticated]);
+
+  // Record user activity (ignored while locked so the overlay cannot keep the session alive)
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const handleActivity = () => {
+      if (!isLocked) {
+        markActive();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [isAuthenticated, isLocked]);
+
+  // Check inactivity thresholds
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      const idleMs = now - lastActivityRef.current;
+
+      // Only log out once every tab is idle, and only once
+      if (now - Math.max(lastActivityRef.current, getLastActivityAt()) >= timeouts.logoutAfterMs) {
+        if (!loggingOutRef.current) {
+          loggingOutRef.current = true;
+          setSecondsUntilLock(null);
+          logout();
+        }
+        return;
+      }
+
+      if (isLocked) return;
+
+      if (idleMs >= timeouts.lockAfterMs) {
+        setSecondsUntilLock(null);
+        lockSession();
+      } else if (idleMs >= timeouts.lockAfterMs - timeouts.warningMs) {
+        setSecondsUntilLock(Math.ceil((timeouts.lockAfterMs - idleMs) / 1000));
+      } else {
+        setSecondsUntilLock(null);
+      }
+    }, TICK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isAuthenticated, isLocked, timeouts.lockAfterMs, timeouts.warningMs, timeouts.logoutAfterMs]);
+
+  const handleStayActive = () => {
+    markActive();
+    setSecondsUntilLock(null);
+  };
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!password) return;
+
+    setIsUnlocking(true);
+    setUnlockError(null);
+
+    try {
+      const challenge = await unlockSession(password);
+      setPassword('');
+      if (challenge) {
+        // Second factor required to unlock
+        setMfaChallenge(challenge);
+        return;
+      }
+      markActive();
+    } catch (error) {
+      setUnlockError(getErrorMessage(error, 'Incorrect password. Please try again.'));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleMfaUnlock = async (code: string, method: MfaMethod) => {
+    if (!mfaChallenge) return;
+    await verifyMfa(mfaChallenge.mfa_token, code, method);
+    setMfaChallenge(null);
+    markActive();
+  };
+
+  if (!isAuthenticated || !user) {
+    return null;
+  }
+
+  return (
+    <>
+      {/* Countdown warning */}
+      <Dialog open={!isLocked && secondsUntilLock !== null} maxWidth="xs" fullWidth>
+        <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Timer color="warning" />
+          Are you still there?
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body1" gutterBottom>
+            For security, this terminal will lock in {secondsUntilLock} seconds due to inactivity.
+          </Typography>
+          <LinearProgress
+            variant="determinate"
+            color="warning"
+            value={((secondsUntilLock || 0) * 1000 / timeouts.warningMs) * 100}
+            sx={{ mt: 2 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" onClick={handleStayActive}>
+            Continue Working
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Lock screen */}
+      <Dialog
+        open={isLocked}
+        maxWidth="xs"
+        fullWidth
+        disableEscapeKeyDown
+        componentsProps={{
+          backdrop: {
+            sx: { backdropFilter: 'blur(12px)', backgroundColor: 'rgba(0, 0, 0, 0.6)' }
+          }
+        }}
+      >
+        {mfaChallenge ? (
+          <DialogContent>
+            <MfaChallengeForm
+              methods={mfaChallenge.methods}
+              onSubmit={handleMfaUnlock}
+              onCancel={() => setMfaChallenge(null)}
+              cancelLabel="Back"
+            />
+          </DialogContent>
+        ) : (
+          <form onSubmit={handleUnlock}>
+            <DialogContent>
+              <Box sx={{ textAlign: 'center', mb: 3 }}>
+                <Lock sx={{ fontSize: 48, color: 'primary.main', mb: 1 }} />
+                <Typography variant="h5" sx={{ fontWeight: 600 }}>
+                  Session Locked
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Enter the password for <strong>{user.username}</strong> to continue.
+                  Unsaved work on this page has been kept.
+                </Typography>
+              </Box>
+
+              {unlockError && (
+                <Alert severity="error" sx={{ mb: 2 }} onClose={() => setUnlockError(null)}>
+                  {unlockError}
+                </Alert>
+              )}
+
+              <TextField
+                fullWidth
+                autoFocus
+                type="password"
+                label="Password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isUnlocking}
+              />
+            </DialogContent>
+            <DialogActions sx={{ px: 3, pb: 3, justifyContent: 'space-between' }}>
+              <Button color="inherit" onClick={() => logout()} disabled={isUnlocking}>
+                Sign Out
+              </Button>
+              <Button
+                type="submit"
+                variant="contained"
+                disabled={!password || isUnlocking}
+                startIcon={isUnlocking ? <CircularProgress size={16} /> : undefined}
+              >
+                Unlock
+              </Button>
+            </DialogActions>
+          </form>
+        )}
+      </Dialog>
+    </>
+  );
+};
+
+export default SessionLockGuard;
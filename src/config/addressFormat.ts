@@ -0,0 +1,70 @@
+/**
+ * Structured South African Address Format
+ * The person wizard captures addresses as street, suburb, city and postal
+ * code; the backend stores five free-text lines. Each line has a fixed role
+ * so the two stay interchangeable:
+ *
+ * - line 1: street number and name (postal: PO Box / Private Bag)
+ * - line 2: unit, complex or building (optional)
+ * - line 3: additional detail (optional)
+ * - line 4: suburb (postal: post office)
+ * - line 5: city / town
+ */
+
+export interface AddressLines {
+  address_type: string;
+  address_line_1: string;
+  address_line_2?: string;
+  address_line_3?: string;
+  address_line_4?: string;
+  address_line_5?: string;
+  postal_code?: string;
+}
+
+type AddressLineKey = 'address_line_1' | 'address_line_2' | 'address_line_3' | 'address_line_4' | 'address_line_5';
+
+const STREET_LINE_LABELS: Record<AddressLineKey, string> = {
+  address_line_1: 'Street Number and Name',
+  address_line_2: 'Unit / Complex / Building',
+  address_line_3: 'Additional Detail',
+  address_line_4: 'Suburb',
+  address_line_5: 'City / Town',
+};
+
+const POSTAL_LINE_LABELS: Record<AddressLineKey, string> = {
+  ...STREET_LINE_LABELS,
+  address_line_1: 'PO Box / Private Bag',
+  address_line_4: 'Post Office / Suburb',
+};
+
+export const getAddressLineLabel = (addressType: string, line: AddressLineKey): string =>
+  (addressType === 'postal' ? POSTAL_LINE_LABELS : STREET_LINE_LABELS)[line];
+
+const cleanLine = (value?: string) => (value || '').replace(/\s+/g, ' ').trim().toUpperCase();
+
+/**
+ * Trim, collapse whitespace and uppercase every line so the same address is
+ * always stored the same way
+ */
+export const normaliseAddressLines = <T extends AddressLines>(address: T): T => ({
+  ...address,
+  address_line_1: cleanLine(address.address_line_1),
+  address_line_2: cleanLine(address.address_line_2),
+  address_line_3: cleanLine(address.address_line_3),
+  address_line_4: cleanLine(address.address_line_4),
+  address_line_5: cleanLine(address.address_line_5),
+  postal_code: (address.postal_code || '').trim(),
+});
+
+/**
+ * Single-line display: street, complex, detail, suburb, city and postal code
+ */
+export const formatAddress = (address: AddressLines): string =>
+  [
+    address.address_line_1,
+    address.address_line_2,
+    address.address_line_3,
+    address.address_line_4,
+    address.address_line_5,
+    address.postal_code,
+  ].filter(Boolean).join(', ');
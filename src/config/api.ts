@@ -24,6 +24,14 @@ export const API_VERSION = 'v1';
 export const API_ENDPOINTS = {
   // Authentication
   auth: `${API_BASE_URL}/api/${API_VERSION}/auth`,
+  mfaVerify: `${API_BASE_URL}/api/${API_VERSION}/auth/mfa/verify`,
+  mfaStatus: `${API_BASE_URL}/api/${API_VERSION}/auth/mfa`,
+  mfaEnroll: `${API_BASE_URL}/api/${API_VERSION}/auth/mfa/enroll`,
+  mfaEnrollVerify: `${API_BASE_URL}/api/${API_VERSION}/auth/mfa/enroll/verify`,
+  mfaDeviceById: (deviceId: string) => `${API_BASE_URL}/api/${API_VERSION}/auth/mfa/devices/${deviceId}`,
+  mfaBackupCodes: `${API_BASE_URL}/api/${API_VERSION}/auth/mfa/backup-codes`,
+  passwordPolicy: `${API_BASE_URL}/api/${API_VERSION}/auth/password-policy`,
+  changePassword: `${API_BASE_URL}/api/${API_VERSION}/auth/change-password`,
   
   // Person Management
   persons: `${API_BASE_URL}/api/${API_VERSION}/persons`,
@@ -33,6 +41,17 @@ export const API_ENDPOINTS = {
   personSearchById: (idNumber: string) => `${API_BASE_URL}/api/${API_VERSION}/persons/search/by-id-number/${idNumber}`,
   personCheckExistence: (idType: string, idNumber: string) => `${API_BASE_URL}/api/${API_VERSION}/persons/check-existence/${idType}/${idNumber}`,
   personById: (id: string) => `${API_BASE_URL}/api/${API_VERSION}/persons/${id}`,
+  personHistory: (id: string) => `${API_BASE_URL}/api/${API_VERSION}/persons/${id}/history`,
+  personDeactivate: (id: string) => `${API_BASE_URL}/api/${API_VERSION}/persons/${id}/deactivate`,
+  personReactivate: (id: string) => `${API_BASE_URL}/api/${API_VERSION}/persons/${id}/reactivate`,
+  personStatusHistory: (id: string) => `${API_BASE_URL}/api/${API_VERSION}/persons/${id}/status-history`,
+  personMerge: `${API_BASE_URL}/api/${API_VERSION}/persons/merge`,
+  personDuplicateCheck: `${API_BASE_URL}/api/${API_VERSION}/persons/duplicates/check`,
+  personDrafts: `${API_BASE_URL}/api/${API_VERSION}/persons/drafts`,
+  personDraftByDocument: (idType: string, idNumber: string) => `${API_BASE_URL}/api/${API_VERSION}/persons/drafts/${encodeURIComponent(idType)}/${encodeURIComponent(idNumber)}`,
+  personSavedSearches: `${API_BASE_URL}/api/${API_VERSION}/persons/saved-searches`,
+  personSavedSearchById: (id: string) => `${API_BASE_URL}/api/${API_VERSION}/persons/saved-searches/${id}`,
+  personSearchByDocument: (idType: string, idNumber: string) => `${API_BASE_URL}/api/${API_VERSION}/persons/search?id_type=${encodeURIComponent(idType)}&id_number=${encodeURIComponent(idNumber)}`,
   
   // Lookup endpoints
   idDocumentTypes: `${API_BASE_URL}/api/${API_VERSION}/persons/lookups/id-document-types`,
@@ -45,6 +64,8 @@ export const API_ENDPOINTS = {
   allLookups: `${API_BASE_URL}/api/${API_VERSION}/lookups/all`,
   validatePhone: `${API_BASE_URL}/api/${API_VERSION}/lookups/validate-phone`,
   validateProvince: `${API_BASE_URL}/api/${API_VERSION}/lookups/validate-province`,
+  addressLocalities: `${API_BASE_URL}/api/${API_VERSION}/lookups/address-localities`,
+  validationRules: `${API_BASE_URL}/api/${API_VERSION}/lookups/validation-rules`,
   
   // Location Management endpoints (NEW)
   userGroups: `${API_BASE_URL}/api/${API_VERSION}/user-groups`,
@@ -59,6 +80,25 @@ export const API_ENDPOINTS = {
   locationsByProvince: (provinceCode: string) => `${API_BASE_URL}/api/${API_VERSION}/locations/by-province/${provinceCode}`,
   locationsStatistics: `${API_BASE_URL}/api/${API_VERSION}/locations/statistics`,
   locationsNearby: `${API_BASE_URL}/api/${API_VERSION}/locations/nearby`,
+
+  // User Management endpoints
+  users: `${API_BASE_URL}/api/${API_VERSION}/user-management`,
+  userById: (id: string) => `${API_BASE_URL}/api/${API_VERSION}/user-management/${id}`,
+  userStatistics: `${API_BASE_URL}/api/${API_VERSION}/user-management/statistics/overview`,
+  userSearch: `${API_BASE_URL}/api/${API_VERSION}/user-management/search/users`,
+  userValidateUsername: `${API_BASE_URL}/api/${API_VERSION}/user-management/validate/username`,
+  userValidateEmail: `${API_BASE_URL}/api/${API_VERSION}/user-management/validate/email`,
+  userSessions: (userId: string) => `${API_BASE_URL}/api/${API_VERSION}/user-management/${userId}/sessions`,
+  userSessionById: (sessionId: string) => `${API_BASE_URL}/api/${API_VERSION}/user-management/sessions/${sessionId}`,
+  userResetPassword: (userId: string) => `${API_BASE_URL}/api/${API_VERSION}/user-management/${userId}/reset-password`,
+  userAssignments: (userId: string) => `${API_BASE_URL}/api/${API_VERSION}/user-management/${userId}/assignments`,
+  userEffectivePermissions: (userId: string) => `${API_BASE_URL}/api/${API_VERSION}/user-management/${userId}/effective-permissions`,
+
+  // Roles and privileges
+  roles: `${API_BASE_URL}/api/${API_VERSION}/roles`,
+  roleById: (id: string) => `${API_BASE_URL}/api/${API_VERSION}/roles/${id}`,
+  roleUsers: (id: string) => `${API_BASE_URL}/api/${API_VERSION}/roles/${id}/users`,
+  permissions: `${API_BASE_URL}/api/${API_VERSION}/permissions`,
 } as const;
 
 /**
@@ -95,39 +135,596 @@ export const getDefaultHeaders = (includeAuth = true): HeadersInit => {
 };
 
 /**
- * API request wrapper with error handling
+ * Error codes surfaced by ApiError
  */
-export const apiRequest = async <T>(
+export type ApiErrorCode =
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'VALIDATION_ERROR'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'API_ERROR';
+
+/**
+ * Field-level validation error (from FastAPI 422 bodies)
+ */
+export interface ApiFieldError {
+  field: string;
+  message: string;
+  type?: string;
+}
+
+/**
+ * Structured error thrown by apiRequest
+ * status is 0 when no response was received (network failure, timeout, abort)
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly fieldErrors: ApiFieldError[];
+  readonly requestId?: string;
+  readonly detail?: unknown;
+  readonly url: string;
+  readonly method: string;
+
+  constructor(params: {
+    message: string;
+    status: number;
+    code: ApiErrorCode;
+    url: string;
+    method: string;
+    fieldErrors?: ApiFieldError[];
+    requestId?: string;
+    detail?: unknown;
+  }) {
+    super(params.message);
+    this.name = 'ApiError';
+    this.status = params.status;
+    this.code = params.code;
+    this.url = params.url;
+    this.method = params.method;
+    this.fieldErrors = params.fieldErrors || [];
+    this.requestId = params.requestId;
+    this.detail = params.detail;
+  }
+
+  get isUnauthorized(): boolean {
+    return this.code === 'UNAUTHORIZED';
+  }
+
+  get isForbidden(): boolean {
+    return this.code === 'FORBIDDEN';
+  }
+
+  get isNotFound(): boolean {
+    return this.code === 'NOT_FOUND';
+  }
+
+  /**
+   * Record already exists (HTTP 409)
+   */
+  get isConflict(): boolean {
+    return this.code === 'CONFLICT';
+  }
+
+  get isValidationError(): boolean {
+    return this.code === 'VALIDATION_ERROR';
+  }
+
+  /**
+   * No response was received from the server
+   */
+  get isNetworkError(): boolean {
+    return this.code === 'NETWORK_ERROR' || this.code === 'TIMEOUT';
+  }
+
+  get isAborted(): boolean {
+    return this.code === 'ABORTED';
+  }
+
+  /**
+   * Get the validation message for a field (dot-separated path, e.g. "address.postal_code")
+   */
+  getFieldError(field: string): string | undefined {
+    return this.fieldErrors.find(fieldError => fieldError.field === field)?.message;
+  }
+
+  /**
+   * Field errors keyed by field path, for mapping onto form fields
+   */
+  getFieldErrorMap(): Record<string, string> {
+    return this.fieldErrors.reduce<Record<string, string>>((map, fieldError) => {
+      if (!map[fieldError.field]) {
+        map[fieldError.field] = fieldError.message;
+      }
+      return map;
+    }, {});
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+/**
+ * Get a displayable message from any thrown value
+ */
+export const getErrorMessage = (error: unknown, fallback = 'An unexpected error occurred'): string => {
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return fallback;
+};
+
+/**
+ * Retry configuration - only applied to idempotent (GET/HEAD) requests
+ */
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOn: number[];
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  retryOn: [408, 429, 502, 503, 504],
+};
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+export interface ApiRequestOptions extends RequestInit {
+  /** Retry policy for GET/HEAD requests; false disables retries */
+  retry?: Partial<RetryOptions> | false;
+  /** Per-request timeout in milliseconds; 0 disables the timeout */
+  timeoutMs?: number;
+  /** Do not attach the Authorization header */
+  skipAuth?: boolean;
+  /** Do not attempt a token refresh when the request returns 401 */
+  skipAuthRefresh?: boolean;
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD'];
+
+const STATUS_CODES: Record<number, ApiErrorCode> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  422: 'VALIDATION_ERROR',
+  429: 'RATE_LIMITED',
+};
+
+const getErrorCodeForStatus = (status: number): ApiErrorCode => {
+  if (STATUS_CODES[status]) return STATUS_CODES[status];
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'API_ERROR';
+};
+
+/**
+ * Parse FastAPI validation errors: { detail: [{ loc: ['body', 'field'], msg, type }] }
+ * Also accepts { detail: { errors: [...] } } used by the user management endpoints
+ */
+const parseFieldErrors = (detail: unknown): ApiFieldError[] => {
+  if (Array.isArray(detail)) {
+    return detail
+      .filter((item): item is { loc?: unknown[]; msg?: string; type?: string } => !!item && typeof item === 'object')
+      .map(item => ({
+        field: (item.loc || [])
+          .filter(part => !['body', 'query', 'path'].includes(String(part)))
+          .join('.'),
+        message: item.msg || 'Invalid value',
+        type: item.type,
+      }));
+  }
+
+  // Business rule errors carry their validation code as a prefix, e.g. "V06003: ..."
+  if (detail && typeof detail === 'object' && Array.isArray((detail as any).errors)) {
+    return (detail as any).errors.map((message: string) => ({
+      field: '',
+      message: String(message),
+      type: String(message).match(/^(V\d{5})/)?.[1],
+    }));
+  }
+
+  return [];
+};
+
+const getErrorMessageFromBody = (body: any, fieldErrors: ApiFieldError[], status: number): string => {
+  if (typeof body?.detail === 'string') return body.detail;
+  if (typeof body?.message === 'string') return body.message;
+  if (fieldErrors.length > 0) {
+    return fieldErrors
+      .map(fieldError => (fieldError.field ? `${fieldError.field}: ${fieldError.message}` : fieldError.message))
+      .join(', ');
+  }
+  return `API request failed with status ${status}`;
+};
+
+const getRequestId = (response: Response, body?: any): string | undefined =>
+  response.headers.get('x-request-id') ||
+  response.headers.get('x-correlation-id') ||
+  body?.request_id ||
+  undefined;
+
+const getRetryDelay = (attempt: number, retry: RetryOptions, response?: Response): number => {
+  const retryAfter = response?.headers.get('retry-after');
+  if (retryAfter && !isNaN(Number(retryAfter))) {
+    return Math.min(Number(retryAfter) * 1000, retry.maxDelayMs);
+  }
+  const exponential = retry.baseDelayMs * 2 ** attempt;
+  const jitter = Math.random() * retry.baseDelayMs;
+  return Math.min(exponential + jitter, retry.maxDelayMs);
+};
+
+const wait = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+/**
+ * Build an ApiError from a non-OK response
+ */
+const createResponseError = async (
+  response: Response,
   url: string,
-  options: RequestInit = {}
-): Promise<T> => {
+  method: string,
+  correlationId?: string
+): Promise<ApiError> => {
+  const contentType = response.headers.get('content-type');
+  let body: any = null;
+
+  if (contentType?.includes('application/json')) {
+    body = await response.json().catch(() => null);
+  }
+
+  const fieldErrors = parseFieldErrors(body?.detail);
+  return new ApiError({
+    message: getErrorMessageFromBody(body, fieldErrors, response.status),
+    status: response.status,
+    code: getErrorCodeForStatus(response.status),
+    url,
+    method,
+    fieldErrors,
+    requestId: getRequestId(response, body) || correlationId,
+    detail: body?.detail ?? body,
+  });
+};
+
+/**
+ * Single fetch attempt with timeout and caller abort support
+ */
+const fetchWithTimeout = async (
+  url: string,
+  init: RequestInit,
+  method: string,
+  timeoutMs: number
+): Promise<Response> => {
+  const controller = new AbortController();
+  const callerSignal = init.signal;
+  let timedOut = false;
+
+  const abortFromCaller = () => controller.abort();
+  if (callerSignal?.aborted) {
+    controller.abort();
+  } else {
+    callerSignal?.addEventListener('abort', abortFromCaller, { once: true });
+  }
+
+  const timer = timeoutMs > 0
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+    : undefined;
+
   try {
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        ...getDefaultHeaders(),
-        ...options.headers,
-      },
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      throw new ApiError({
+        message: `Request timed out after ${timeoutMs}ms`,
+        status: 0,
+        code: 'TIMEOUT',
+        url,
+        method,
+      });
+    }
+    if (callerSignal?.aborted) {
+      throw new ApiError({ message: 'Request was cancelled', status: 0, code: 'ABORTED', url, method });
+    }
+    throw new ApiError({
+      message: 'Unable to reach the server. Please check your connection.',
+      status: 0,
+      code: 'NETWORK_ERROR',
+      url,
+      method,
+      detail: error,
     });
+  } finally {
+    if (timer) clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', abortFromCaller);
+  }
+};
+
+/**
+ * Request passed through the interceptor pipeline
+ */
+export interface ApiRequestConfig {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  options: ApiRequestOptions;
+  /** Set when the request is being replayed by an error interceptor */
+  isReplay: boolean;
+}
+
+export type RequestInterceptor = (config: ApiRequestConfig) => ApiRequestConfig | Promise<ApiRequestConfig>;
+
+export type ResponseInterceptor = (response: Response, config: ApiRequestConfig) => Response | Promise<Response>;
+
+/**
+ * Error interceptors either resolve with a replacement result (e.g. from replay())
+ * or rethrow to pass the error on to the next interceptor
+ */
+export type ErrorInterceptor = (
+  error: ApiError,
+  config: ApiRequestConfig,
+  replay: () => Promise<unknown>
+) => Promise<unknown>;
+
+const requestInterceptors: RequestInterceptor[] = [];
+const responseInterceptors: ResponseInterceptor[] = [];
+const errorInterceptors: ErrorInterceptor[] = [];
+
+const addInterceptor = <T>(list: T[], interceptor: T): (() => void) => {
+  list.push(interceptor);
+  return () => {
+    const index = list.indexOf(interceptor);
+    if (index >= 0) list.splice(index, 1);
+  };
+};
+
+/**
+ * Interceptor registry - each use() returns a function that removes the interceptor
+ */
+export const interceptors = {
+  request: { use: (interceptor: RequestInterceptor) => addInterceptor(requestInterceptors, interceptor) },
+  response: { use: (interceptor: ResponseInterceptor) => addInterceptor(responseInterceptors, interceptor) },
+  error: { use: (interceptor: ErrorInterceptor) => addInterceptor(errorInterceptors, interceptor) },
+};
+
+const toHeaderRecord = (headers?: HeadersInit): Record<string, string> => {
+  const record: Record<string, string> = {};
+  if (headers) {
+    new Headers(headers).forEach((value, key) => {
+      record[key] = value;
+    });
+  }
+  return record;
+};
+
+const generateCorrelationId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+};
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-ID';
+
+/**
+ * Built-in interceptor: inject the in-memory access token
+ */
+const authHeaderInterceptor: RequestInterceptor = (config) => {
+  const token = getAuthToken();
+  if (token && !config.options.skipAuth && !config.headers['authorization']) {
+    config.headers['authorization'] = `Bearer ${token}`;
+  }
+  return config;
+};
+
+/**
+ * Built-in interceptor: tag each request with a correlation id for backend log tracing
+ */
+const correlationIdInterceptor: RequestInterceptor = (config) => {
+  const header = CORRELATION_ID_HEADER.toLowerCase();
+  if (!config.headers[header]) {
+    config.headers[header] = generateCorrelationId();
+  }
+  return config;
+};
+
+/**
+ * Handler used to silently refresh the access token (registered by AuthContext)
+ */
+let authRefreshHandler: (() => Promise<boolean>) | null = null;
+
+/**
+ * Handler invoked once when a refresh fails and the session cannot be recovered
+ */
+let sessionExpiredHandler: (() => void) | null = null;
+
+/**
+ * The refresh currently in flight. Concurrent 401s wait on this promise instead
+ * of starting their own refresh, so only one /auth/refresh call is ever made.
+ */
+let pendingRefresh: Promise<boolean> | null = null;
+
+export const setAuthRefreshHandler = (handler: (() => Promise<boolean>) | null) => {
+  authRefreshHandler = handler;
+};
+
+export const setSessionExpiredHandler = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+/**
+ * Refresh the access token, sharing a single in-flight refresh between callers
+ */
+export const refreshAuthToken = (): Promise<boolean> => {
+  if (!authRefreshHandler) {
+    return Promise.resolve(false);
+  }
+
+  if (!pendingRefresh) {
+    const handler = authRefreshHandler;
+    pendingRefresh = handler()
+      .catch(() => false)
+      .then(refreshed => {
+        if (!refreshed && sessionExpiredHandler) {
+          sessionExpiredHandler();
+        }
+        return refreshed;
+      })
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+
+  return pendingRefresh;
+};
+
+/**
+ * Built-in interceptor: on 401, wait for a single shared token refresh and
+ * replay the request with the new token. Requests that fail while a refresh is
+ * already running are queued on the same refresh.
+ */
+const authRefreshInterceptor: ErrorInterceptor = async (error, config, replay) => {
+  if (!error.isUnauthorized || config.isReplay || config.options.skipAuthRefresh || !authRefreshHandler) {
+    throw error;
+  }
+
+  // The token may have been refreshed while this request was in flight
+  const sentToken = config.headers.authorization?.replace(/^Bearer\s+/i, '') || null;
+  if (!pendingRefresh && authToken && sentToken !== authToken) {
+    return replay();
+  }
+
+  const refreshed = await refreshAuthToken();
+  if (!refreshed) {
+    throw error;
+  }
+  return replay();
+};
+
+requestInterceptors.push(authHeaderInterceptor, correlationIdInterceptor);
+errorInterceptors.push(authRefreshInterceptor);
+
+/**
+ * Execute a prepared request with timeout and retry handling
+ */
+const executeRequest = async <T>(config: ApiRequestConfig): Promise<T> => {
+  const { url, method } = config;
+  const { retry, timeoutMs = DEFAULT_TIMEOUT_MS, skipAuth: _skipAuth, skipAuthRefresh: _skipAuthRefresh, ...init } = config.options;
+  const retryOptions: RetryOptions | null =
+    retry === false || !IDEMPOTENT_METHODS.includes(method)
+      ? null
+      : { ...DEFAULT_RETRY_OPTIONS, ...retry };
+  const maxAttempts = retryOptions ? retryOptions.retries + 1 : 1;
+  const requestInit: RequestInit = { ...init, method, headers: config.headers };
+  const correlationId = config.headers[CORRELATION_ID_HEADER.toLowerCase()];
+
+  for (let attempt = 0; ; attempt++) {
+    const isLastAttempt = attempt >= maxAttempts - 1;
+    let response: Response;
+
+    try {
+      response = await fetchWithTimeout(url, requestInit, method, timeoutMs);
+      for (const interceptor of responseInterceptors) {
+        response = await interceptor(response, config);
+      }
+    } catch (error) {
+      if (retryOptions && !isLastAttempt && isApiError(error) && error.isNetworkError) {
+        await wait(getRetryDelay(attempt, retryOptions), init.signal);
+        continue;
+      }
+      throw error;
+    }
+
+    if (!response.ok) {
+      if (retryOptions && !isLastAttempt && retryOptions.retryOn.includes(response.status)) {
+        await wait(getRetryDelay(attempt, retryOptions, response), init.signal);
+        continue;
+      }
+      throw await createResponseError(response, url, method, correlationId);
+    }
+
+    // No content (e.g. DELETE)
+    if (response.status === 204) {
+      return undefined as T;
+    }
 
     // Handle non-JSON responses (like HTML error pages)
     const contentType = response.headers.get('content-type');
     if (!contentType?.includes('application/json')) {
       const text = await response.text();
       console.error('Non-JSON response received:', text.substring(0, 200));
-      throw new Error(`API returned non-JSON response. Status: ${response.status}`);
+      throw new ApiError({
+        message: `API returned non-JSON response. Status: ${response.status}`,
+        status: response.status,
+        code: 'INVALID_RESPONSE',
+        url,
+        method,
+        requestId: getRequestId(response) || correlationId,
+      });
     }
 
-    const data = await response.json();
+    return response.json();
+  }
+};
 
-    if (!response.ok) {
-      throw new Error(data.detail || data.message || `API request failed with status ${response.status}`);
-    }
+/**
+ * API request pipeline: request interceptors -> fetch (timeout/retry) -> error interceptors
+ * Throws ApiError for every failure so callers can branch on status/code
+ */
+export const apiRequest = async <T>(
+  url: string,
+  options: ApiRequestOptions = {},
+  isReplay = false
+): Promise<T> => {
+  let config: ApiRequestConfig = {
+    url,
+    method: (options.method || 'GET').toUpperCase(),
+    headers: {
+      ...toHeaderRecord(getDefaultHeaders(false)),
+      ...toHeaderRecord(options.headers),
+    },
+    options,
+    isReplay,
+  };
 
-    return data;
+  for (const interceptor of requestInterceptors) {
+    config = await interceptor(config);
+  }
+
+  try {
+    return await executeRequest<T>(config);
   } catch (error) {
-    console.error('API request failed:', error);
-    throw error;
+    if (!isApiError(error)) throw error;
+
+    let currentError = error;
+    for (const interceptor of errorInterceptors) {
+      try {
+        return (await interceptor(currentError, config, () => apiRequest<T>(url, options, true))) as T;
+      } catch (nextError) {
+        if (!isApiError(nextError)) throw nextError;
+        currentError = nextError;
+      }
+    }
+    throw currentError;
   }
 };
 
@@ -136,26 +733,28 @@ export const apiRequest = async <T>(
  */
 export const api = {
   // GET request
-  get: <T>(url: string): Promise<T> => 
-    apiRequest<T>(url, { method: 'GET' }),
+  get: <T>(url: string, options?: ApiRequestOptions): Promise<T> => 
+    apiRequest<T>(url, { ...options, method: 'GET' }),
 
   // POST request
-  post: <T>(url: string, data?: any): Promise<T> =>
+  post: <T>(url: string, data?: any, options?: ApiRequestOptions): Promise<T> =>
     apiRequest<T>(url, {
+      ...options,
       method: 'POST',
       body: data ? JSON.stringify(data) : undefined,
     }),
 
   // PUT request
-  put: <T>(url: string, data?: any): Promise<T> =>
+  put: <T>(url: string, data?: any, options?: ApiRequestOptions): Promise<T> =>
     apiRequest<T>(url, {
+      ...options,
       method: 'PUT',
       body: data ? JSON.stringify(data) : undefined,
     }),
 
   // DELETE request
-  delete: <T>(url: string): Promise<T> =>
-    apiRequest<T>(url, { method: 'DELETE' }),
+  delete: <T>(url: string, options?: ApiRequestOptions): Promise<T> =>
+    apiRequest<T>(url, { ...options, method: 'DELETE' }),
 };
 
-export default api; 
\ No newline at end of file
+export default api;
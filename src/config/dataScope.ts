@@ -0,0 +1,71 @@
+/**
+ * Geographic Data Scope for LINC Frontend
+ * Limits province and user-group pickers, default filters and lists to what
+ * the logged-in user's authority level allows
+ *
+ * - NATIONAL (or can_access_all_provinces / superuser): every province
+ * - PROVINCIAL: own province only
+ * - REGIONAL and below: own province and own user group only
+ *
+ * The backend enforces the same rules; this keeps the UI from offering
+ * choices the API would reject.
+ */
+
+import { AuthUser } from '../types/auth';
+import { AuthorityLevel } from '../types/user';
+
+export interface DataScope {
+  /** Provinces the user may see; null when unrestricted */
+  provinceCodes: string[] | null;
+  /** User group the user is confined to; null when not confined to one */
+  userGroupCode: string | null;
+}
+
+export const UNRESTRICTED_SCOPE: DataScope = {
+  provinceCodes: null,
+  userGroupCode: null,
+};
+
+const USER_GROUP_BOUND_LEVELS: string[] = [
+  AuthorityLevel.REGIONAL,
+  AuthorityLevel.LOCAL,
+  AuthorityLevel.OFFICE,
+  AuthorityLevel.PERSONAL,
+];
+
+/**
+ * Derive the data scope for a user. A user without a province assignment
+ * cannot be narrowed, so is left to the backend's filtering.
+ */
+export const getDataScope = (user: AuthUser | null): DataScope => {
+  if (!user || user.is_superuser || user.can_access_all_provinces) {
+    return UNRESTRICTED_SCOPE;
+  }
+
+  const level = user.authority_level?.toUpperCase();
+  if (!level || level === AuthorityLevel.NATIONAL || !user.province_code) {
+    return UNRESTRICTED_SCOPE;
+  }
+
+  return {
+    provinceCodes: [user.province_code],
+    userGroupCode: USER_GROUP_BOUND_LEVELS.includes(level) ? user.user_group_code || null : null,
+  };
+};
+
+export const isProvinceInScope = (scope: DataScope, provinceCode?: string | null): boolean =>
+  !scope.provinceCodes || (!!provinceCode && scope.provinceCodes.includes(provinceCode));
+
+export const isUserGroupInScope = (
+  scope: DataScope,
+  userGroup: { user_group_code: string; province_code: string }
+): boolean =>
+  isProvinceInScope(scope, userGroup.province_code) &&
+  (!scope.userGroupCode || userGroup.user_group_code === scope.userGroupCode);
+
+/**
+ * Province pre-selected in filters and create forms: the user's only
+ * province, or '' (all provinces / no default) when unrestricted
+ */
+export const getDefaultProvinceCode = (scope: DataScope): string =>
+  scope.provinceCodes?.length === 1 ? scope.provinceCodes[0] : '';
@@ -0,0 +1,49 @@
+/**
+ * ID Document Expiry Rules
+ * Foreign IDs and passports carry an expiry date; these helpers classify a
+ * document as expired or expiring soon for warnings, search and the
+ * dashboard
+ */
+
+/** Documents expiring within this many days are flagged as expiring soon */
+export const EXPIRY_WARNING_DAYS = 90;
+
+/** Choices for the "documents expiring within N days" search filter */
+export const EXPIRY_FILTER_DAYS = [30, 60, 90, 180];
+
+export type DocumentExpiryStatus = 'expired' | 'expiring' | 'valid';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days from today until the expiry date; negative once expired
+ */
+export const daysUntilExpiry = (expiryDate: string): number => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const expiry = new Date(expiryDate);
+  expiry.setHours(0, 0, 0, 0);
+  return Math.round((expiry.getTime() - today.getTime()) / MS_PER_DAY);
+};
+
+/**
+ * Expiry status of a document, or null when it has no (valid) expiry date
+ */
+export const getDocumentExpiryStatus = (
+  expiryDate?: string | null,
+  warningDays: number = EXPIRY_WARNING_DAYS
+): DocumentExpiryStatus | null => {
+  if (!expiryDate || Number.isNaN(new Date(expiryDate).getTime())) return null;
+
+  const days = daysUntilExpiry(expiryDate);
+  if (days < 0) return 'expired';
+  if (days <= warningDays) return 'expiring';
+  return 'valid';
+};
+
+export const describeExpiry = (expiryDate: string): string => {
+  const days = daysUntilExpiry(expiryDate);
+  if (days < 0) return `Expired ${Math.abs(days)} day(s) ago`;
+  if (days === 0) return 'Expires today';
+  return `Expires in ${days} day(s)`;
+};
@@ -0,0 +1,303 @@
+import {
+  ID_DOCUMENT_TYPE_CODES,
+  extractBirthDate,
+  extractCitizenship,
+  extractGender,
+  findRSAIdConflicts,
+  getIdDocumentType,
+  hasValidCheckDigit,
+  parseRSAId,
+  validateIdDocumentNumber,
+} from './identityDocuments';
+
+const { TRN, RSA_ID, FOREIGN_ID, PASSPORT } = ID_DOCUMENT_TYPE_CODES;
+
+// 1980-01-01, male, citizen
+const MALE_CITIZEN_ID = '8001015009087';
+// 1980-01-01, female, citizen
+const FEMALE_CITIZEN_ID = '8001014009088';
+// 1980-01-01, male, permanent resident
+const PERMANENT_RESIDENT_ID = '8001015009186';
+// 1980-01-01, male, refugee
+const REFUGEE_ID = '8001015009285';
+
+beforeAll(() => {
+  jest.useFakeTimers().setSystemTime(new Date('2025-06-15T12:00:00'));
+});
+
+afterAll(() => {
+  jest.useRealTimers();
+});
+
+describe('hasValidCheckDigit', () => {
+  it('accepts numbers with a correct Luhn check digit', () => {
+    expect(hasValidCheckDigit(MALE_CITIZEN_ID)).toBe(true);
+    expect(hasValidCheckDigit('1234567890128')).toBe(true);
+  });
+
+  it('rejects a wrong check digit', () => {
+    expect(hasValidCheckDigit('8001015009086')).toBe(false);
+    expect(hasValidCheckDigit('1234567890123')).toBe(false);
+  });
+
+  it('rejects anything that is not exactly 13 digits', () => {
+    expect(hasValidCheckDigit('')).toBe(false);
+    expect(hasValidCheckDigit('800101500908')).toBe(false);
+    expect(hasValidCheckDigit('80010150090870')).toBe(false);
+    expect(hasValidCheckDigit('800101500908A')).toBe(false);
+  });
+});
+
+describe('extractBirthDate', () => {
+  it('reads the encoded date', () => {
+    expect(extractBirthDate(MALE_CITIZEN_ID)).toBe('1980-01-01');
+    expect(extractBirthDate('9912315009081')).toBe('1999-12-31');
+  });
+
+  it('places years up to the current year in this century', () => {
+    expect(extractBirthDate('2501015009082')).toBe('2025-01-01');
+    expect(extractBirthDate('0002295009084')).toBe('2000-02-29');
+  });
+
+  it('rolls years after the current year back to the previous century', () => {
+    expect(extractBirthDate('2601015009087')).toBe('1926-01-01');
+  });
+
+  it('returns null for a date later this year', () => {
+    expect(extractBirthDate('2512315009086')).toBeNull();
+  });
+
+  it('returns null for impossible dates', () => {
+    expect(extractBirthDate('8002305009084')).toBeNull();
+    expect(extractBirthDate('0102295009087')).toBeNull();
+    expect(extractBirthDate('8013015009080')).toBeNull();
+    expect(extractBirthDate('8000015009080')).toBeNull();
+    expect(extractBirthDate('8001325009080')).toBeNull();
+  });
+
+  it('returns null when the number is not 13 digits', () => {
+    expect(extractBirthDate('800101')).toBeNull();
+  });
+});
+
+describe('extractGender', () => {
+  it('reads 5000-9999 as male and 0000-4999 as female', () => {
+    expect(extractGender(MALE_CITIZEN_ID)).toBe('male');
+    expect(extractGender('8001019999087')).toBe('male');
+    expect(extractGender(FEMALE_CITIZEN_ID)).toBe('female');
+    expect(extractGender('8001014999087')).toBe('female');
+    expect(extractGender('8001010000087')).toBe('female');
+  });
+
+  it('returns null when the number is not 13 digits', () => {
+    expect(extractGender('80010150')).toBeNull();
+  });
+});
+
+describe('extractCitizenship', () => {
+  it('reads the citizenship digit', () => {
+    expect(extractCitizenship(MALE_CITIZEN_ID)).toBe('citizen');
+    expect(extractCitizenship(PERMANENT_RESIDENT_ID)).toBe('permanent_resident');
+    expect(extractCitizenship(REFUGEE_ID)).toBe('refugee');
+  });
+
+  it('returns null for any other digit', () => {
+    expect(extractCitizenship('8001015009384')).toBeNull();
+    expect(extractCitizenship('8001015009988')).toBeNull();
+  });
+
+  it('returns null when the number is not 13 digits', () => {
+    expect(extractCitizenship('8001015')).toBeNull();
+  });
+});
+
+describe('validateIdDocumentNumber', () => {
+  it('requires a number for every type', () => {
+    [TRN, RSA_ID, FOREIGN_ID, PASSPORT].forEach(type => {
+      expect(validateIdDocumentNumber(type, '')).toMatch(/V00013/);
+      expect(validateIdDocumentNumber(type, '   ')).toMatch(/V00013/);
+    });
+  });
+
+  it('does not apply format rules to unknown types', () => {
+    expect(validateIdDocumentNumber('97', 'anything')).toBeNull();
+  });
+
+  describe('TRN', () => {
+    it('accepts 13 digits with a valid check digit', () => {
+      expect(validateIdDocumentNumber(TRN, '1234567890128')).toBeNull();
+    });
+
+    it('rejects non-numeric input', () => {
+      expect(validateIdDocumentNumber(TRN, '12345678901AB')).toMatch(/V00017/);
+    });
+
+    it('rejects the wrong length', () => {
+      expect(validateIdDocumentNumber(TRN, '123456789012')).toMatch(/V00018/);
+      expect(validateIdDocumentNumber(TRN, '12345678901280')).toMatch(/V00018/);
+    });
+
+    it('rejects a wrong check digit', () => {
+      expect(validateIdDocumentNumber(TRN, '1234567890123')).toMatch(/V00019/);
+    });
+
+    it('does not require an encoded birth date', () => {
+      expect(validateIdDocumentNumber(TRN, '8002305009084')).toBeNull();
+    });
+  });
+
+  describe('RSA ID', () => {
+    it('accepts a valid RSA ID', () => {
+      expect(validateIdDocumentNumber(RSA_ID, MALE_CITIZEN_ID)).toBeNull();
+      expect(validateIdDocumentNumber(RSA_ID, REFUGEE_ID)).toBeNull();
+    });
+
+    it('applies the numeric, length and check digit rules', () => {
+      expect(validateIdDocumentNumber(RSA_ID, '800101500908X')).toMatch(/V00017/);
+      expect(validateIdDocumentNumber(RSA_ID, '800101500908')).toMatch(/V00018/);
+      expect(validateIdDocumentNumber(RSA_ID, '8001015009086')).toMatch(/V00019/);
+    });
+
+    it('rejects an impossible or future birth date', () => {
+      expect(validateIdDocumentNumber(RSA_ID, '8002305009084')).toMatch(/V00065/);
+      expect(validateIdDocumentNumber(RSA_ID, '2512315009086')).toMatch(/V00065/);
+    });
+
+    it('rejects an unknown citizenship digit', () => {
+      expect(validateIdDocumentNumber(RSA_ID, '8001015009384')).toMatch(/citizenship/);
+    });
+
+    it('ignores surrounding whitespace', () => {
+      expect(validateIdDocumentNumber(RSA_ID, ` ${MALE_CITIZEN_ID} `)).toBeNull();
+    });
+  });
+
+  describe('Foreign ID', () => {
+    it('accepts 4 to 20 letters, digits and hyphens', () => {
+      expect(validateIdDocumentNumber(FOREIGN_ID, 'AB12')).toBeNull();
+      expect(validateIdDocumentNumber(FOREIGN_ID, 'ZW-1234-5678')).toBeNull();
+      expect(validateIdDocumentNumber(FOREIGN_ID, 'A'.repeat(20))).toBeNull();
+    });
+
+    it('rejects fewer than 4 or more than 20 characters', () => {
+      expect(validateIdDocumentNumber(FOREIGN_ID, 'AB1')).toMatch(/4-20/);
+      expect(validateIdDocumentNumber(FOREIGN_ID, 'A'.repeat(21))).toMatch(/4-20/);
+    });
+
+    it('rejects other characters', () => {
+      expect(validateIdDocumentNumber(FOREIGN_ID, 'AB 1234')).toMatch(/4-20/);
+      expect(validateIdDocumentNumber(FOREIGN_ID, 'AB/1234')).toMatch(/4-20/);
+    });
+  });
+
+  describe('Passport', () => {
+    it('accepts 6 to 12 letters and digits', () => {
+      expect(validateIdDocumentNumber(PASSPORT, 'A12345')).toBeNull();
+      expect(validateIdDocumentNumber(PASSPORT, 'AB1234567890')).toBeNull();
+    });
+
+    it('ignores spaces inside the number', () => {
+      expect(validateIdDocumentNumber(PASSPORT, 'A12 345 678')).toBeNull();
+    });
+
+    it('rejects fewer than 6 or more than 12 characters', () => {
+      expect(validateIdDocumentNumber(PASSPORT, 'A1234')).toMatch(/6-12/);
+      expect(validateIdDocumentNumber(PASSPORT, 'AB12345678901')).toMatch(/6-12/);
+    });
+
+    it('rejects punctuation', () => {
+      expect(validateIdDocumentNumber(PASSPORT, 'A-12345')).toMatch(/6-12/);
+    });
+
+    it('validates the legacy passport code as a passport', () => {
+      expect(getIdDocumentType('04')?.value).toBe(PASSPORT);
+      expect(validateIdDocumentNumber('04', 'A1234')).toMatch(/6-12/);
+    });
+  });
+});
+
+describe('parseRSAId', () => {
+  it('returns the encoded details of a valid RSA ID', () => {
+    expect(parseRSAId(MALE_CITIZEN_ID)).toEqual({
+      birthDate: '1980-01-01',
+      gender: 'male',
+      citizenship: 'citizen',
+    });
+    expect(parseRSAId(FEMALE_CITIZEN_ID)).toEqual({
+      birthDate: '1980-01-01',
+      gender: 'female',
+      citizenship: 'citizen',
+    });
+    expect(parseRSAId(PERMANENT_RESIDENT_ID)?.citizenship).toBe('permanent_resident');
+  });
+
+  it('returns null when any RSA ID rule fails', () => {
+    expect(parseRSAId('')).toBeNull();
+    expect(parseRSAId('8001015009086')).toBeNull();
+    expect(parseRSAId('8002305009084')).toBeNull();
+    expect(parseRSAId('8001015009384')).toBeNull();
+  });
+});
+
+describe('findRSAIdConflicts', () => {
+  it('finds no conflicts when the details match', () => {
+    expect(findRSAIdConflicts({
+      rsaId: MALE_CITIZEN_ID,
+      birthDate: '1980-01-01',
+      personNature: '01',
+      nationalityCode: 'ZA',
+    })).toEqual([]);
+  });
+
+  it('does not compare blank fields', () => {
+    expect(findRSAIdConflicts({ rsaId: MALE_CITIZEN_ID })).toEqual([]);
+  });
+
+  it('finds no conflicts for an invalid RSA ID', () => {
+    expect(findRSAIdConflicts({
+      rsaId: '8001015009086',
+      birthDate: '1990-05-05',
+      personNature: '02',
+      nationalityCode: 'GB',
+    })).toEqual([]);
+  });
+
+  it('reports a different birth date', () => {
+    const conflicts = findRSAIdConflicts({ rsaId: MALE_CITIZEN_ID, birthDate: '1980-01-02' });
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].field).toBe('birth_date');
+    expect(conflicts[0].message).toMatch(/V00065/);
+  });
+
+  it('reports a natural person nature that contradicts the gender', () => {
+    expect(findRSAIdConflicts({ rsaId: MALE_CITIZEN_ID, personNature: '02' })[0].field).toBe('person_nature');
+    expect(findRSAIdConflicts({ rsaId: FEMALE_CITIZEN_ID, personNature: '01' })[0].message).toMatch(/V00034/);
+    expect(findRSAIdConflicts({ rsaId: FEMALE_CITIZEN_ID, personNature: '02' })).toEqual([]);
+  });
+
+  it('does not compare organisation natures', () => {
+    expect(findRSAIdConflicts({ rsaId: MALE_CITIZEN_ID, personNature: '03' })).toEqual([]);
+  });
+
+  it('requires South African nationality for a citizen', () => {
+    const conflicts = findRSAIdConflicts({ rsaId: MALE_CITIZEN_ID, nationalityCode: 'GB' });
+    expect(conflicts.map(conflict => conflict.field)).toEqual(['nationality_code']);
+  });
+
+  it('rejects South African nationality for permanent residents and refugees', () => {
+    expect(findRSAIdConflicts({ rsaId: PERMANENT_RESIDENT_ID, nationalityCode: 'ZA' })[0].message)
+      .toMatch(/permanent resident/);
+    expect(findRSAIdConflicts({ rsaId: REFUGEE_ID, nationalityCode: 'ZA' })[0].message).toMatch(/refugee/);
+    expect(findRSAIdConflicts({ rsaId: REFUGEE_ID, nationalityCode: 'ZW' })).toEqual([]);
+  });
+
+  it('reports every conflict at once', () => {
+    const conflicts = findRSAIdConflicts({
+      rsaId: MALE_CITIZEN_ID,
+      birthDate: '1981-01-01',
+      personNature: '02',
+      nationalityCode: 'US',
+    });
+    expect(conflicts.map(conflict => conflict.field)).toEqual(['birth_date', 'person_nature', 'nationality_code']);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Identity Documents
+ * Single source of truth for ID document type codes, number formats, the
+ * check digit shared by 13-digit numbers, and the data encoded in an RSA ID
+ * number. Person registration, person search and user administration all
+ * validate through this module.
+ *
+ * RSA ID number layout (YYMMDD SSSS C A Z):
+ * - digits 1-6: date of birth
+ * - digits 7-10: gender sequence (0000-4999 female, 5000-9999 male)
+ * - digit 11: citizenship (0 citizen, 1 permanent resident, 2 refugee)
+ * - digit 12: historical race digit, no longer used
+ * - digit 13: Luhn check digit
+ */
+
+export const ID_DOCUMENT_TYPE_CODES = {
+  TRN: '01',
+  RSA_ID: '02',
+  FOREIGN_ID: '03',
+  PASSPORT: '05',
+} as const;
+
+export interface IdentityDocumentType {
+  value: string;
+  label: string;
+  shortLabel: string;
+  format: 'numeric' | 'alphanumeric';
+  length: number | 'variable';
+  requiresExpiry: boolean;
+}
+
+export const ID_DOCUMENT_TYPES: IdentityDocumentType[] = [
+  { value: ID_DOCUMENT_TYPE_CODES.TRN, label: 'TRN (Traffic Register Number)', shortLabel: 'TRN', format: 'numeric', length: 13, requiresExpiry: false },
+  { value: ID_DOCUMENT_TYPE_CODES.RSA_ID, label: 'RSA ID (South African ID Document)', shortLabel: 'RSA ID', format: 'numeric', length: 13, requiresExpiry: false },
+  { value: ID_DOCUMENT_TYPE_CODES.FOREIGN_ID, label: 'Foreign ID (Foreign ID Document)', shortLabel: 'Foreign ID', format: 'alphanumeric', length: 'variable', requiresExpiry: true },
+  { value: ID_DOCUMENT_TYPE_CODES.PASSPORT, label: 'Passport Number', shortLabel: 'Passport', format: 'alphanumeric', length: 'variable', requiresExpiry: true },
+];
+
+/**
+ * User records saved before the codes were aligned with person records store
+ * a passport as '04'. Read it as a passport; the user form saves it back as
+ * '05'.
+ */
+export const LEGACY_PASSPORT_CODE = '04';
+
+export const normalizeIdDocumentTypeCode = (code?: string | null): string =>
+  code === LEGACY_PASSPORT_CODE ? ID_DOCUMENT_TYPE_CODES.PASSPORT : code || '';
+
+export const getIdDocumentType = (code?: string | null): IdentityDocumentType | undefined =>
+  ID_DOCUMENT_TYPES.find(type => type.value === normalizeIdDocumentTypeCode(code));
+
+export const getIdDocumentTypeLabel = (code: string, short: boolean = false): string => {
+  const type = getIdDocumentType(code);
+  if (!type) return code;
+  return short ? type.shortLabel : type.label;
+};
+
+const THIRTEEN_DIGITS = /^\d{13}$/;
+const PASSPORT_PATTERN = /^[A-Za-z0-9]{6,12}$/;
+const FOREIGN_ID_PATTERN = /^[A-Za-z0-9-]{4,20}$/;
+
+/**
+ * V00019: Luhn check digit used by RSA ID and TRN numbers
+ */
+export const hasValidCheckDigit = (idNumber: string): boolean => {
+  if (!idNumber || !THIRTEEN_DIGITS.test(idNumber)) return false;
+
+  const digits = idNumber.split('').map(Number);
+  let sum = 0;
+
+  for (let i = 0; i < 12; i++) {
+    if (i % 2 === 0) {
+      sum += digits[i];
+    } else {
+      const doubled = digits[i] * 2;
+      sum += doubled > 9 ? doubled - 9 : doubled;
+    }
+  }
+
+  const checkDigit = (10 - (sum % 10)) % 10;
+  return checkDigit === digits[12];
+};
+
+/**
+ * V00065: Birth date (YYYY-MM-DD) encoded in the first six digits. Two-digit
+ * years later than the current year belong to the previous century. Returns
+ * null for impossible or future dates.
+ */
+export const extractBirthDate = (rsaId: string): string | null => {
+  if (!THIRTEEN_DIGITS.test(rsaId)) return null;
+
+  const yy = parseInt(rsaId.substring(0, 2), 10);
+  const month = parseInt(rsaId.substring(2, 4), 10);
+  const day = parseInt(rsaId.substring(4, 6), 10);
+
+  const today = new Date();
+  const currentYear = today.getFullYear();
+  const century = Math.floor(currentYear / 100) * 100;
+  const year = century + yy > currentYear ? century - 100 + yy : century + yy;
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  if (date.getTime() > today.getTime()) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+export type RSAIdGender = 'male' | 'female';
+
+/**
+ * V00034: Gender from digits 7-10
+ */
+export const extractGender = (rsaId: string): RSAIdGender | null => {
+  if (!THIRTEEN_DIGITS.test(rsaId)) return null;
+  return parseInt(rsaId.substring(6, 10), 10) >= 5000 ? 'male' : 'female';
+};
+
+export type RSAIdCitizenship = 'citizen' | 'permanent_resident' | 'refugee';
+
+/**
+ * Citizenship from digit 11
+ */
+export const extractCitizenship = (rsaId: string): RSAIdCitizenship | null => {
+  if (!THIRTEEN_DIGITS.test(rsaId)) return null;
+  switch (rsaId.charAt(10)) {
+    case '0': return 'citizen';
+    case '1': return 'permanent_resident';
+    case '2': return 'refugee';
+    default: return null;
+  }
+};
+
+export interface RSAIdDetails {
+  birthDate: string;
+  gender: RSAIdGender;
+  citizenship: RSAIdCitizenship;
+}
+
+/**
+ * Everything encoded in a valid RSA ID number, or null when the number fails
+ * any RSA ID rule
+ */
+export const parseRSAId = (rsaId: string): RSAIdDetails | null => {
+  if (validateIdDocumentNumber(ID_DOCUMENT_TYPE_CODES.RSA_ID, rsaId)) return null;
+  return {
+    birthDate: extractBirthDate(rsaId)!,
+    gender: extractGender(rsaId)!,
+    citizenship: extractCitizenship(rsaId)!,
+  };
+};
+
+/** Male and female natural person nature codes */
+export const PERSON_NATURE_BY_GENDER: Record<RSAIdGender, string> = {
+  male: '01',
+  female: '02',
+};
+
+export const SOUTH_AFRICA_NATIONALITY = 'ZA';
+
+export type RSAIdConflictField = 'birth_date' | 'person_nature' | 'nationality_code';
+
+export interface RSAIdConflict {
+  field: RSAIdConflictField;
+  message: string;
+}
+
+export interface RSAIdConsistencyInput {
+  rsaId: string;
+  birthDate?: string;
+  personNature?: string;
+  nationalityCode?: string;
+}
+
+/**
+ * Compare the captured birth date, Male/Female person nature and nationality
+ * with what the RSA ID number encodes. Blank fields and organisation natures
+ * are not compared; an invalid ID number yields no conflicts.
+ */
+export const findRSAIdConflicts = ({
+  rsaId,
+  birthDate,
+  personNature,
+  nationalityCode,
+}: RSAIdConsistencyInput): RSAIdConflict[] => {
+  const details = parseRSAId(rsaId);
+  if (!details) return [];
+
+  const conflicts: RSAIdConflict[] = [];
+
+  if (birthDate && birthDate !== details.birthDate) {
+    conflicts.push({
+      field: 'birth_date',
+      message: `Date of birth ${birthDate} does not match ${details.birthDate} in the RSA ID (V00065)`,
+    });
+  }
+
+  const expectedNature = PERSON_NATURE_BY_GENDER[details.gender];
+  if (personNature && Object.values(PERSON_NATURE_BY_GENDER).includes(personNature) && personNature !== expectedNature) {
+    conflicts.push({
+      field: 'person_nature',
+      message: `Person nature does not match the ${details.gender} gender in the RSA ID (V00034)`,
+    });
+  }
+
+  if (nationalityCode) {
+    const isCitizen = details.citizenship === 'citizen';
+    if (isCitizen && nationalityCode !== SOUTH_AFRICA_NATIONALITY) {
+      conflicts.push({
+        field: 'nationality_code',
+        message: 'The RSA ID belongs to a South African citizen but the nationality is not South African',
+      });
+    } else if (!isCitizen && nationalityCode === SOUTH_AFRICA_NATIONALITY) {
+      conflicts.push({
+        field: 'nationality_code',
+        message: `The RSA ID belongs to a ${details.citizenship === 'refugee' ? 'refugee' : 'permanent resident'}, not a South African citizen`,
+      });
+    }
+  }
+
+  return conflicts;
+};
+
+/**
+ * Validate a document number against the rules of its type. Returns the error
+ * message, or null when the number is valid.
+ *
+ * - TRN: 13 digits with a valid check digit
+ * - RSA ID: as above, plus an encoded birth date that is a real, past date
+ *   and a known citizenship digit
+ * - Passport: 6-12 letters and digits
+ * - Foreign ID: 4-20 letters, digits and hyphens
+ */
+export const validateIdDocumentNumber = (typeCode: string, idNumber: string): string | null => {
+  const type = getIdDocumentType(typeCode);
+  const value = (idNumber || '').trim();
+
+  if (!value) {
+    return 'Identification number is mandatory (V00013)';
+  }
+  if (!type) {
+    return null;
+  }
+
+  if (type.format === 'numeric') {
+    if (!/^\d+$/.test(value)) {
+      return `${type.shortLabel} must be numeric only (V00017)`;
+    }
+    if (value.length !== 13) {
+      return `${type.shortLabel} must be exactly 13 digits (V00018)`;
+    }
+    if (!hasValidCheckDigit(value)) {
+      return `Invalid ${type.shortLabel} check digit (V00019)`;
+    }
+    if (type.value === ID_DOCUMENT_TYPE_CODES.RSA_ID) {
+      if (!extractBirthDate(value)) {
+        return 'RSA ID does not contain a valid date of birth (V00065)';
+      }
+      if (!extractCitizenship(value)) {
+        return 'RSA ID citizenship digit must be 0, 1 or 2';
+      }
+    }
+    return null;
+  }
+
+  if (type.value === ID_DOCUMENT_TYPE_CODES.PASSPORT && !PASSPORT_PATTERN.test(value.replace(/\s/g, ''))) {
+    return 'Passport number must be 6-12 letters and digits';
+  }
+  if (type.value === ID_DOCUMENT_TYPE_CODES.FOREIGN_ID && !FOREIGN_ID_PATTERN.test(value)) {
+    return 'Foreign ID must be 4-20 letters, digits or hyphens';
+  }
+  return null;
+};
+
+export const isValidIdDocumentNumber = (typeCode: string, idNumber: string): boolean =>
+  validateIdDocumentNumber(typeCode, idNumber) === null;
+
+/**
+ * Restrict input as the user types: numeric types keep digits only (max 13),
+ * other types are left as typed
+ */
+export const formatIdDocumentInput = (typeCode: string, value: string): string => {
+  const type = getIdDocumentType(typeCode);
+  if (type?.format === 'numeric') {
+    return value.replace(/[^0-9]/g, '').substring(0, 13);
+  }
+  return value;
+};
@@ -4,6 +4,7 @@
  */
 
 import { api, API_ENDPOINTS } from './api';
+import { DEFAULT_VALIDATION_RULES, ValidationRule, mergeValidationRules } from './validation';
 
 // Types for lookup data
 export interface Province {
@@ -43,6 +44,23 @@ export interface ProvinceValidationResponse {
   error_message?: string;
 }
 
+/**
+ * Suburb with the city, postal code and province it belongs to
+ */
+export interface AddressLocality {
+  suburb: string;
+  city: string;
+  postal_code: string;
+  province_code: string;
+}
+
+export interface LocalitySearchRequest {
+  /** Partial suburb or city name */
+  query?: string;
+  postal_code?: string;
+  province_code?: string;
+}
+
 /**
  * Lookup Service Class
  */
@@ -195,6 +213,55 @@ class LookupService {
     }
   }
 
+  /**
+   * Search suburbs by name or postal code, optionally within a province.
+   * Results are cached per search so typing back and forth stays local.
+   */
+  public async searchLocalities(request: LocalitySearchRequest): Promise<AddressLocality[]> {
+    const params = new URLSearchParams();
+    if (request.query) params.set('q', request.query.trim().toLowerCase());
+    if (request.postal_code) params.set('postal_code', request.postal_code);
+    if (request.province_code) params.set('province_code', request.province_code);
+
+    const cacheKey = `localities:${params.toString()}`;
+    if (this.isCacheValid(cacheKey)) {
+      return this.cache.get(cacheKey);
+    }
+
+    try {
+      const localities = await api.get<AddressLocality[]>(`${API_ENDPOINTS.addressLocalities}?${params.toString()}`);
+      this.setCache(cacheKey, localities);
+      return localities;
+    } catch (error) {
+      console.error('Failed to fetch address localities:', error);
+      // No suggestions; the address can still be captured by hand
+      return [];
+    }
+  }
+
+  /**
+   * Get the validation rule catalogue (field patterns, lengths, messages and
+   * V-codes), overlaid on the built-in defaults
+   */
+  public async getValidationRules(): Promise<ValidationRule[]> {
+    const cacheKey = 'validation_rules';
+
+    if (this.isCacheValid(cacheKey)) {
+      return this.cache.get(cacheKey);
+    }
+
+    try {
+      const served = await api.get<ValidationRule[]>(API_ENDPOINTS.validationRules);
+      const rules = mergeValidationRules(DEFAULT_VALIDATION_RULES, served);
+      this.setCache(cacheKey, rules);
+      return rules;
+    } catch (error) {
+      console.error('Failed to fetch validation rules:', error);
+      // Fall back to the built-in rules; the backend still validates on save
+      return DEFAULT_VALIDATION_RULES;
+    }
+  }
+
   /**
    * Clear cache
    */
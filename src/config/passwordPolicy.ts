@@ -0,0 +1,144 @@
+/**
+ * Password Policy Utilities for LINC Frontend
+ * Client-side checks mirroring the backend password policy, plus a strength estimate
+ *
+ * The backend remains authoritative (including password history, which can
+ * only be checked server-side); these rules give immediate feedback.
+ */
+
+import * as yup from 'yup';
+import { PasswordPolicy } from '../types/auth';
+
+/**
+ * Used until the backend policy has loaded, or if it cannot be fetched
+ */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  min_length: 8,
+  max_length: 128,
+  require_uppercase: true,
+  require_lowercase: true,
+  require_digit: true,
+  require_special: false,
+  disallow_username: true,
+  history_count: 5,
+};
+
+export interface PasswordRuleResult {
+  id: string;
+  label: string;
+  passed: boolean;
+}
+
+export interface PasswordStrength {
+  /** 0 (very weak) to 4 (strong) */
+  score: number;
+  label: string;
+  color: 'error' | 'warning' | 'info' | 'success';
+}
+
+const SPECIAL_CHARACTER = /[^A-Za-z0-9]/;
+
+/**
+ * Evaluate a password against each rule of the policy
+ */
+export const checkPasswordPolicy = (
+  password: string,
+  policy: PasswordPolicy,
+  username?: string
+): PasswordRuleResult[] => {
+  const rules: PasswordRuleResult[] = [
+    {
+      id: 'length',
+      label: `Between ${policy.min_length} and ${policy.max_length} characters`,
+      passed: password.length >= policy.min_length && password.length <= policy.max_length,
+    },
+  ];
+
+  if (policy.require_uppercase) {
+    rules.push({ id: 'uppercase', label: 'An uppercase letter', passed: /[A-Z]/.test(password) });
+  }
+  if (policy.require_lowercase) {
+    rules.push({ id: 'lowercase', label: 'A lowercase letter', passed: /[a-z]/.test(password) });
+  }
+  if (policy.require_digit) {
+    rules.push({ id: 'digit', label: 'A number', passed: /\d/.test(password) });
+  }
+  if (policy.require_special) {
+    rules.push({ id: 'special', label: 'A special character (e.g. ! @ # $)', passed: SPECIAL_CHARACTER.test(password) });
+  }
+  if (policy.disallow_username && username) {
+    rules.push({
+      id: 'username',
+      label: 'Does not contain the username',
+      passed: !password.toLowerCase().includes(username.toLowerCase()),
+    });
+  }
+
+  return rules;
+};
+
+/**
+ * Message for the first policy rule the password fails, or null if it passes
+ */
+export const getPasswordPolicyError = (
+  password: string,
+  policy: PasswordPolicy,
+  username?: string
+): string | null => {
+  const failed = checkPasswordPolicy(password, policy, username).find(rule => !rule.passed);
+  return failed ? `Password requirement not met: ${failed.label}` : null;
+};
+
+/**
+ * Hint shown next to the password field about reuse of old passwords
+ */
+export const getPasswordHistoryHint = (policy: PasswordPolicy): string | null =>
+  policy.history_count > 0
+    ? `You cannot reuse any of your last ${policy.history_count} passwords.`
+    : null;
+
+/**
+ * Rough strength estimate based on length and character variety
+ */
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  if (!password) {
+    return { score: 0, label: 'Too short', color: 'error' };
+  }
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, SPECIAL_CHARACTER].filter(pattern => pattern.test(password)).length;
+  let score = 0;
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (classes >= 3) score++;
+  if (classes === 4 || password.length >= 16) score++;
+  // Penalise repeated characters and simple sequences
+  if (/(.)\1{2,}/.test(password) || /(0123|1234|2345|3456|4567|5678|6789|abcd|qwer|password)/i.test(password)) {
+    score = Math.max(0, score - 1);
+  }
+
+  const levels: PasswordStrength[] = [
+    { score: 0, label: 'Very weak', color: 'error' },
+    { score: 1, label: 'Weak', color: 'error' },
+    { score: 2, label: 'Fair', color: 'warning' },
+    { score: 3, label: 'Good', color: 'info' },
+    { score: 4, label: 'Strong', color: 'success' },
+  ];
+  return levels[score];
+};
+
+/**
+ * Yup schema for a new password. The username comes either from a fixed value
+ * (e.g. the signed-in user) or from a sibling form field.
+ */
+export const createPasswordSchema = (
+  policy: PasswordPolicy,
+  options: { username?: string; usernameField?: string } = {}
+) =>
+  yup
+    .string()
+    .required('Password is required')
+    .test('password-policy', '', function (value) {
+      const username = options.username ?? (options.usernameField ? this.parent?.[options.usernameField] : undefined);
+      const error = getPasswordPolicyError(value || '', policy, username);
+      return error ? this.createError({ message: error }) : true;
+    });
@@ -0,0 +1,186 @@
+/**
+ * Permission Registry for LINC Frontend
+ * Single typed list of the permission and role strings issued by the backend
+ *
+ * Always reference PERMISSIONS / ROLES rather than string literals so that a
+ * typo fails type-checking instead of silently denying access.
+ */
+
+export const PERMISSIONS = {
+  // Person management
+  PERSON_READ: 'person:read',
+  PERSON_CREATE: 'person:create',
+  PERSON_UPDATE: 'person:update',
+  PERSON_DELETE: 'person:delete',
+  PERSON_MERGE: 'person:merge',
+  PERSON_VALIDATION_OVERRIDE: 'person:validation_override',
+
+  // User management
+  USER_MANAGEMENT_READ: 'user_management_read',
+  USER_MANAGEMENT_CREATE: 'user_management_create',
+  USER_MANAGEMENT_UPDATE: 'user_management_update',
+  USER_MANAGEMENT_DELETE: 'user_management_delete',
+
+  // User groups
+  USER_GROUP_READ: 'user_group_read',
+  USER_GROUP_CREATE: 'user_group_create',
+  USER_GROUP_UPDATE: 'user_group_update',
+  USER_GROUP_DELETE: 'user_group_delete',
+
+  // Locations
+  LOCATION_READ: 'location_read',
+  LOCATION_CREATE: 'location_create',
+  LOCATION_UPDATE: 'location_update',
+  LOCATION_DELETE: 'location_delete',
+
+  // Staff assignments
+  ASSIGNMENT_READ: 'assignment_read',
+  ASSIGNMENT_CREATE: 'assignment_create',
+  ASSIGNMENT_UPDATE: 'assignment_update',
+  ASSIGNMENT_DELETE: 'assignment_delete',
+
+  // Roles and privileges
+  ROLE_READ: 'role_read',
+  ROLE_CREATE: 'role_create',
+  ROLE_UPDATE: 'role_update',
+  ROLE_DELETE: 'role_delete',
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+export const ROLES = {
+  ADMIN: 'admin',
+} as const;
+
+export type Role = typeof ROLES[keyof typeof ROLES];
+
+export type PermissionAction = 'read' | 'create' | 'update' | 'delete';
+
+export interface PermissionGroup {
+  key: string;
+  label: string;
+  actions: Partial<Record<PermissionAction, Permission>>;
+  /** Special actions beyond read/create/update/delete */
+  specialActions?: { label: string; permission: Permission }[];
+}
+
+/**
+ * Permissions grouped by resource, as shown in the role permission matrix
+ */
+export const PERMISSION_GROUPS: PermissionGroup[] = [
+  {
+    key: 'person',
+    label: 'Persons',
+    actions: {
+      read: PERMISSIONS.PERSON_READ,
+      create: PERMISSIONS.PERSON_CREATE,
+      update: PERMISSIONS.PERSON_UPDATE,
+      delete: PERMISSIONS.PERSON_DELETE,
+    },
+    specialActions: [
+      { label: 'Merge duplicates', permission: PERMISSIONS.PERSON_MERGE },
+      { label: 'Override RSA ID checks', permission: PERMISSIONS.PERSON_VALIDATION_OVERRIDE },
+    ],
+  },
+  {
+    key: 'user_management',
+    label: 'User Management',
+    actions: {
+      read: PERMISSIONS.USER_MANAGEMENT_READ,
+      create: PERMISSIONS.USER_MANAGEMENT_CREATE,
+      update: PERMISSIONS.USER_MANAGEMENT_UPDATE,
+      delete: PERMISSIONS.USER_MANAGEMENT_DELETE,
+    },
+  },
+  {
+    key: 'user_group',
+    label: 'User Groups',
+    actions: {
+      read: PERMISSIONS.USER_GROUP_READ,
+      create: PERMISSIONS.USER_GROUP_CREATE,
+      update: PERMISSIONS.USER_GROUP_UPDATE,
+      delete: PERMISSIONS.USER_GROUP_DELETE,
+    },
+  },
+  {
+    key: 'location',
+    label: 'Locations',
+    actions: {
+      read: PERMISSIONS.LOCATION_READ,
+      create: PERMISSIONS.LOCATION_CREATE,
+      update: PERMISSIONS.LOCATION_UPDATE,
+      delete: PERMISSIONS.LOCATION_DELETE,
+    },
+  },
+  {
+    key: 'assignment',
+    label: 'Staff Assignments',
+    actions: {
+      read: PERMISSIONS.ASSIGNMENT_READ,
+      create: PERMISSIONS.ASSIGNMENT_CREATE,
+      update: PERMISSIONS.ASSIGNMENT_UPDATE,
+      delete: PERMISSIONS.ASSIGNMENT_DELETE,
+    },
+  },
+  {
+    key: 'role',
+    label: 'Roles & Privileges',
+    actions: {
+      read: PERMISSIONS.ROLE_READ,
+      create: PERMISSIONS.ROLE_CREATE,
+      update: PERMISSIONS.ROLE_UPDATE,
+      delete: PERMISSIONS.ROLE_DELETE,
+    },
+  },
+];
+
+/**
+ * A single permission, or a combination that must be satisfied:
+ * - anyOf: at least one of the permissions
+ * - allOf: every permission
+ */
+export type PermissionRequirement =
+  | Permission
+  | { anyOf: Permission[] }
+  | { allOf: Permission[] };
+
+/**
+ * Evaluate a requirement using a single-permission check
+ */
+export const satisfiesPermissionRequirement = (
+  requirement: PermissionRequirement,
+  hasPermission: (permission: Permission) => boolean
+): boolean => {
+  if (typeof requirement === 'string') {
+    return hasPermission(requirement);
+  }
+  if ('anyOf' in requirement) {
+    return requirement.anyOf.some(hasPermission);
+  }
+  return requirement.allOf.every(hasPermission);
+};
+
+/**
+ * Human-readable description of a requirement (for access-denied messages)
+ */
+export const describePermissionRequirement = (requirement: PermissionRequirement): string => {
+  if (typeof requirement === 'string') {
+    return requirement;
+  }
+  if ('anyOf' in requirement) {
+    return `any of ${requirement.anyOf.join(', ')}`;
+  }
+  return `all of ${requirement.allOf.join(', ')}`;
+};
+
+/**
+ * Permissions a role change would newly grant that the granting user does
+ * not hold. Users may only hand out permissions they have themselves;
+ * permissions already on the role are left alone.
+ */
+export const findUngrantablePermissions = (
+  requested: string[],
+  existing: string[],
+  holdsPermission: (permission: string) => boolean
+): string[] =>
+  requested.filter(permission => !existing.includes(permission) && !holdsPermission(permission));
@@ -0,0 +1,78 @@
+/**
+ * Person Merge Rules
+ * Fields an operator picks a surviving value for when two records of the
+ * same person are combined, and how ID documents and addresses are merged
+ */
+
+import { Person, PersonAlias, PersonAddress } from '../types/person';
+
+/** Scalar details held by both a stored person and the registration form */
+export type PersonDetails = Partial<
+  Pick<
+    Person,
+    | 'business_or_surname'
+    | 'initials'
+    | 'person_nature'
+    | 'nationality_code'
+    | 'preferred_language'
+    | 'email_address'
+    | 'home_phone'
+    | 'work_phone'
+    | 'cell_phone_country_code'
+    | 'cell_phone'
+    | 'fax_phone'
+    | 'natural_person'
+  >
+>;
+
+export interface MergeField {
+  key: string;
+  label: string;
+  get: (person: PersonDetails) => string | undefined;
+}
+
+// Fields the operator chooses a surviving value for
+export const MERGE_FIELDS: MergeField[] = [
+  { key: 'business_or_surname', label: 'Surname / Business Name', get: p => p.business_or_surname },
+  { key: 'initials', label: 'Initials', get: p => p.initials },
+  { key: 'full_name_1', label: 'First Name', get: p => p.natural_person?.full_name_1 },
+  { key: 'full_name_2', label: 'Second Name', get: p => p.natural_person?.full_name_2 },
+  { key: 'full_name_3', label: 'Third Name', get: p => p.natural_person?.full_name_3 },
+  { key: 'birth_date', label: 'Birth Date', get: p => p.natural_person?.birth_date },
+  { key: 'person_nature', label: 'Person Nature', get: p => p.person_nature },
+  { key: 'nationality_code', label: 'Nationality', get: p => p.nationality_code },
+  { key: 'preferred_language', label: 'Preferred Language', get: p => p.preferred_language },
+  { key: 'email_address', label: 'Email', get: p => p.email_address },
+  { key: 'home_phone', label: 'Home Phone', get: p => p.home_phone },
+  { key: 'work_phone', label: 'Work Phone', get: p => p.work_phone },
+  { key: 'cell_phone_country_code', label: 'Cell Phone Code', get: p => p.cell_phone_country_code },
+  { key: 'cell_phone', label: 'Cell Phone', get: p => p.cell_phone },
+  { key: 'fax_phone', label: 'Fax', get: p => p.fax_phone },
+];
+
+export const NATURAL_PERSON_FIELDS = ['full_name_1', 'full_name_2', 'full_name_3', 'birth_date'];
+
+export const aliasKey = (alias: Pick<PersonAlias, 'id_document_type_code' | 'id_document_number'>) =>
+  `${alias.id_document_type_code}:${alias.id_document_number.trim().toUpperCase()}`;
+
+export const addressKey = (address: Pick<PersonAddress, 'address_type' | 'address_line_1' | 'postal_code'>) =>
+  [address.address_type, address.address_line_1, address.postal_code]
+    .map(part => (part || '').trim().toLowerCase())
+    .join('|');
+
+/**
+ * Surviving record's entries first, then entries from the merged record that
+ * it does not already have. Only the survivor keeps current/primary flags.
+ */
+export const combineEntries = <T>(
+  surviving: T[],
+  merged: T[],
+  keyOf: (entry: T) => string,
+  demote: (entry: T) => T
+): T[] => {
+  const seen = new Set(surviving.map(keyOf));
+  return [
+    ...surviving,
+    ...merged.filter(entry => !seen.has(keyOf(entry))).map(demote),
+  ];
+};
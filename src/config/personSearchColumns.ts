@@ -0,0 +1,62 @@
+/**
+ * Person Search Result Columns
+ * Optional result columns and row density, remembered per user in this
+ * browser. Kept apart from user_preferences, which is cleared on logout.
+ */
+
+export type PersonSearchColumn =
+  | 'nature'
+  | 'identification'
+  | 'contact'
+  | 'address'
+  | 'nationality'
+  | 'created'
+  | 'status';
+
+/** Person details and actions are always shown; these can be toggled */
+export const PERSON_SEARCH_COLUMNS: { key: PersonSearchColumn; label: string }[] = [
+  { key: 'nature', label: 'Type' },
+  { key: 'identification', label: 'Identification' },
+  { key: 'contact', label: 'Contact' },
+  { key: 'address', label: 'Address' },
+  { key: 'nationality', label: 'Nationality' },
+  { key: 'created', label: 'Created' },
+  { key: 'status', label: 'Status' },
+];
+
+export type TableDensity = 'comfortable' | 'compact';
+
+export interface PersonSearchTablePreferences {
+  columns: PersonSearchColumn[];
+  density: TableDensity;
+}
+
+export const DEFAULT_TABLE_PREFERENCES: PersonSearchTablePreferences = {
+  columns: ['nature', 'identification', 'contact', 'address', 'status'],
+  density: 'comfortable',
+};
+
+const tablePreferencesKey = (userId: string) => `person_search_table:${userId}`;
+
+export const getTablePreferences = (userId?: string): PersonSearchTablePreferences => {
+  if (!userId) return DEFAULT_TABLE_PREFERENCES;
+  try {
+    const stored = JSON.parse(localStorage.getItem(tablePreferencesKey(userId)) || 'null');
+    if (!stored) return DEFAULT_TABLE_PREFERENCES;
+
+    // Drop columns that no longer exist
+    const known = PERSON_SEARCH_COLUMNS.map(column => column.key);
+    return {
+      columns: Array.isArray(stored.columns)
+        ? stored.columns.filter((column: PersonSearchColumn) => known.includes(column))
+        : DEFAULT_TABLE_PREFERENCES.columns,
+      density: stored.density === 'compact' ? 'compact' : 'comfortable',
+    };
+  } catch {
+    return DEFAULT_TABLE_PREFERENCES;
+  }
+};
+
+export const saveTablePreferences = (userId: string, preferences: PersonSearchTablePreferences): void => {
+  localStorage.setItem(tablePreferencesKey(userId), JSON.stringify(preferences));
+};
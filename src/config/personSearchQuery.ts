@@ -0,0 +1,184 @@
+/**
+ * Person Search URL State
+ * Search criteria, sorting and paging live in the query string so a search
+ * can be bookmarked or sent to a colleague and the back button restores the
+ * previous result page. The signed-in user's recent searches are kept for
+ * the browser session (sessionStorage is cleared on logout).
+ */
+
+import { PersonSearchCriteria, PersonSearchSortField, SortOrder } from '../types/person';
+
+export const DEFAULT_ROWS_PER_PAGE = 25;
+
+/** Page sizes offered by the result table; the URL cannot ask for others */
+export const ROWS_PER_PAGE_OPTIONS = [10, 25, 50, 100];
+
+const RECENT_SEARCHES_LIMIT = 10;
+
+type TextCriteriaField = Exclude<keyof PersonSearchCriteria, 'is_active' | 'documents_expiring_within_days'>;
+
+const TEXT_FIELDS: TextCriteriaField[] = [
+  'search_text',
+  'id_document_number',
+  'business_or_surname',
+  'first_name',
+  'person_nature',
+  'nationality_code',
+  'email_address',
+  'cell_phone',
+  'province_code',
+  'city',
+  'created_date_from',
+  'created_date_to',
+];
+
+const CRITERIA_LABELS: Record<TextCriteriaField, string> = {
+  search_text: 'Text',
+  id_document_number: 'ID',
+  business_or_surname: 'Surname',
+  first_name: 'First name',
+  person_nature: 'Nature',
+  nationality_code: 'Nationality',
+  email_address: 'Email',
+  cell_phone: 'Cell',
+  province_code: 'Province',
+  city: 'City',
+  created_date_from: 'Created from',
+  created_date_to: 'Created to',
+};
+
+const SORT_FIELDS: PersonSearchSortField[] = ['business_or_surname', 'created_at', 'nationality_code'];
+
+/**
+ * Largest offered page size not above the requested one, so a hand-edited
+ * URL cannot ask for an unbounded page
+ */
+const toRowsPerPage = (requested: number): number => {
+  if (!requested) return DEFAULT_ROWS_PER_PAGE;
+  const allowed = ROWS_PER_PAGE_OPTIONS.filter(option => option <= requested);
+  return allowed.length > 0 ? allowed[allowed.length - 1] : ROWS_PER_PAGE_OPTIONS[0];
+};
+
+export interface PersonSearchView {
+  /** Zero-based result page, for display; the cursor selects the rows */
+  page: number;
+  rowsPerPage: number;
+  sortBy?: PersonSearchSortField;
+  sortOrder: SortOrder;
+  /** Keyset cursor of the page; absent on the first page */
+  cursor?: string;
+}
+
+export interface PersonSearchQuery extends PersonSearchView {
+  criteria: PersonSearchCriteria;
+}
+
+/**
+ * Whether the query string describes a search. Every encoded search carries
+ * a status, so "all active persons" is distinguishable from no search.
+ */
+export const hasSearchQuery = (params: URLSearchParams): boolean => params.has('status');
+
+export const parseSearchQuery = (params: URLSearchParams): PersonSearchQuery => {
+  const criteria: PersonSearchCriteria = {};
+  TEXT_FIELDS.forEach(field => {
+    const value = params.get(field);
+    if (value) criteria[field] = value;
+  });
+
+  const status = params.get('status');
+  if (status !== 'all') {
+    criteria.is_active = status !== 'inactive';
+  }
+
+  const expiringWithinDays = Number(params.get('expiring_within_days'));
+  if (expiringWithinDays > 0) {
+    criteria.documents_expiring_within_days = expiringWithinDays;
+  }
+
+  // The URL page is one-based and only meaningful alongside a cursor
+  const cursor = params.get('cursor') || undefined;
+  const page = cursor ? Math.max(0, (parseInt(params.get('page') || '1', 10) || 1) - 1) : 0;
+  const rowsPerPage = toRowsPerPage(parseInt(params.get('rows') || '', 10));
+  const sort = params.get('sort') as PersonSearchSortField | null;
+  const sortBy = sort && SORT_FIELDS.includes(sort) ? sort : undefined;
+  const sortOrder: SortOrder = params.get('order') === 'desc' ? 'desc' : 'asc';
+
+  return { criteria, page, rowsPerPage, sortBy, sortOrder, cursor };
+};
+
+export const buildSearchQuery = (
+  criteria: PersonSearchCriteria,
+  view: Partial<PersonSearchView> = {}
+): URLSearchParams => {
+  const { page = 0, rowsPerPage = DEFAULT_ROWS_PER_PAGE, sortBy, sortOrder = 'asc', cursor } = view;
+  const params = new URLSearchParams();
+  TEXT_FIELDS.forEach(field => {
+    const value = criteria[field]?.trim();
+    if (value) params.set(field, value);
+  });
+
+  params.set('status', criteria.is_active === undefined ? 'all' : criteria.is_active ? 'active' : 'inactive');
+  if (criteria.documents_expiring_within_days) {
+    params.set('expiring_within_days', String(criteria.documents_expiring_within_days));
+  }
+  if (sortBy) {
+    params.set('sort', sortBy);
+    params.set('order', sortOrder);
+  }
+  if (cursor) {
+    params.set('page', String(page + 1));
+    params.set('cursor', cursor);
+  }
+  if (rowsPerPage !== DEFAULT_ROWS_PER_PAGE) params.set('rows', String(rowsPerPage));
+
+  return params;
+};
+
+/**
+ * One-line summary of the criteria, e.g. "Surname: SMITH • Province: GP"
+ */
+export const describeSearchCriteria = (criteria: PersonSearchCriteria): string => {
+  const parts = TEXT_FIELDS
+    .filter(field => criteria[field])
+    .map(field => `${CRITERIA_LABELS[field]}: ${criteria[field]}`);
+
+  if (criteria.documents_expiring_within_days) {
+    parts.push(`Expiring within ${criteria.documents_expiring_within_days} days`);
+  }
+  if (criteria.is_active === false) parts.push('Deactivated');
+  if (criteria.is_active === undefined) parts.push('All statuses');
+
+  return parts.length > 0 ? parts.join(' • ') : 'All active persons';
+};
+
+export interface RecentSearch {
+  /** Query string of the search, without paging */
+  query: string;
+  summary: string;
+  searched_at: string;
+}
+
+const recentSearchesKey = (userId: string) => `person_recent_searches:${userId}`;
+
+export const getRecentSearches = (userId: string): RecentSearch[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(recentSearchesKey(userId)) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Record a search at the top of the recent list (a repeated search moves up)
+ */
+export const addRecentSearch = (userId: string, criteria: PersonSearchCriteria): RecentSearch[] => {
+  const query = buildSearchQuery(criteria).toString();
+  const recent = [
+    { query, summary: describeSearchCriteria(criteria), searched_at: new Date().toISOString() },
+    ...getRecentSearches(userId).filter(search => search.query !== query),
+  ].slice(0, RECENT_SEARCHES_LIMIT);
+
+  sessionStorage.setItem(recentSearchesKey(userId), JSON.stringify(recent));
+  return recent;
+};
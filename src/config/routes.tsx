@@ -0,0 +1,263 @@
+/**
+ * Dashboard Route Definitions for LINC Frontend
+ * One tree drives both the router (App.tsx) and the sidebar (DashboardLayout)
+ *
+ * - path is relative to its parent ('' is the index route)
+ * - menu marks an entry for the sidebar; routes reached from within pages
+ *   (create/edit forms) have none
+ * - permission / role guard the route and hide the menu entry when unmet
+ */
+
+import { ComponentType, ReactElement } from 'react';
+import {
+  Dashboard,
+  People,
+  Search,
+  PersonAdd,
+  AdminPanelSettings,
+  Settings,
+  LocationCity,
+  ManageAccounts,
+  Security
+} from '@mui/icons-material';
+import {
+  PERMISSIONS,
+  ROLES,
+  PermissionRequirement,
+  Role,
+  satisfiesPermissionRequirement,
+  describePermissionRequirement
+} from './permissions';
+
+// Pages
+import HomePage from '../pages/HomePage';
+import ProfilePage from '../pages/ProfilePage';
+import ChangePasswordPage from '../pages/ChangePasswordPage';
+import PersonSearchPage from '../pages/persons/PersonSearchPage';
+import PersonManagementPage from '../pages/persons/PersonManagementPage';
+import PersonMergePage from '../pages/persons/PersonMergePage';
+import PersonDetailPage from '../pages/persons/PersonDetailPage';
+import CountryConfigurationPage from '../pages/admin/CountryConfigurationPage';
+import LocationManagementPage from '../pages/admin/LocationManagementPage';
+import UserManagementPage from '../pages/admin/UserManagementPage';
+import UserFormPage from '../pages/admin/UserFormPage';
+import CreateUserGroupPage from '../pages/admin/CreateUserGroupPage';
+import EditUserGroupPage from '../pages/admin/EditUserGroupPage';
+import CreateLocationPage from '../pages/admin/CreateLocationPage';
+import EditLocationPage from '../pages/admin/EditLocationPage';
+import UserGroupsPage from '../pages/admin/UserGroupsPage';
+import LocationsPage from '../pages/admin/LocationsPage';
+import StaffManagementPage from '../pages/admin/StaffManagementPage';
+import AssignStaffPage from '../pages/admin/AssignStaffPage';
+import EditStaffAssignmentPage from '../pages/admin/EditStaffAssignmentPage';
+import SystemPrivilegesPage from '../pages/admin/SystemPrivilegesPage';
+
+export interface RouteMenuEntry {
+  text: string;
+  icon: ReactElement;
+}
+
+export interface AppRouteDefinition {
+  path: string;
+  component?: ComponentType;
+  menu?: RouteMenuEntry;
+  permission?: PermissionRequirement;
+  role?: Role;
+  children?: AppRouteDefinition[];
+}
+
+export const DASHBOARD_BASE_PATH = '/dashboard';
+
+export const dashboardRoutes: AppRouteDefinition[] = [
+  { path: '', component: HomePage, menu: { text: 'Dashboard', icon: <Dashboard /> } },
+
+  // Profile and password - any signed-in user
+  { path: 'profile', component: ProfilePage },
+  { path: 'change-password', component: ChangePasswordPage },
+
+  // Person Management
+  {
+    path: 'persons',
+    menu: { text: 'Persons', icon: <People /> },
+    children: [
+      {
+        path: 'manage',
+        component: PersonManagementPage,
+        permission: PERMISSIONS.PERSON_CREATE,
+        menu: { text: 'Manage Person', icon: <PersonAdd /> },
+      },
+      { path: 'register', component: PersonManagementPage, permission: PERMISSIONS.PERSON_CREATE },
+      {
+        path: 'search',
+        component: PersonSearchPage,
+        permission: PERMISSIONS.PERSON_READ,
+        menu: { text: 'Search & Browse', icon: <Search /> },
+      },
+      { path: 'merge', component: PersonMergePage, permission: PERMISSIONS.PERSON_MERGE },
+      { path: ':id', component: PersonDetailPage, permission: PERMISSIONS.PERSON_READ },
+    ],
+  },
+
+  // Administration
+  {
+    path: 'admin',
+    menu: { text: 'Administration', icon: <AdminPanelSettings /> },
+    children: [
+      {
+        path: 'countries',
+        component: CountryConfigurationPage,
+        role: ROLES.ADMIN,
+        menu: { text: 'Countries', icon: <Settings /> },
+      },
+      {
+        path: 'users',
+        component: UserManagementPage,
+        permission: PERMISSIONS.USER_MANAGEMENT_READ,
+        menu: { text: 'User Management', icon: <ManageAccounts /> },
+      },
+      {
+        path: 'privileges',
+        component: SystemPrivilegesPage,
+        permission: PERMISSIONS.ROLE_READ,
+        menu: { text: 'System Privileges', icon: <Security /> },
+      },
+      { path: 'users/create', component: UserFormPage, permission: PERMISSIONS.USER_MANAGEMENT_CREATE },
+      { path: 'users/:userId/edit', component: UserFormPage, permission: PERMISSIONS.USER_MANAGEMENT_UPDATE },
+      {
+        path: 'locations',
+        component: LocationManagementPage,
+        permission: PERMISSIONS.USER_GROUP_READ,
+        menu: { text: 'Location Dashboard', icon: <LocationCity /> },
+      },
+      {
+        path: 'user-groups',
+        component: UserGroupsPage,
+        permission: PERMISSIONS.USER_GROUP_READ,
+        menu: { text: 'User Groups', icon: <AdminPanelSettings /> },
+      },
+      {
+        path: 'locations-management',
+        component: LocationsPage,
+        permission: PERMISSIONS.LOCATION_READ,
+        menu: { text: 'Locations', icon: <LocationCity /> },
+      },
+      {
+        path: 'staff-management',
+        component: StaffManagementPage,
+        permission: PERMISSIONS.ASSIGNMENT_READ,
+        menu: { text: 'Staff Management', icon: <ManageAccounts /> },
+      },
+      { path: 'staff-management/create', component: AssignStaffPage, permission: PERMISSIONS.ASSIGNMENT_CREATE },
+      {
+        path: 'staff-management/:assignmentId/edit',
+        component: EditStaffAssignmentPage,
+        permission: PERMISSIONS.ASSIGNMENT_UPDATE,
+      },
+      { path: 'locations/user-groups/create', component: CreateUserGroupPage, permission: PERMISSIONS.USER_GROUP_CREATE },
+      { path: 'user-groups/create', component: CreateUserGroupPage, permission: PERMISSIONS.USER_GROUP_CREATE },
+      { path: 'user-groups/:userGroupId/edit', component: EditUserGroupPage, permission: PERMISSIONS.USER_GROUP_UPDATE },
+      { path: 'locations/create', component: CreateLocationPage, permission: PERMISSIONS.LOCATION_CREATE },
+      { path: 'locations-management/create', component: CreateLocationPage, permission: PERMISSIONS.LOCATION_CREATE },
+      {
+        path: 'locations-management/:locationId/edit',
+        component: EditLocationPage,
+        permission: PERMISSIONS.LOCATION_UPDATE,
+      },
+    ],
+  },
+];
+
+export interface NavigationItem {
+  text: string;
+  icon: ReactElement;
+  path?: string;
+  subItems?: NavigationItem[];
+}
+
+/**
+ * Build the sidebar from the route tree, keeping only entries the user can
+ * reach. Groups without any reachable entry are dropped.
+ */
+export const buildNavigationItems = (
+  routes: AppRouteDefinition[],
+  canAccess: (route: AppRouteDefinition) => boolean,
+  basePath: string = DASHBOARD_BASE_PATH
+): NavigationItem[] =>
+  routes.flatMap((route): NavigationItem[] => {
+    if (!route.menu || !canAccess(route)) return [];
+
+    const fullPath = route.path ? `${basePath}/${route.path}` : basePath;
+
+    if (route.children) {
+      const subItems = buildNavigationItems(route.children, canAccess, fullPath);
+      return subItems.length > 0 ? [{ ...route.menu, subItems }] : [];
+    }
+
+    return [{ ...route.menu, path: fullPath }];
+  });
+
+/**
+ * Permission set route access is evaluated against - the signed-in user, or
+ * another user being inspected by an administrator
+ */
+export interface AccessSubject {
+  is_superuser: boolean;
+  permissions: string[];
+  roles: string[];
+}
+
+export const createRouteAccessChecker = (subject: AccessSubject) =>
+  (route: AppRouteDefinition): boolean =>
+    subject.is_superuser || (
+      (!route.permission ||
+        satisfiesPermissionRequirement(route.permission, permission => subject.permissions.includes(permission))) &&
+      (!route.role || subject.roles.includes(route.role))
+    );
+
+export interface RouteAccessEntry {
+  path: string;
+  label: string;
+  inMenu: boolean;
+  allowed: boolean;
+  /** What is missing when the route is blocked */
+  reason?: string;
+}
+
+/**
+ * Flatten the route tree into one entry per page with whether the subject
+ * can open it. A child is blocked when its parent is.
+ */
+export const listRouteAccess = (
+  routes: AppRouteDefinition[],
+  subject: AccessSubject,
+  basePath: string = DASHBOARD_BASE_PATH
+): RouteAccessEntry[] => {
+  const canAccess = createRouteAccessChecker(subject);
+
+  return routes.flatMap((route): RouteAccessEntry[] => {
+    const fullPath = route.path ? `${basePath}/${route.path}` : basePath;
+    const allowed = canAccess(route);
+    const reasons = [
+      route.permission && `requires permission ${describePermissionRequirement(route.permission)}`,
+      route.role && `requires role ${route.role}`,
+    ].filter(Boolean);
+
+    const children = route.children
+      ? listRouteAccess(route.children, subject, fullPath).map(child =>
+          allowed ? child : { ...child, allowed: false, reason: child.reason || `parent ${fullPath} is blocked` })
+      : [];
+
+    if (!route.component) return children;
+
+    return [
+      {
+        path: fullPath,
+        label: route.menu?.text || fullPath,
+        inMenu: !!route.menu,
+        allowed,
+        reason: allowed ? undefined : reasons.join(', '),
+      },
+      ...children,
+    ];
+  });
+};
@@ -0,0 +1,62 @@
+/**
+ * Session Security Configuration for LINC Frontend
+ * Inactivity lock and logout thresholds and MFA requirements per user type
+ *
+ * Testing-centre counter terminals are shared, so examiners and standard
+ * clerks lock quickly; office-bound admins get longer thresholds.
+ */
+
+import { UserType } from '../types/user';
+
+export interface IdleTimeoutSettings {
+  /** Inactivity before the session is locked */
+  lockAfterMs: number;
+  /** How long the countdown warning is shown before locking */
+  warningMs: number;
+  /** Inactivity before a hard logout (measured from the last activity) */
+  logoutAfterMs: number;
+}
+
+const MINUTE = 60 * 1000;
+
+export const DEFAULT_IDLE_TIMEOUTS: IdleTimeoutSettings = {
+  lockAfterMs: 10 * MINUTE,
+  warningMs: 60 * 1000,
+  logoutAfterMs: 30 * MINUTE,
+};
+
+export const IDLE_TIMEOUTS_BY_USER_TYPE: Record<UserType, IdleTimeoutSettings> = {
+  [UserType.STANDARD]: DEFAULT_IDLE_TIMEOUTS,
+  [UserType.SYSTEM]: { lockAfterMs: 30 * MINUTE, warningMs: 60 * 1000, logoutAfterMs: 120 * MINUTE },
+  [UserType.EXAMINER]: { lockAfterMs: 5 * MINUTE, warningMs: 30 * 1000, logoutAfterMs: 20 * MINUTE },
+  [UserType.SUPERVISOR]: { lockAfterMs: 10 * MINUTE, warningMs: 60 * 1000, logoutAfterMs: 45 * MINUTE },
+  [UserType.ADMIN]: { lockAfterMs: 15 * MINUTE, warningMs: 60 * 1000, logoutAfterMs: 60 * MINUTE },
+};
+
+/**
+ * Get the idle timeouts for a user type code, falling back to the defaults
+ */
+export const getIdleTimeouts = (userTypeCode?: string): IdleTimeoutSettings =>
+  IDLE_TIMEOUTS_BY_USER_TYPE[userTypeCode as UserType] || DEFAULT_IDLE_TIMEOUTS;
+
+/**
+ * User types that must use two-factor authentication (they can create users
+ * and approve transactions)
+ */
+export const MFA_REQUIRED_USER_TYPES: UserType[] = [UserType.ADMIN, UserType.SUPERVISOR];
+
+/**
+ * User activity events that reset the inactivity timer
+ */
+export const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'] as const;
+
+/**
+ * Activity is shared with the other tabs at most this often, so the idle
+ * logout (which signs out every tab) waits until all tabs are idle
+ */
+export const ACTIVITY_BROADCAST_INTERVAL_MS = 15 * 1000;
+
+/**
+ * sessionStorage key that keeps a tab locked across page reloads
+ */
+export const SESSION_LOCK_STORAGE_KEY = 'linc_session_locked';
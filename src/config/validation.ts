@@ -1,16 +1,18 @@
 /**
  * Input Validation Utilities for eNaTIS Transaction 57
  * Implements field validation and formatting as per eNaTIS specifications
+ * ID document number rules live in ./identityDocuments
+ *
+ * Field rules (pattern, length, message and V-code) are served by the backend
+ * rule catalogue; DEFAULT_VALIDATION_RULES is used until it has loaded or if
+ * it cannot be fetched.
  */
 
+import * as yup from 'yup';
+import { RegisterOptions } from 'react-hook-form';
+
 // Regular expressions for validation
 export const VALIDATION_PATTERNS = {
-  // V00017: RSA ID must be numeric only (13 digits)
-  RSA_ID: /^[0-9]{13}$/,
-  
-  // Foreign ID validation (basic alphanumeric)
-  FOREIGN_ID: /^[A-Za-z0-9\-]{6,20}$/,
-  
   // V00043, V00056: Names - letters, spaces, hyphens, apostrophes only
   NAME: /^[A-Za-z\s\-'\.]+$/,
   
@@ -116,231 +118,172 @@ export const formatters = {
 };
 
 /**
- * Validation functions that return error messages
+ * Utility to create onChange handler with formatting
  */
-export const validators = {
-  /**
-   * V00013: ID Number Mandatory
-   * V00018: RSA ID must be 13 digits
-   * V00017: RSA ID must be numeric
-   * V00019: RSA ID check digit validation
-   */
-  rsaId: (value: string): string | null => {
-    if (!value || value.trim() === '') {
-      return 'V00013: Identification number is mandatory';
-    }
-
-    if (value.length !== 13) {
-      return 'V00018: RSA ID must be exactly 13 digits';
-    }
-
-    if (!VALIDATION_PATTERNS.RSA_ID.test(value)) {
-      return 'V00017: RSA ID must contain only numeric characters';
-    }
-
-    // V00019: Check digit validation (Luhn algorithm)
-    if (!validateRSAIdChecksum(value)) {
-      return 'V00019: Invalid RSA ID check digit';
-    }
-
-    return null;
-  },
-
-  /**
-   * Foreign ID validation
-   */
-  foreignId: (value: string): string | null => {
-    if (!value || value.trim() === '') {
-      return 'V00013: Identification number is mandatory';
-    }
-
-    if (value.length < 6 || value.length > 20) {
-      return 'Foreign ID must be between 6 and 20 characters';
-    }
-
-    if (!VALIDATION_PATTERNS.FOREIGN_ID.test(value)) {
-      return 'Foreign ID can only contain letters, numbers, and hyphens';
-    }
-
-    return null;
-  },
-
-  /**
-   * V00051: Initials mandatory for natural persons
-   */
-  initials: (value: string): string | null => {
-    if (!value || value.trim() === '') {
-      return 'V00051: Initials are mandatory for natural persons';
-    }
-
-    if (!VALIDATION_PATTERNS.INITIALS.test(value)) {
-      return 'Initials must contain only uppercase letters';
-    }
-
-    return null;
-  },
-
-  /**
-   * V00043: Surname mandatory
-   * V00056: Full name mandatory
-   */
-  name: (value: string, fieldName: string = 'Name'): string | null => {
-    if (!value || value.trim() === '') {
-      return `${fieldName} is mandatory`;
-    }
-
-    if (!VALIDATION_PATTERNS.NAME.test(value)) {
-      return `${fieldName} can only contain letters, spaces, hyphens, apostrophes, and dots`;
-    }
-
-    return null;
-  },
-
-  /**
-   * Email validation (optional field)
-   */
-  email: (value: string): string | null => {
-    if (!value) return null; // Optional field
-
-    if (!VALIDATION_PATTERNS.EMAIL.test(value)) {
-      return 'Please enter a valid email address';
-    }
-
-    return null;
-  },
-
-  /**
-   * Phone validation (optional but if provided must be valid)
-   */
-  phone: (code: string, number: string, fieldName: string = 'Phone'): string | null => {
-    // If both empty, it's okay (optional)
-    if ((!code || code.trim() === '') && (!number || number.trim() === '')) {
-      return null;
-    }
-
-    // If one is provided, both must be provided
-    if ((!code || code.trim() === '') || (!number || number.trim() === '')) {
-      return `${fieldName} area code and number must both be provided`;
-    }
-
-    if (!VALIDATION_PATTERNS.PHONE_CODE.test(code)) {
-      return `${fieldName} area code must be 2-4 digits`;
-    }
-
-    if (!VALIDATION_PATTERNS.PHONE_NUMBER.test(number)) {
-      return `${fieldName} number must be 6-10 digits`;
-    }
-
-    return null;
-  },
-
-  /**
-   * Cell phone validation
-   */
-  cellPhone: (value: string): string | null => {
-    if (!value) return null; // Optional field
-
-    if (!VALIDATION_PATTERNS.CELL_PHONE.test(value)) {
-      return 'Cell phone must be exactly 10 digits';
-    }
-
-    return null;
-  },
-
-  /**
-   * Postal code validation
-   */
-  postalCode: (value: string): string | null => {
-    if (!value) return null; // Optional field
-
-    if (!VALIDATION_PATTERNS.POSTAL_CODE.test(value)) {
-      return 'Postal code must be exactly 4 digits';
-    }
+export const createFormattedOnChange = (
+  formatter: (value: string) => string,
+  onChange: (value: string) => void
+) => {
+  return (event: { target: { value: string } }) => {
+    const formatted = formatter(event.target.value);
+    onChange(formatted);
+  };
+}; 
 
-    return null;
-  },
-};
+// ========================================
+// RULE CATALOGUE
+// ========================================
 
 /**
- * V00019: RSA ID check digit validation using Luhn algorithm
+ * One entry of the validation rule catalogue (GET /lookups/validation-rules).
+ * A field may have several entries, e.g. a mandatory rule and a format rule
+ * with different V-codes.
  */
-export const validateRSAIdChecksum = (id: string): boolean => {
-  if (id.length !== 13 || !/^\d{13}$/.test(id)) {
+export interface ValidationRule {
+  /** Form and field the rule applies to, e.g. "person.business_or_surname" */
+  field: string;
+  /** eNaTIS validation code, e.g. "V00043" */
+  code?: string;
+  message: string;
+  required?: boolean;
+  /** Regular expression source that non-empty values must match */
+  pattern?: string;
+  min_length?: number;
+  max_length?: number;
+}
+
+export const DEFAULT_VALIDATION_RULES: ValidationRule[] = [
+  // Person
+  { field: 'person.business_or_surname', code: 'V00043', message: 'Person surname is mandatory', required: true },
+  { field: 'person.business_or_surname', message: `Maximum ${FIELD_LENGTHS.SURNAME} characters`, max_length: FIELD_LENGTHS.SURNAME },
+  { field: 'person.person_nature', code: 'V00034', message: 'Person nature is mandatory', required: true },
+  { field: 'person.nationality_code', code: 'V00040', message: 'Person nationality is mandatory', required: true },
+  { field: 'person.id_document_type_code', code: 'V00012', message: 'Alias identification type is mandatory', required: true },
+  { field: 'person.id_document_number', code: 'V00013', message: 'Alias identification number is mandatory', required: true },
+  { field: 'person.initials', code: 'V00051', message: 'Person initials are mandatory for natural persons', required: true },
+  { field: 'person.initials', message: 'Maximum 3 characters', max_length: 3 },
+  { field: 'person.initials', message: 'Initials must be uppercase letters only', pattern: '^[A-Z]*$' },
+  { field: 'person.natural_person.full_name_1', code: 'V00056', message: 'Natural person full name 1 is mandatory', required: true },
+  { field: 'person.natural_person.full_name_1', message: `Maximum ${FIELD_LENGTHS.FULL_NAME} characters`, max_length: FIELD_LENGTHS.FULL_NAME },
+  { field: 'person.natural_person.full_name_2', message: `Maximum ${FIELD_LENGTHS.FULL_NAME} characters`, max_length: FIELD_LENGTHS.FULL_NAME },
+  { field: 'person.natural_person.full_name_3', message: `Maximum ${FIELD_LENGTHS.FULL_NAME} characters`, max_length: FIELD_LENGTHS.FULL_NAME },
+  { field: 'person.email_address', message: 'Maximum 50 characters', max_length: 50 },
+  { field: 'person.email_address', message: 'Invalid email format', pattern: VALIDATION_PATTERNS.EMAIL.source },
+  { field: 'person.home_phone', message: 'Maximum 20 characters', max_length: 20 },
+  { field: 'person.work_phone', message: 'Maximum 20 characters', max_length: 20 },
+  { field: 'person.fax_phone', message: 'Maximum 20 characters', max_length: 20 },
+  { field: 'person.cell_phone_country_code', message: 'Invalid country code format', pattern: '^\\+\\d{1,4}$' },
+  { field: 'person.cell_phone', message: 'Maximum 15 characters', max_length: 15 },
+  { field: 'person.cell_phone', message: 'Cell phone must contain only digits', pattern: '^\\d*$' },
+  { field: 'person.address_line_1', message: 'Address line 1 is mandatory', required: true },
+  { field: 'person.address_line_1', message: `Maximum ${FIELD_LENGTHS.ADDRESS_LINE} characters`, max_length: FIELD_LENGTHS.ADDRESS_LINE },
+  { field: 'person.address_line_2', message: `Maximum ${FIELD_LENGTHS.ADDRESS_LINE} characters`, max_length: FIELD_LENGTHS.ADDRESS_LINE },
+  { field: 'person.address_line_3', message: `Maximum ${FIELD_LENGTHS.ADDRESS_LINE} characters`, max_length: FIELD_LENGTHS.ADDRESS_LINE },
+  { field: 'person.address_line_4', message: `Maximum ${FIELD_LENGTHS.ADDRESS_LINE} characters`, max_length: FIELD_LENGTHS.ADDRESS_LINE },
+  { field: 'person.address_line_5', message: 'City / town is mandatory', required: true },
+  { field: 'person.address_line_5', message: `Maximum ${FIELD_LENGTHS.ADDRESS_LINE} characters`, max_length: FIELD_LENGTHS.ADDRESS_LINE },
+  { field: 'person.postal_code', message: 'Postal code is mandatory', required: true },
+  { field: 'person.postal_code', message: 'Postal code must be exactly 4 digits', pattern: VALIDATION_PATTERNS.POSTAL_CODE.source },
+
+  // User
+  { field: 'user.full_name', message: 'Full name is required', required: true },
+  { field: 'user.full_name', message: 'Maximum 100 characters', max_length: 100 },
+  { field: 'user.email', code: 'V06004', message: 'Email is required', required: true },
+  { field: 'user.email', code: 'V06004', message: 'Valid email required', pattern: VALIDATION_PATTERNS.EMAIL.source },
+  { field: 'user.email', message: `Maximum ${FIELD_LENGTHS.EMAIL} characters`, max_length: FIELD_LENGTHS.EMAIL },
+  { field: 'user.phone_number', message: 'Valid phone number required', pattern: '^[\\d\\s\\-\\+\\(\\)]+$' },
+  { field: 'user.id_type', message: 'ID type is required', required: true },
+  { field: 'user.id_number', code: 'V06005', message: 'ID number must be valid for the selected ID type', required: true },
+  { field: 'user.username', message: 'Username is required', required: true },
+  { field: 'user.username', message: 'Username must be at least 3 characters', min_length: 3 },
+  { field: 'user.username', message: 'Username cannot exceed 20 characters', max_length: 20 },
+  { field: 'user.username', message: 'Username can only contain letters, numbers, and underscores', pattern: '^[a-zA-Z0-9_]+$' },
+  { field: 'user.user_group_code', code: 'V06001', message: 'User group must be active and valid', required: true },
+  { field: 'user.location_id', code: 'V06002', message: 'Location must be active and valid', required: true },
+
+  // Location
+  { field: 'location.address_line_1', message: 'Address is required', required: true },
+  { field: 'location.address_line_1', message: 'Maximum 100 characters', max_length: 100 },
+  { field: 'location.city', message: 'City is required', required: true },
+  { field: 'location.city', message: 'Maximum 50 characters', max_length: 50 },
+  { field: 'location.postal_code', message: 'Postal code must be 4 digits', pattern: VALIDATION_PATTERNS.POSTAL_CODE.source },
+];
+
+const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
     return false;
   }
-
-  const digits = id.split('').map(Number);
-  const checkDigit = digits[12];
-  
-  let sum = 0;
-  for (let i = 0; i < 12; i++) {
-    let digit = digits[i];
-    if (i % 2 === 1) {
-      digit *= 2;
-      if (digit > 9) {
-        digit = Math.floor(digit / 10) + (digit % 10);
-      }
-    }
-    sum += digit;
-  }
-
-  const calculatedCheckDigit = (10 - (sum % 10)) % 10;
-  return calculatedCheckDigit === checkDigit;
 };
 
 /**
- * V00034: Extract gender from RSA ID (digits 7-10)
+ * Overlay the backend catalogue on the defaults. A field served by the
+ * backend replaces all default rules for that field; rules with an invalid
+ * pattern are dropped.
  */
-export const extractGenderFromRSAId = (rsaId: string): 'Male' | 'Female' | null => {
-  if (rsaId.length !== 13 || !/^\d{13}$/.test(rsaId)) {
-    return null;
-  }
-
-  const genderDigits = parseInt(rsaId.substring(6, 10), 10);
-  return genderDigits > 4999 ? 'Male' : 'Female';
+export const mergeValidationRules = (defaults: ValidationRule[], served: ValidationRule[]): ValidationRule[] => {
+  const usable = served.filter(rule => {
+    if (!rule.pattern || isValidPattern(rule.pattern)) return true;
+    console.warn(`Ignoring validation rule for ${rule.field}: invalid pattern`, rule.pattern);
+    return false;
+  });
+  const servedFields = new Set(usable.map(rule => rule.field));
+  return [...defaults.filter(rule => !servedFields.has(rule.field)), ...usable];
 };
 
+export const getFieldRules = (rules: ValidationRule[], field: string): ValidationRule[] =>
+  rules.filter(rule => rule.field === field);
+
 /**
- * V00065: Extract birth date from RSA ID (first 6 digits)
+ * Error text with the V-code alongside, e.g. "Person surname is mandatory (V00043)"
  */
-export const extractBirthDateFromRSAId = (rsaId: string): Date | null => {
-  if (rsaId.length !== 13 || !/^\d{13}$/.test(rsaId)) {
-    return null;
-  }
-
-  const yearDigits = parseInt(rsaId.substring(0, 2), 10);
-  const month = parseInt(rsaId.substring(2, 4), 10);
-  const day = parseInt(rsaId.substring(4, 6), 10);
-
-  // Determine century (assume birth years < 30 are 2000s, >= 30 are 1900s)
-  const currentYear = new Date().getFullYear();
-  const currentCentury = Math.floor(currentYear / 100) * 100;
-  const year = yearDigits < 30 ? currentCentury + yearDigits : currentCentury - 100 + yearDigits;
-
-  // Validate date components
-  if (month < 1 || month > 12 || day < 1 || day > 31) {
-    return null;
-  }
+export const formatRuleMessage = (rule: ValidationRule): string =>
+  rule.code ? `${rule.message} (${rule.code})` : rule.message;
 
-  const birthDate = new Date(year, month - 1, day);
-  
-  // Check if date is valid and not in the future
-  if (birthDate.getTime() > Date.now()) {
-    return null;
-  }
+/**
+ * Yup string schema for a catalogue field. Pass optional when the field is
+ * only conditionally mandatory, so its required rule is left to the caller.
+ */
+export const createFieldSchema = (
+  rules: ValidationRule[],
+  field: string,
+  options: { optional?: boolean } = {}
+): yup.StringSchema<string | undefined> =>
+  getFieldRules(rules, field).reduce<yup.StringSchema<string | undefined>>((schema, rule) => {
+    const message = formatRuleMessage(rule);
+    let next = schema;
+    if (rule.required && !options.optional) next = next.required(message) as yup.StringSchema<string | undefined>;
+    if (rule.min_length !== undefined) next = next.min(rule.min_length, message);
+    if (rule.max_length !== undefined) next = next.max(rule.max_length, message);
+    if (rule.pattern) next = next.matches(new RegExp(rule.pattern), { message, excludeEmptyString: true });
+    return next;
+  }, yup.string());
+
+export type FieldRuleOptions = Pick<RegisterOptions, 'required' | 'minLength' | 'maxLength' | 'pattern'>;
 
-  return birthDate;
-};
+/**
+ * react-hook-form rules for a catalogue field, for forms that validate with
+ * Controller rules rather than a yup resolver
+ */
+export const createRegisterOptions = (rules: ValidationRule[], field: string): FieldRuleOptions =>
+  getFieldRules(rules, field).reduce<FieldRuleOptions>((options, rule) => {
+    const message = formatRuleMessage(rule);
+    const next = { ...options };
+    if (rule.required) next.required = message;
+    if (rule.min_length !== undefined) next.minLength = { value: rule.min_length, message };
+    if (rule.max_length !== undefined) next.maxLength = { value: rule.max_length, message };
+    if (rule.pattern) next.pattern = { value: new RegExp(rule.pattern), message };
+    return next;
+  }, {});
 
 /**
- * Utility to create onChange handler with formatting
+ * Longest value a catalogue field accepts, for the input's maxLength
  */
-export const createFormattedOnChange = (
-  formatter: (value: string) => string,
-  onChange: (value: string) => void
-) => {
-  return (event: { target: { value: string } }) => {
-    const formatted = formatter(event.target.value);
-    onChange(formatted);
-  };
-}; 
\ No newline at end of file
+export const getMaxLength = (rules: ValidationRule[], field: string): number | undefined => {
+  const lengths = getFieldRules(rules, field)
+    .map(rule => rule.max_length)
+    .filter((length): length is number => length !== undefined);
+  return lengths.length > 0 ? Math.min(...lengths) : undefined;
+};
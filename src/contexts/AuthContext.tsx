@@ -5,46 +5,84 @@
  * Security Strategy:
  * - Access tokens stored in memory (most secure)
  * - Refresh tokens in httpOnly cookies with SameSite=None for cross-domain
- * - Automatic token refresh
+ * - Token refresh on demand: a 401 from the API triggers a single shared refresh
+ *   and the failed requests are replayed; if the refresh fails the session expires
  * - Proper logout and session management
+ * - Tabs share one session: a leader tab refreshes, and login/logout/user
+ *   switches are broadcast to every open tab (see services/sessionSync)
  */
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { API_ENDPOINTS, setAuthToken } from '../config/api';
+import React, { createContext, useContext, useState, useEffect, useRef, useMemo, ReactNode } from 'react';
+import {
+  api,
+  API_ENDPOINTS,
+  setAuthToken,
+  getAuthToken,
+  setAuthRefreshHandler,
+  setSessionExpiredHandler,
+  refreshAuthToken
+} from '../config/api';
+import { SessionSync, SyncedSession } from '../services/sessionSync';
+import { SESSION_LOCK_STORAGE_KEY, ACTIVITY_BROADCAST_INTERVAL_MS } from '../config/session';
+import { mfaService, isMfaChallenge } from '../services/mfaService';
+import { passwordService } from '../services/passwordService';
+import {
+  Permission,
+  PermissionRequirement,
+  Role,
+  satisfiesPermissionRequirement,
+  describePermissionRequirement
+} from '../config/permissions';
+import {
+  getDataScope,
+  getDefaultProvinceCode,
+  isProvinceInScope,
+  isUserGroupInScope
+} from '../config/dataScope';
+import {
+  AuthUser,
+  AuthTokenResponse,
+  LoginCredentials,
+  LoginResponse,
+  LoginResult,
+  MfaChallenge,
+  MfaMethod
+} from '../types/auth';
 
 // Types
-interface User {
-  id: string;
-  username: string;
-  email?: string;
-  first_name?: string;
-  last_name?: string;
-  is_active: boolean;
-  is_superuser: boolean;
-  roles: string[];
-  permissions: string[];
-}
-
 interface AuthState {
-  user: User | null;
+  user: AuthUser | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   accessToken: string | null;
-}
-
-interface LoginCredentials {
-  username: string;
-  password: string;
+  sessionExpired: boolean;
 }
 
 interface AuthContextType extends AuthState {
-  login: (credentials: LoginCredentials) => Promise<boolean>;
+  login: (credentials: LoginCredentials) => Promise<LoginResult>;
+  verifyMfa: (mfaToken: string, code: string, method: MfaMethod) => Promise<void>;
+  completeMfaEnrollment: (mfaToken: string, deviceId: string, code: string) => Promise<string[]>;
   logout: () => Promise<void>;
   refreshToken: () => Promise<boolean>;
-  hasPermission: (permission: string) => boolean;
-  hasRole: (role: string) => boolean;
+  hasPermission: (permission: Permission) => boolean;
+  hasAnyPermission: (permissions: Permission[]) => boolean;
+  hasAllPermissions: (permissions: Permission[]) => boolean;
+  meetsRequirement: (requirement: PermissionRequirement) => boolean;
+  hasRole: (role: Role) => boolean;
+  isLocked: boolean;
+  lockSession: () => void;
+  unlockSession: (password: string) => Promise<MfaChallenge | null>;
+  /** Record user activity in this tab and share it with the other tabs */
+  recordActivity: () => void;
+  /** Time of the latest user activity in any tab */
+  getLastActivityAt: () => number;
+  passwordChangeRequired: boolean;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
 }
 
+// Shared with the other open tabs for the lifetime of this tab
+const sessionSync = new SessionSync<AuthUser>('linc-auth');
+
 // Create context
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -55,22 +93,68 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     isAuthenticated: false,
     isLoading: true,
     accessToken: null,
+    sessionExpired: false,
   });
+  const [isLocked, setIsLocked] = useState<boolean>(
+    () => sessionStorage.getItem(SESSION_LOCK_STORAGE_KEY) === 'true'
+  );
+  const currentUserIdRef = useRef<string | null>(null);
+  const latestSessionRef = useRef<SyncedSession<AuthUser> | null>(null);
+  const restoringSessionRef = useRef<Promise<boolean> | null>(null);
+  const lastActivityAtRef = useRef(Date.now());
+  const lastActivityBroadcastRef = useRef(0);
 
   // Initialize authentication on app start
   useEffect(() => {
     initializeAuth();
   }, []);
 
-  // Set up automatic token refresh
+  // Let the API layer refresh the token when a request returns 401,
+  // and expire the session when that refresh fails
   useEffect(() => {
-    if (authState.isAuthenticated && authState.accessToken) {
-      const refreshInterval = setInterval(() => {
-        refreshToken();
-      }, 14 * 60 * 1000); // Refresh every 14 minutes
-      return () => clearInterval(refreshInterval);
-    }
-  }, [authState.isAuthenticated, authState.accessToken]);
+    setAuthRefreshHandler(performRefresh);
+    setSessionExpiredHandler(() => {
+      expireSession();
+      sessionSync.publishExpired();
+    });
+    return () => {
+      setAuthRefreshHandler(null);
+      setSessionExpiredHandler(null);
+    };
+  }, []);
+
+  // Apply login, logout and token changes made in other tabs
+  useEffect(() => {
+    return sessionSync.connect({
+      onSession: (session, reason) => {
+        const previousUserId = currentUserIdRef.current;
+        applySession(session);
+        // A different user signed in elsewhere: reload so no data from the
+        // previous user stays on screen
+        if (reason === 'login' && previousUserId && previousUserId !== session.user.id) {
+          window.location.assign('/dashboard');
+        }
+      },
+      onLogout: () => clearSession(false),
+      onExpired: expireSession,
+      onActivity: at => {
+        lastActivityAtRef.current = Math.max(lastActivityAtRef.current, at);
+      },
+      onRefreshRequest: async () => {
+        // Still restoring this tab's own session on start-up: share its outcome
+        if (restoringSessionRef.current) {
+          return (await restoringSessionRef.current) ? latestSessionRef.current : null;
+        }
+        // Signed out here too: there is nothing to refresh, and a failed
+        // refresh would announce a session expiry to every tab
+        if (!latestSessionRef.current) {
+          return null;
+        }
+        const refreshed = await refreshAuthToken();
+        return refreshed ? latestSessionRef.current : null;
+      },
+    });
+  }, []);
 
   /**
    * Initialize authentication state
@@ -79,13 +163,15 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const initializeAuth = async () => {
     try {
       setAuthState(prev => ({ ...prev, isLoading: true }));
-      const refreshSuccess = await refreshToken();
+      restoringSessionRef.current = performRefresh();
+      const refreshSuccess = await restoringSessionRef.current;
       if (!refreshSuccess) {
         setAuthState({
           user: null,
           isAuthenticated: false,
           isLoading: false,
           accessToken: null,
+          sessionExpired: false,
         });
       }
     } catch (error) {
@@ -95,49 +181,36 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         isAuthenticated: false,
         isLoading: false,
         accessToken: null,
+        sessionExpired: false,
       });
+    } finally {
+      restoringSessionRef.current = null;
     }
   };
 
   /**
    * Login user with credentials
    */
-  const login = async (credentials: LoginCredentials): Promise<boolean> => {
+  const login = async (credentials: LoginCredentials): Promise<LoginResult> => {
     try {
       setAuthState(prev => ({ ...prev, isLoading: true }));
 
-      const response = await fetch(`${API_ENDPOINTS.auth}/login`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(credentials),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || 'Login failed');
+      const loginData = await api.post<LoginResponse>(
+        `${API_ENDPOINTS.auth}/login`,
+        credentials,
+        { credentials: 'include', skipAuth: true, skipAuthRefresh: true }
+      );
+
+      // Second factor required - the session is only created after verification
+      if (isMfaChallenge(loginData)) {
+        setAuthState(prev => ({ ...prev, isLoading: false }));
+        return loginData.enrollment_required
+          ? { status: 'mfa_enrollment_required', challenge: loginData }
+          : { status: 'mfa_required', challenge: loginData };
       }
 
-      const loginData = await response.json();
-      const { access_token, user } = loginData;
-
-      // Set auth token in memory for API calls
-      setAuthToken(access_token);
-
-      setAuthState({
-        user: {
-          ...user,
-          roles: user.roles || [],
-          permissions: user.permissions || [],
-        },
-        isAuthenticated: true,
-        isLoading: false,
-        accessToken: access_token,
-      });
-
-      return true;
+      completeLogin(loginData);
+      return { status: 'authenticated' };
     } catch (error) {
       console.error('Login error:', error);
       setAuthState(prev => ({
@@ -151,6 +224,62 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  /**
+   * Complete a login with a TOTP or backup code from an MFA challenge
+   */
+  const verifyMfa = async (mfaToken: string, code: string, method: MfaMethod): Promise<void> => {
+    const tokenData = await mfaService.verify({ mfa_token: mfaToken, code, method });
+    completeLogin(tokenData);
+  };
+
+  /**
+   * Confirm an authenticator enrolled during login and complete the login.
+   * Returns the one-time backup codes so they can be shown to the user.
+   */
+  const completeMfaEnrollment = async (mfaToken: string, deviceId: string, code: string): Promise<string[]> => {
+    const result = await mfaService.verifyEnrollment({ mfa_token: mfaToken, device_id: deviceId, code });
+    if (result.access_token && result.user) {
+      completeLogin({ access_token: result.access_token, user: result.user });
+    }
+    return result.backup_codes;
+  };
+
+  /**
+   * Apply tokens from a completed login, share them with other tabs and
+   * release the inactivity lock if it was held
+   */
+  const completeLogin = (tokenData: AuthTokenResponse) => {
+    const session = {
+      accessToken: tokenData.access_token,
+      user: {
+        ...tokenData.user,
+        password_change_required: Boolean(
+          tokenData.password_change_required || tokenData.user.password_change_required
+        ),
+      },
+    };
+
+    applySession(session);
+    sessionSync.publishSession(session, 'login');
+
+    sessionStorage.removeItem(SESSION_LOCK_STORAGE_KEY);
+    setIsLocked(false);
+  };
+
+  /**
+   * Change the current user's password; clears a forced-change flag
+   */
+  const changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+    await passwordService.changePassword({ current_password: currentPassword, new_password: newPassword });
+
+    const current = latestSessionRef.current;
+    if (current) {
+      const session = { ...current, user: { ...current.user, password_change_required: false } };
+      applySession(session);
+      sessionSync.publishSession(session, 'refresh');
+    }
+  };
+
   /**
    * Logout user and clear session
    */
@@ -158,78 +287,172 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       // Call logout endpoint to invalidate server-side session
       if (authState.accessToken) {
-        await fetch(`${API_ENDPOINTS.auth}/logout`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${authState.accessToken}`,
-          },
+        await api.post(`${API_ENDPOINTS.auth}/logout`, undefined, {
           credentials: 'include',
+          skipAuthRefresh: true,
         }).catch(() => {
           // Ignore logout API errors - still clear local state
         });
       }
     } finally {
-      // Clear auth token from memory
-      setAuthToken(null);
+      clearSession(true);
+    }
+  };
 
-      // Always clear local auth state
-      setAuthState({
-        user: null,
-        isAuthenticated: false,
-        isLoading: false,
-        accessToken: null,
-      });
+  /**
+   * Set the auth token and state for a session from this or another tab
+   */
+  const applySession = ({ accessToken, user }: SyncedSession<AuthUser>) => {
+    // Set auth token in memory for API calls
+    setAuthToken(accessToken);
+
+    const normalisedUser: AuthUser = {
+      ...user,
+      roles: user.roles || [],
+      permissions: user.permissions || [],
+    };
+    currentUserIdRef.current = normalisedUser.id;
+    latestSessionRef.current = { accessToken, user: normalisedUser };
+
+    setAuthState({
+      user: normalisedUser,
+      isAuthenticated: true,
+      isLoading: false,
+      accessToken,
+      sessionExpired: false,
+    });
+  };
 
-      // Clear any other stored data
-      localStorage.removeItem('user_preferences');
-      sessionStorage.clear();
+  /**
+   * Clear the local session, telling the other tabs when the logout started here
+   */
+  const clearSession = (broadcast: boolean) => {
+    // Clear auth token from memory
+    setAuthToken(null);
+    currentUserIdRef.current = null;
+    latestSessionRef.current = null;
+
+    // Always clear local auth state
+    setAuthState({
+      user: null,
+      isAuthenticated: false,
+      isLoading: false,
+      accessToken: null,
+      sessionExpired: false,
+    });
+
+    // Clear any other stored data
+    localStorage.removeItem('user_preferences');
+    sessionStorage.clear();
+    setIsLocked(false);
+
+    if (broadcast) {
+      sessionSync.publishLogout();
     }
   };
 
   /**
-   * Refresh access token using httpOnly refresh token
+   * Clear the session after a failed refresh; ProtectedRoute handles the redirect.
+   * Unlike logout, sessionStorage (e.g. recent searches) is kept for when the
+   * user signs in again. The protected page unmounts, so unsaved form input is
+   * lost; only work already saved (such as person drafts) survives.
    */
-  const refreshToken = async (): Promise<boolean> => {
+  const expireSession = () => {
+    setAuthToken(null);
+    currentUserIdRef.current = null;
+    latestSessionRef.current = null;
+    sessionStorage.removeItem(SESSION_LOCK_STORAGE_KEY);
+    setIsLocked(false);
+    setAuthState({
+      user: null,
+      isAuthenticated: false,
+      isLoading: false,
+      accessToken: null,
+      sessionExpired: true,
+    });
+  };
+
+  /**
+   * Lock the UI after inactivity. The session and page state stay intact;
+   * the lock survives a reload so it cannot be bypassed by refreshing.
+   */
+  const lockSession = () => {
+    sessionStorage.setItem(SESSION_LOCK_STORAGE_KEY, 'true');
+    setIsLocked(true);
+  };
+
+  const recordActivity = () => {
+    const now = Date.now();
+    lastActivityAtRef.current = now;
+    if (now - lastActivityBroadcastRef.current >= ACTIVITY_BROADCAST_INTERVAL_MS) {
+      lastActivityBroadcastRef.current = now;
+      sessionSync.publishActivity(now);
+    }
+  };
+
+  const getLastActivityAt = () => lastActivityAtRef.current;
+
+  /**
+   * Unlock by re-entering the current user's password.
+   * Does not touch isLoading so the protected page underneath stays mounted.
+   * Returns the MFA challenge when a second factor is also required
+   * (complete it with verifyMfa).
+   */
+  const unlockSession = async (password: string): Promise<MfaChallenge | null> => {
+    if (!authState.user) {
+      throw new Error('No active session to unlock');
+    }
+
+    const loginData = await api.post<LoginResponse>(
+      `${API_ENDPOINTS.auth}/login`,
+      { username: authState.user.username, password },
+      { credentials: 'include', skipAuth: true, skipAuthRefresh: true }
+    );
+    if (isMfaChallenge(loginData)) {
+      return loginData;
+    }
+
+    completeLogin(loginData);
+    return null;
+  };
+
+  /**
+   * Refresh access token, sharing any refresh already in flight
+   */
+  const refreshToken = (): Promise<boolean> => refreshAuthToken();
+
+  /**
+   * Refresh access token using httpOnly refresh token.
+   * Follower tabs ask the leader tab instead of refreshing themselves.
+   */
+  const performRefresh = async (): Promise<boolean> => {
     try {
-      const response = await fetch(`${API_ENDPOINTS.auth}/refresh`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+      const shared = await sessionSync.requestRefresh(getAuthToken());
+      if (shared !== undefined) {
+        if (!shared) return false;
+        applySession(shared);
+        return true;
+      }
+
+      const tokenData = await api.post<{ access_token: string }>(`${API_ENDPOINTS.auth}/refresh`, undefined, {
         credentials: 'include',
+        skipAuth: true,
+        skipAuthRefresh: true,
       });
-
-      if (!response.ok) return false;
-
-      const tokenData = await response.json();
       const { access_token } = tokenData;
 
       // Get updated user info with new token
-      const userResponse = await fetch(`${API_ENDPOINTS.auth}/me`, {
+      const userData = await api.get<AuthUser>(`${API_ENDPOINTS.auth}/me`, {
         headers: {
           'Authorization': `Bearer ${access_token}`,
         },
         credentials: 'include',
+        skipAuthRefresh: true,
       });
 
-      if (!userResponse.ok) return false;
-
-      const userData = await userResponse.json();
-
-      // Set auth token in memory for API calls
-      setAuthToken(access_token);
-
-      // Update auth state with new token and user data
-      setAuthState({
-        user: {
-          ...userData,
-          roles: userData.roles || [],
-          permissions: userData.permissions || [],
-        },
-        isAuthenticated: true,
-        isLoading: false,
-        accessToken: access_token,
-      });
+      const session = { accessToken: access_token, user: userData };
+      applySession(session);
+      sessionSync.publishSession(session, 'refresh');
 
       return true;
     } catch (error) {
@@ -241,16 +464,34 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   /**
    * Check if user has specific permission
    */
-  const hasPermission = (permission: string): boolean => {
+  const hasPermission = (permission: Permission): boolean => {
     if (!authState.user) return false;
     if (authState.user.is_superuser) return true;
     return authState.user.permissions.includes(permission);
   };
 
+  /**
+   * Check if user has at least one of the permissions
+   */
+  const hasAnyPermission = (permissions: Permission[]): boolean =>
+    permissions.some(hasPermission);
+
+  /**
+   * Check if user has every one of the permissions
+   */
+  const hasAllPermissions = (permissions: Permission[]): boolean =>
+    permissions.every(hasPermission);
+
+  /**
+   * Check a single permission or an anyOf/allOf combination
+   */
+  const meetsRequirement = (requirement: PermissionRequirement): boolean =>
+    satisfiesPermissionRequirement(requirement, hasPermission);
+
   /**
    * Check if user has specific role
    */
-  const hasRole = (role: string): boolean => {
+  const hasRole = (role: Role): boolean => {
     if (!authState.user) return false;
     if (authState.user.is_superuser) return true;
     return authState.user.roles.includes(role);
@@ -259,10 +500,22 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const contextValue: AuthContextType = {
     ...authState,
     login,
+    verifyMfa,
+    completeMfaEnrollment,
     logout,
     refreshToken,
     hasPermission,
+    hasAnyPermission,
+    hasAllPermissions,
+    meetsRequirement,
     hasRole,
+    isLocked,
+    lockSession,
+    unlockSession,
+    recordActivity,
+    getLastActivityAt,
+    passwordChangeRequired: Boolean(authState.user?.password_change_required),
+    changePassword,
   };
 
   return (
@@ -286,7 +539,7 @@ export const useAuth = (): AuthContextType => {
 /**
  * Hook for protected components
  */
-export const useRequireAuth = (requiredPermission?: string, requiredRole?: string) => {
+export const useRequireAuth = (requiredPermission?: PermissionRequirement, requiredRole?: Role) => {
   const auth = useAuth();
 
   useEffect(() => {
@@ -299,7 +552,7 @@ export const useRequireAuth = (requiredPermission?: string, requiredRole?: strin
   // Check permissions/roles
   const hasAccess = React.useMemo(() => {
     if (!auth.isAuthenticated) return false;
-    if (requiredPermission && !auth.hasPermission(requiredPermission)) return false;
+    if (requiredPermission && !auth.meetsRequirement(requiredPermission)) return false;
     if (requiredRole && !auth.hasRole(requiredRole)) return false;
     return true;
   }, [auth, requiredPermission, requiredRole]);
@@ -308,4 +561,40 @@ export const useRequireAuth = (requiredPermission?: string, requiredRole?: strin
     ...auth,
     hasAccess,
   };
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Hook for permission-aware UI: whether the current user meets a permission
+ * and/or role requirement, and if not, a reason suitable for a tooltip
+ */
+export const usePermission = (requiredPermission?: PermissionRequirement, requiredRole?: Role) => {
+  const { meetsRequirement, hasRole } = useAuth();
+
+  if (requiredPermission && !meetsRequirement(requiredPermission)) {
+    return {
+      allowed: false,
+      reason: `Requires permission: ${describePermissionRequirement(requiredPermission)}`,
+    };
+  }
+  if (requiredRole && !hasRole(requiredRole)) {
+    return { allowed: false, reason: `Requires role: ${requiredRole}` };
+  }
+  return { allowed: true, reason: null };
+};
+
+/**
+ * Hook for the current user's geographic data scope (see config/dataScope)
+ */
+export const useDataScope = () => {
+  const { user } = useAuth();
+  const scope = useMemo(() => getDataScope(user), [user]);
+
+  return useMemo(() => ({
+    scope,
+    isRestricted: scope.provinceCodes !== null,
+    defaultProvinceCode: getDefaultProvinceCode(scope),
+    isProvinceAllowed: (provinceCode?: string | null) => isProvinceInScope(scope, provinceCode),
+    isUserGroupAllowed: (userGroup: { user_group_code: string; province_code: string }) =>
+      isUserGroupInScope(scope, userGroup),
+  }), [scope]);
+};
@@ -1,14 +1,10 @@
 import React from 'react';
-import { Outlet, Link, useLocation } from 'react-router-dom';
+import { Outlet, Link } from 'react-router-dom';
 import {
   AppBar,
   Box,
   Drawer,
-  List,
-  ListItem,
-  ListItemButton,
   ListItemIcon,
-  ListItemText,
   Toolbar,
   Typography,
   CssBaseline,
@@ -18,63 +14,29 @@ import {
   Chip
 } from '@mui/material';
 import {
-  Dashboard,
-  People,
-  Search,
-  PersonAdd,
-  AdminPanelSettings,
-  ExpandLess,
-  ExpandMore,
   AccountCircle,
   Logout,
-  Settings,
-  LocationCity,
-  ManageAccounts
+  Settings
 } from '@mui/icons-material';
-import { useState } from 'react';
-import { Collapse, List as MuiList } from '@mui/material';
+import { useState, useMemo } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import SessionLockGuard from '../components/SessionLockGuard';
+import NavigationMenu from '../components/NavigationMenu';
+import { dashboardRoutes, buildNavigationItems, AppRouteDefinition } from '../config/routes';
 
 const drawerWidth = 240;
 
-const navigationItems = [
-  { text: 'Dashboard', path: '/dashboard', icon: <Dashboard /> },
-  { 
-    text: 'Persons', 
-    icon: <People />, 
-    subItems: [
-      { text: 'Manage Person', path: '/dashboard/persons/manage', icon: <PersonAdd /> },
-      { text: 'Search & Browse', path: '/dashboard/persons/search', icon: <Search /> },
-    ]
-  },
-  { 
-    text: 'Administration', 
-    icon: <AdminPanelSettings />, 
-    subItems: [
-      { text: 'Countries', path: '/dashboard/admin/countries', icon: <Settings /> },
-      { text: 'User Management', path: '/dashboard/admin/users', icon: <ManageAccounts /> },
-      { text: 'Location Dashboard', path: '/dashboard/admin/locations', icon: <LocationCity /> },
-      { text: 'User Groups', path: '/dashboard/admin/user-groups', icon: <AdminPanelSettings /> },
-      { text: 'Locations', path: '/dashboard/admin/locations-management', icon: <LocationCity /> },
-      { text: 'Staff Management', path: '/dashboard/admin/staff-management', icon: <ManageAccounts /> },
-    ]
-  },
-];
-
 const DashboardLayout: React.FC = () => {
-  const location = useLocation();
-  const [personsOpen, setPersonsOpen] = useState(false);
-  const [adminOpen, setAdminOpen] = useState(false);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
-  const { user, logout } = useAuth();
+  const { user, logout, meetsRequirement, hasRole } = useAuth();
 
-  const handlePersonsClick = () => {
-    setPersonsOpen(!personsOpen);
-  };
-
-  const handleAdminClick = () => {
-    setAdminOpen(!adminOpen);
-  };
+  // Only show menu entries the user can actually open
+  const navigationItems = useMemo(() => {
+    const canAccess = (route: AppRouteDefinition) =>
+      (!route.permission || meetsRequirement(route.permission)) &&
+      (!route.role || hasRole(route.role));
+    return buildNavigationItems(dashboardRoutes, canAccess);
+  }, [user]);
 
   const handleUserMenuClick = (event: React.MouseEvent<HTMLElement>) => {
     setAnchorEl(event.currentTarget);
@@ -136,11 +98,11 @@ const DashboardLayout: React.FC = () => {
               horizontal: 'right',
             }}
           >
-            <MenuItem onClick={handleUserMenuClose}>
+            <MenuItem component={Link} to="/dashboard/profile" onClick={handleUserMenuClose}>
               <ListItemIcon>
                 <Settings fontSize="small" />
               </ListItemIcon>
-              Settings
+              Profile & Security
             </MenuItem>
             <MenuItem onClick={handleLogout}>
               <ListItemIcon>
@@ -171,57 +133,7 @@ const DashboardLayout: React.FC = () => {
           </Typography>
         </Toolbar>
         
-        <List>
-          {navigationItems.map((item) => (
-            <div key={item.text}>
-              {item.subItems ? (
-                <>
-                  <ListItem disablePadding>
-                    <ListItemButton onClick={item.text === 'Persons' ? handlePersonsClick : handleAdminClick}>
-                      <ListItemIcon>
-                        {item.icon}
-                      </ListItemIcon>
-                      <ListItemText primary={item.text} />
-                      {(item.text === 'Persons' ? personsOpen : adminOpen) ? <ExpandLess /> : <ExpandMore />}
-                    </ListItemButton>
-                  </ListItem>
-                  <Collapse in={item.text === 'Persons' ? personsOpen : adminOpen} timeout="auto" unmountOnExit>
-                    <MuiList component="div" disablePadding>
-                      {item.subItems.map((subItem) => (
-                        <ListItem key={subItem.text} disablePadding>
-                          <ListItemButton
-                            component={Link}
-                            to={subItem.path}
-                            selected={location.pathname === subItem.path}
-                            sx={{ pl: 4 }}
-                          >
-                            <ListItemIcon>
-                              {subItem.icon}
-                            </ListItemIcon>
-                            <ListItemText primary={subItem.text} />
-                          </ListItemButton>
-                        </ListItem>
-                      ))}
-                    </MuiList>
-                  </Collapse>
-                </>
-              ) : (
-                <ListItem disablePadding>
-                  <ListItemButton
-                    component={Link}
-                    to={item.path}
-                    selected={location.pathname === item.path}
-                  >
-                    <ListItemIcon>
-                      {item.icon}
-                    </ListItemIcon>
-                    <ListItemText primary={item.text} />
-                  </ListItemButton>
-                </ListItem>
-              )}
-            </div>
-          ))}
-        </List>
+        <NavigationMenu items={navigationItems} />
       </Drawer>
 
       {/* Main content */}
@@ -237,6 +149,9 @@ const DashboardLayout: React.FC = () => {
         <Toolbar />
         <Outlet />
       </Box>
+
+      {/* Inactivity lock for shared terminals */}
+      <SessionLockGuard />
     </Box>
   );
 };
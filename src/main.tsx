@@ -6,6 +6,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { Toaster } from 'react-hot-toast'
 
 import App from './App'
+import { isApiError } from './config/api'
 import { theme } from './config/theme'
 import './index.css'
 
@@ -14,9 +15,9 @@ const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 5 * 60 * 1000, // 5 minutes
-      retry: (failureCount, error: any) => {
+      retry: (failureCount, error) => {
         // Don't retry on 4xx errors
-        if (error?.response?.status >= 400 && error?.response?.status < 500) {
+        if (isApiError(error) && error.status >= 400 && error.status < 500) {
           return false;
         }
         return failureCount < 3;
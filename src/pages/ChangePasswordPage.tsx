@@ -0,0 +1,246 @@
+/**
+ * Change Password Page for LINC Frontend
+ * Self-service password change, and the forced change after first login or
+ * an admin reset (in which case the rest of the app is unavailable until done)
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Paper,
+  TextField,
+  Button,
+  Typography,
+  Alert,
+  Container,
+  InputAdornment,
+  IconButton,
+  CircularProgress
+} from '@mui/material';
+import {
+  Visibility,
+  VisibilityOff,
+  LockReset
+} from '@mui/icons-material';
+import { useForm, Controller } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import toast from 'react-hot-toast';
+import { useNavigate, useLocation, Navigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage, isApiError } from '../config/api';
+import { DEFAULT_PASSWORD_POLICY, createPasswordSchema } from '../config/passwordPolicy';
+import { passwordService } from '../services/passwordService';
+import { PasswordPolicy } from '../types/auth';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
+
+interface ChangePasswordForm {
+  current_password: string;
+  new_password: string;
+  confirm_password: string;
+}
+
+const ChangePasswordPage = () => {
+  const { user, passwordChangeRequired, changePassword, logout } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const from = (location.state as any)?.from?.pathname || '/dashboard';
+
+  useEffect(() => {
+    passwordService.getPolicy().then(setPolicy);
+  }, []);
+
+  const schema = useMemo(() => yup.object({
+    current_password: yup.string().required('Current password is required'),
+    new_password: createPasswordSchema(policy, { username: user?.username })
+      .notOneOf([yup.ref('current_password')], 'New password must be different from the current password'),
+    confirm_password: yup.string()
+      .oneOf([yup.ref('new_password')], 'Passwords must match')
+      .required('Please confirm the new password'),
+  }), [policy, user?.username]);
+
+  const {
+    control,
+    handleSubmit,
+    watch,
+    setError,
+    formState: { errors, isSubmitting }
+  } = useForm<ChangePasswordForm>({
+    resolver: yupResolver(schema),
+    mode: 'onChange',
+    defaultValues: {
+      current_password: '',
+      new_password: '',
+      confirm_password: ''
+    }
+  });
+
+  const newPassword = watch('new_password');
+
+  const onSubmit = async (data: ChangePasswordForm) => {
+    setSubmitError(null);
+
+    try {
+      await changePassword(data.current_password, data.new_password);
+      toast.success('Password changed successfully');
+      navigate(passwordChangeRequired ? from : '/dashboard/profile', { replace: true });
+    } catch (error) {
+      if (isApiError(error) && error.isValidationError) {
+        // e.g. incorrect current password or a reused password (history check)
+        const fieldErrors = error.getFieldErrorMap();
+        Object.entries(fieldErrors).forEach(([field, message]) => {
+          if (field === 'current_password' || field === 'new_password') {
+            setError(field, { type: 'server', message });
+          }
+        });
+        if (Object.keys(fieldErrors).length > 0) return;
+      }
+      setSubmitError(getErrorMessage(error, 'Failed to change password'));
+    }
+  };
+
+  const passwordAdornment = (
+    <InputAdornment position="end">
+      <IconButton onClick={() => setShowPasswords(!showPasswords)} edge="end" aria-label="toggle password visibility">
+        {showPasswords ? <VisibilityOff /> : <Visibility />}
+      </IconButton>
+    </InputAdornment>
+  );
+
+  const form = (
+    <Paper sx={{ p: 4 }} elevation={passwordChangeRequired ? 24 : 1}>
+      <Box sx={{ textAlign: 'center', mb: 3 }}>
+        <LockReset sx={{ fontSize: 48, color: 'primary.main', mb: 1 }} />
+        <Typography variant="h5" sx={{ fontWeight: 600 }}>
+          {passwordChangeRequired ? 'Set a New Password' : 'Change Password'}
+        </Typography>
+        {passwordChangeRequired && (
+          <Typography variant="body2" color="text.secondary">
+            Your password must be changed before you can continue.
+          </Typography>
+        )}
+      </Box>
+
+      {submitError && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setSubmitError(null)}>
+          {submitError}
+        </Alert>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+          <Controller
+            name="current_password"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                fullWidth
+                autoFocus
+                label={passwordChangeRequired ? 'Current (temporary) password' : 'Current password'}
+                type={showPasswords ? 'text' : 'password'}
+                autoComplete="current-password"
+                error={!!errors.current_password}
+                helperText={errors.current_password?.message}
+                disabled={isSubmitting}
+                InputProps={{ endAdornment: passwordAdornment }}
+              />
+            )}
+          />
+
+          <Box>
+            <Controller
+              name="new_password"
+              control={control}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  fullWidth
+                  label="New password"
+                  type={showPasswords ? 'text' : 'password'}
+                  autoComplete="new-password"
+                  error={!!errors.new_password}
+                  helperText={errors.new_password?.message}
+                  disabled={isSubmitting}
+                />
+              )}
+            />
+            <PasswordStrengthMeter password={newPassword} policy={policy} username={user?.username} />
+          </Box>
+
+          <Controller
+            name="confirm_password"
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                fullWidth
+                label="Confirm new password"
+                type={showPasswords ? 'text' : 'password'}
+                autoComplete="new-password"
+                error={!!errors.confirm_password}
+                helperText={errors.confirm_password?.message}
+                disabled={isSubmitting}
+              />
+            )}
+          />
+
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 2 }}>
+            {passwordChangeRequired ? (
+              <Button color="inherit" onClick={() => logout()} disabled={isSubmitting}>
+                Sign Out
+              </Button>
+            ) : (
+              <Button onClick={() => navigate(-1)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            )}
+            <Button
+              type="submit"
+              variant="contained"
+              disabled={isSubmitting}
+              startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+            >
+              Change Password
+            </Button>
+          </Box>
+        </Box>
+      </form>
+    </Paper>
+  );
+
+  // The standalone route is only for forced changes
+  if (!passwordChangeRequired && location.pathname === '/change-password') {
+    return <Navigate to="/dashboard/change-password" replace />;
+  }
+
+  // Forced change is shown full-screen, outside the dashboard
+  if (passwordChangeRequired) {
+    return (
+      <Box
+        sx={{
+          minHeight: '100vh',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+          p: 2
+        }}
+      >
+        <Container maxWidth="sm">{form}</Container>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ maxWidth: 560, mx: 'auto' }}>
+      {form}
+    </Box>
+  );
+};
+
+export default ChangePasswordPage;
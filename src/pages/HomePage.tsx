@@ -6,7 +6,9 @@ import {
   Grid,
   Chip
 } from '@mui/material';
-
+import Can from '../components/Can';
+import ExpiringDocumentsWidget from '../components/ExpiringDocumentsWidget';
+import { PERMISSIONS } from '../config/permissions';
 
 const HomePage = () => {
   return (
@@ -55,6 +57,13 @@ const HomePage = () => {
           </Card>
         </Grid>
 
+        {/* ID documents needing attention */}
+        <Can permission={PERMISSIONS.PERSON_READ}>
+          <Grid item xs={12}>
+            <ExpiringDocumentsWidget />
+          </Grid>
+        </Can>
+
         {/* System Information */}
         <Grid item xs={12}>
           <Card>
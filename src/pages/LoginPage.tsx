@@ -1,9 +1,10 @@
 /**
  * Login Page for LINC Frontend
  * Secure authentication with cross-domain support
+ * Includes the MFA step (code entry or first-time enrolment) when required
  */
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import {
   Box,
   Paper,
@@ -30,6 +31,9 @@ import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { MfaChallenge, MfaMethod } from '../types/auth';
+import MfaChallengeForm from '../components/MfaChallengeForm';
+import MfaEnrollmentPanel from '../components/MfaEnrollmentPanel';
 
 // Form validation schema
 const loginSchema = yup.object({
@@ -49,21 +53,38 @@ interface LoginForm {
   password: string;
 }
 
+type LoginStep = 'credentials' | 'mfa' | 'mfa_enrollment';
+
 const LoginPage = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [loginError, setLoginError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [step, setStep] = useState<LoginStep>('credentials');
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
 
-  const { login } = useAuth();
+  const { login, verifyMfa, completeMfaEnrollment, isAuthenticated } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
 
-  // Get redirect path from location state or default to dashboard
-  const from = (location.state as any)?.from?.pathname || '/dashboard';
+  // Get redirect path (including query and hash) from location state or default to dashboard
+  const fromLocation = (location.state as any)?.from;
+  const from = fromLocation?.pathname
+    ? `${fromLocation.pathname}${fromLocation.search || ''}${fromLocation.hash || ''}`
+    : '/dashboard';
+  const sessionExpired = Boolean((location.state as any)?.sessionExpired);
+
+  // Continue when a sign-in in another tab restores the session
+  useEffect(() => {
+    if (isAuthenticated && !isLoading && step === 'credentials') {
+      navigate(from, { replace: true });
+    }
+  }, [isAuthenticated]);
 
   const {
     control,
     handleSubmit,
+    getValues,
+    resetField,
     formState: { errors, isValid }
   } = useForm<LoginForm>({
     resolver: yupResolver(loginSchema),
@@ -79,11 +100,15 @@ const LoginPage = () => {
     setLoginError(null);
 
     try {
-      const success = await login(data);
-      
-      if (success) {
+      const result = await login(data);
+
+      if (result.status === 'authenticated') {
         // Redirect to intended page or dashboard
         navigate(from, { replace: true });
+      } else {
+        // Second factor required before the session is created
+        setMfaChallenge(result.challenge);
+        setStep(result.status === 'mfa_required' ? 'mfa' : 'mfa_enrollment');
       }
     } catch (error: any) {
       console.error('Login failed:', error);
@@ -96,6 +121,21 @@ const LoginPage = () => {
     }
   };
 
+  const handleMfaSubmit = async (code: string, method: MfaMethod) => {
+    if (!mfaChallenge) return;
+    await verifyMfa(mfaChallenge.mfa_token, code, method);
+    navigate(from, { replace: true });
+  };
+
+  const handleEnrollmentVerify = (deviceId: string, code: string) =>
+    completeMfaEnrollment(mfaChallenge!.mfa_token, deviceId, code);
+
+  const handleBackToCredentials = () => {
+    setMfaChallenge(null);
+    setStep('credentials');
+    resetField('password');
+  };
+
   const togglePasswordVisibility = () => {
     setShowPassword(!showPassword);
   };
@@ -148,6 +188,13 @@ const LoginPage = () => {
 
           <Divider sx={{ mb: 3 }} />
 
+          {/* Session Expired Notice */}
+          {sessionExpired && !loginError && (
+            <Alert severity="warning" sx={{ mb: 3 }}>
+              Your session has expired. Please sign in again to continue where you left off.
+            </Alert>
+          )}
+
           {/* Error Alert */}
           {loginError && (
             <Alert 
@@ -159,98 +206,125 @@ const LoginPage = () => {
             </Alert>
           )}
 
-          {/* Login Form */}
-          <form onSubmit={handleSubmit(onSubmit)}>
-            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
-              {/* Username Field */}
-              <Controller
-                name="username"
-                control={control}
-                render={({ field }) => (
-                  <TextField
-                    {...field}
-                    fullWidth
-                    label="Username"
-                    variant="outlined"
-                    error={!!errors.username}
-                    helperText={errors.username?.message}
-                    disabled={isLoading}
-                    autoComplete="username"
-                    autoFocus
-                    sx={{
-                      '& .MuiOutlinedInput-root': {
-                        borderRadius: 2
-                      }
-                    }}
-                  />
-                )}
-              />
+          {/* MFA Code Entry */}
+          {step === 'mfa' && mfaChallenge && (
+            <MfaChallengeForm
+              methods={mfaChallenge.methods}
+              onSubmit={handleMfaSubmit}
+              onCancel={handleBackToCredentials}
+            />
+          )}
 
-              {/* Password Field */}
-              <Controller
-                name="password"
-                control={control}
-                render={({ field }) => (
-                  <TextField
-                    {...field}
-                    fullWidth
-                    label="Password"
-                    type={showPassword ? 'text' : 'password'}
-                    variant="outlined"
-                    error={!!errors.password}
-                    helperText={errors.password?.message}
-                    disabled={isLoading}
-                    autoComplete="current-password"
-                    sx={{
-                      '& .MuiOutlinedInput-root': {
-                        borderRadius: 2
-                      }
-                    }}
-                    InputProps={{
-                      endAdornment: (
-                        <InputAdornment position="end">
-                          <IconButton
-                            onClick={togglePasswordVisibility}
-                            edge="end"
-                            disabled={isLoading}
-                            aria-label="toggle password visibility"
-                          >
-                            {showPassword ? <VisibilityOff /> : <Visibility />}
-                          </IconButton>
-                        </InputAdornment>
-                      )
-                    }}
-                  />
-                )}
+          {/* First-time MFA Enrolment */}
+          {step === 'mfa_enrollment' && mfaChallenge && (
+            <>
+              <Alert severity="info" sx={{ mb: 3 }}>
+                Your account requires two-factor authentication. Set up an authenticator app to continue.
+              </Alert>
+              <MfaEnrollmentPanel
+                mfaToken={mfaChallenge.mfa_token}
+                username={getValues('username')}
+                onVerify={handleEnrollmentVerify}
+                onComplete={() => navigate(from, { replace: true })}
+                onCancel={handleBackToCredentials}
               />
+            </>
+          )}
 
-              {/* Login Button */}
-              <Button
-                type="submit"
-                fullWidth
-                variant="contained"
-                size="large"
-                disabled={!isValid || isLoading}
-                startIcon={
-                  isLoading ? (
-                    <CircularProgress size={20} color="inherit" />
-                  ) : (
-                    <LoginIcon />
-                  )
-                }
-                sx={{
-                  mt: 2,
-                  py: 1.5,
-                  borderRadius: 2,
-                  textTransform: 'none',
-                  fontSize: '1.1rem',
-                  fontWeight: 600
-                }}
-              >
-                {isLoading ? 'Signing in...' : 'Sign In'}
-              </Button>
-            </Box>
-          </form>
+          {/* Login Form */}
+          {step === 'credentials' && (
+            <form onSubmit={handleSubmit(onSubmit)}>
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+                {/* Username Field */}
+                <Controller
+                  name="username"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      fullWidth
+                      label="Username"
+                      variant="outlined"
+                      error={!!errors.username}
+                      helperText={errors.username?.message}
+                      disabled={isLoading}
+                      autoComplete="username"
+                      autoFocus
+                      sx={{
+                        '& .MuiOutlinedInput-root': {
+                          borderRadius: 2
+                        }
+                      }}
+                    />
+                  )}
+                />
+
+                {/* Password Field */}
+                <Controller
+                  name="password"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      fullWidth
+                      label="Password"
+                      type={showPassword ? 'text' : 'password'}
+                      variant="outlined"
+                      error={!!errors.password}
+                      helperText={errors.password?.message}
+                      disabled={isLoading}
+                      autoComplete="current-password"
+                      sx={{
+                        '& .MuiOutlinedInput-root': {
+                          borderRadius: 2
+                        }
+                      }}
+                      InputProps={{
+                        endAdornment: (
+                          <InputAdornment position="end">
+                            <IconButton
+                              onClick={togglePasswordVisibility}
+                              edge="end"
+                              disabled={isLoading}
+                              aria-label="toggle password visibility"
+                            >
+                              {showPassword ? <VisibilityOff /> : <Visibility />}
+                            </IconButton>
+                          </InputAdornment>
+                        )
+                      }}
+                    />
+                  )}
+                />
+
+                {/* Login Button */}
+                <Button
+                  type="submit"
+                  fullWidth
+                  variant="contained"
+                  size="large"
+                  disabled={!isValid || isLoading}
+                  startIcon={
+                    isLoading ? (
+                      <CircularProgress size={20} color="inherit" />
+                    ) : (
+                      <LoginIcon />
+                    )
+                  }
+                  sx={{
+                    mt: 2,
+                    py: 1.5,
+                    borderRadius: 2,
+                    textTransform: 'none',
+                    fontSize: '1.1rem',
+                    fontWeight: 600
+                  }}
+                >
+                  {isLoading ? 'Signing in...' : 'Sign In'}
+                </Button>
+              </Box>
+            </form>
+          )}
 
           {/* Security Info */}
           <Card 
@@ -0,0 +1,315 @@
+/**
+ * Profile Page for LINC Frontend
+ * Account details and two-factor authentication device management
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  Divider,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  ListItemSecondaryAction,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  CircularProgress,
+  Grid
+} from '@mui/material';
+import {
+  Security,
+  PhoneAndroid,
+  Delete,
+  Add,
+  Refresh,
+  Person,
+  LockReset
+} from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { Link as RouterLink } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage } from '../config/api';
+import { mfaService } from '../services/mfaService';
+import { MfaDevice, MfaStatus } from '../types/auth';
+import MfaEnrollmentPanel from '../components/MfaEnrollmentPanel';
+import BackupCodesDisplay from '../components/BackupCodesDisplay';
+
+const ProfilePage = () => {
+  const { user } = useAuth();
+  const [mfaStatus, setMfaStatus] = useState<MfaStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [enrollOpen, setEnrollOpen] = useState(false);
+  const [deviceToRemove, setDeviceToRemove] = useState<MfaDevice | null>(null);
+  const [removing, setRemoving] = useState(false);
+  const [regenerating, setRegenerating] = useState(false);
+  const [newBackupCodes, setNewBackupCodes] = useState<string[] | null>(null);
+
+  const loadMfaStatus = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const status = await mfaService.getStatus();
+      setMfaStatus(status);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load two-factor authentication settings'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadMfaStatus();
+  }, []);
+
+  const handleEnrollVerify = async (deviceId: string, code: string) => {
+    const result = await mfaService.verifyEnrollment({ device_id: deviceId, code });
+    return result.backup_codes;
+  };
+
+  const handleEnrollComplete = () => {
+    setEnrollOpen(false);
+    toast.success('Authenticator app added');
+    loadMfaStatus();
+  };
+
+  const handleRemoveDevice = async () => {
+    if (!deviceToRemove) return;
+
+    try {
+      setRemoving(true);
+      await mfaService.removeDevice(deviceToRemove.id);
+      toast.success(`Removed ${deviceToRemove.name}`);
+      setDeviceToRemove(null);
+      loadMfaStatus();
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Failed to remove device'));
+    } finally {
+      setRemoving(false);
+    }
+  };
+
+  const handleRegenerateBackupCodes = async () => {
+    try {
+      setRegenerating(true);
+      const result = await mfaService.regenerateBackupCodes();
+      setNewBackupCodes(result.backup_codes);
+      loadMfaStatus();
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Failed to generate backup codes'));
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  const devices = mfaStatus?.devices || [];
+  // The last device cannot be removed while MFA is mandatory for this account
+  const canRemoveDevices = !mfaStatus?.required || devices.length > 1;
+
+  return (
+    <Box>
+      <Typography variant="h4" gutterBottom>
+        My Profile
+      </Typography>
+
+      <Grid container spacing={3}>
+        {/* Account Details */}
+        <Grid item xs={12} md={5}>
+          <Paper sx={{ p: 3 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+              <Person color="primary" />
+              <Typography variant="h6">Account</Typography>
+            </Box>
+            <Divider sx={{ mb: 2 }} />
+            <Typography variant="body2" color="text.secondary">Username</Typography>
+            <Typography variant="body1" gutterBottom>{user?.username}</Typography>
+            {(user?.first_name || user?.last_name) && (
+              <>
+                <Typography variant="body2" color="text.secondary">Name</Typography>
+                <Typography variant="body1" gutterBottom>
+                  {[user?.first_name, user?.last_name].filter(Boolean).join(' ')}
+                </Typography>
+              </>
+            )}
+            {user?.email && (
+              <>
+                <Typography variant="body2" color="text.secondary">Email</Typography>
+                <Typography variant="body1" gutterBottom>{user.email}</Typography>
+              </>
+            )}
+            <Typography variant="body2" color="text.secondary">Roles</Typography>
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 0.5 }}>
+              {user?.roles.length ? (
+                user.roles.map(role => <Chip key={role} label={role} size="small" />)
+              ) : (
+                <Typography variant="body2">None</Typography>
+              )}
+            </Box>
+            <Button
+              component={RouterLink}
+              to="/dashboard/change-password"
+              variant="outlined"
+              startIcon={<LockReset />}
+              sx={{ mt: 3 }}
+            >
+              Change Password
+            </Button>
+          </Paper>
+        </Grid>
+
+        {/* Two-Factor Authentication */}
+        <Grid item xs={12} md={7}>
+          <Paper sx={{ p: 3 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Security color="primary" />
+                <Typography variant="h6">Two-Factor Authentication</Typography>
+                {mfaStatus && (
+                  <Chip
+                    label={mfaStatus.enabled ? 'Enabled' : 'Disabled'}
+                    color={mfaStatus.enabled ? 'success' : 'default'}
+                    size="small"
+                  />
+                )}
+              </Box>
+              <Button
+                variant="contained"
+                size="small"
+                startIcon={<Add />}
+                onClick={() => setEnrollOpen(true)}
+                disabled={loading}
+              >
+                Add Authenticator
+              </Button>
+            </Box>
+            <Divider sx={{ mb: 2 }} />
+
+            {loading ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+                <CircularProgress />
+              </Box>
+            ) : error ? (
+              <Alert severity="error" action={<Button onClick={loadMfaStatus}>Retry</Button>}>
+                {error}
+              </Alert>
+            ) : (
+              <>
+                {mfaStatus?.required && !mfaStatus.enabled && (
+                  <Alert severity="warning" sx={{ mb: 2 }}>
+                    Two-factor authentication is required for your account. Add an authenticator app now.
+                  </Alert>
+                )}
+
+                {devices.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    No authenticator apps registered.
+                  </Typography>
+                ) : (
+                  <List disablePadding>
+                    {devices.map(device => (
+                      <ListItem key={device.id} divider>
+                        <ListItemIcon>
+                          <PhoneAndroid />
+                        </ListItemIcon>
+                        <ListItemText
+                          primary={device.name}
+                          secondary={
+                            `Added ${new Date(device.created_at).toLocaleDateString()}` +
+                            (device.last_used_at ? ` · Last used ${new Date(device.last_used_at).toLocaleString()}` : '')
+                          }
+                        />
+                        <ListItemSecondaryAction>
+                          <IconButton
+                            edge="end"
+                            onClick={() => setDeviceToRemove(device)}
+                            disabled={!canRemoveDevices}
+                            title={canRemoveDevices ? 'Remove device' : 'At least one device is required'}
+                          >
+                            <Delete />
+                          </IconButton>
+                        </ListItemSecondaryAction>
+                      </ListItem>
+                    ))}
+                  </List>
+                )}
+
+                {mfaStatus?.enabled && (
+                  <Box sx={{ mt: 3, display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                    <Box>
+                      <Typography variant="subtitle2">Backup codes</Typography>
+                      <Typography variant="body2" color={mfaStatus.backup_codes_remaining < 3 ? 'error' : 'text.secondary'}>
+                        {mfaStatus.backup_codes_remaining} unused code{mfaStatus.backup_codes_remaining === 1 ? '' : 's'} remaining
+                      </Typography>
+                    </Box>
+                    <Button
+                      size="small"
+                      startIcon={regenerating ? <CircularProgress size={16} /> : <Refresh />}
+                      onClick={handleRegenerateBackupCodes}
+                      disabled={regenerating}
+                    >
+                      Generate New Codes
+                    </Button>
+                  </Box>
+                )}
+              </>
+            )}
+          </Paper>
+        </Grid>
+      </Grid>
+
+      {/* Enrol Device Dialog */}
+      <Dialog open={enrollOpen} onClose={() => setEnrollOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Add Authenticator App</DialogTitle>
+        <DialogContent>
+          {enrollOpen && (
+            <MfaEnrollmentPanel
+              username={user?.username}
+              onVerify={handleEnrollVerify}
+              onComplete={handleEnrollComplete}
+              onCancel={() => setEnrollOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Remove Device Confirmation */}
+      <Dialog open={Boolean(deviceToRemove)} onClose={() => setDeviceToRemove(null)}>
+        <DialogTitle>Remove Authenticator</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Remove <strong>{deviceToRemove?.name}</strong>? Codes from this device will no longer be accepted.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeviceToRemove(null)} disabled={removing}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleRemoveDevice} disabled={removing}>
+            Remove
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* New Backup Codes */}
+      <Dialog open={Boolean(newBackupCodes)} onClose={() => setNewBackupCodes(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>New Backup Codes</DialogTitle>
+        <DialogContent>
+          {newBackupCodes && <BackupCodesDisplay codes={newBackupCodes} username={user?.username} />}
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" onClick={() => setNewBackupCodes(null)}>Done</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ProfilePage;
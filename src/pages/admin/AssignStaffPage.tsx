@@ -38,6 +38,7 @@ import {
   locationService, 
   userGroupService 
 } from '../../services/locationService';
+import { getErrorMessage } from '../../config/api';
 import { userService } from '../../services/userService';
 import {
   Location,
@@ -47,9 +48,11 @@ import {
   StaffAssignmentCreate
 } from '../../types/location';
 import { User, UserStatus } from '../../types/user';
+import { useDataScope } from '../../contexts/AuthContext';
 
 const AssignStaffPage: React.FC = () => {
   const navigate = useNavigate();
+  const { scope, isProvinceAllowed, isUserGroupAllowed } = useDataScope();
   const [searchParams] = useSearchParams();
   const preselectedLocationId = searchParams.get('locationId');
   
@@ -222,10 +225,16 @@ const AssignStaffPage: React.FC = () => {
       }
     } catch (error: any) {
       console.error('Error assigning staff:', error);
-      toast.error(error.response?.data?.detail || error.message || 'Failed to assign staff');
+      toast.error(getErrorMessage(error, 'Failed to assign staff'));
     }
   };
 
+  // Locations within the user's data scope
+  const scopedLocations = locations.filter((loc: Location) =>
+    isProvinceAllowed(loc.province_code) &&
+    (!scope.userGroupCode || userGroups.some((ug: UserGroup) => ug.id === loc.user_group_id && isUserGroupAllowed(ug)))
+  );
+
   // Get selected location details
   const selectedLocation = locations.find((loc: Location) => loc.id === locationId);
   const selectedUserGroup = selectedLocation ? userGroups.find((ug: UserGroup) => ug.id === selectedLocation.user_group_id) : null;
@@ -282,7 +291,7 @@ const AssignStaffPage: React.FC = () => {
                       helperText={errors.location_id?.message || 'Select the location for assignment'}
                       sx={{ backgroundColor: 'white' }}
                     >
-                      {locations.map((location) => (
+                      {scopedLocations.map((location) => (
                         <MenuItem key={location.id} value={location.id}>
                           {location.location_code} - {location.location_name}
                         </MenuItem>
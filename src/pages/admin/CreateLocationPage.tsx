@@ -23,6 +23,9 @@ import { Controller, useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
 import { locationService, userGroupService } from '../../services/locationService';
 import { userService } from '../../services/userService';
+import { isApiError, getErrorMessage } from '../../config/api';
+import lookupService from '../../config/lookupService';
+import { DEFAULT_VALIDATION_RULES, ValidationRule, createRegisterOptions } from '../../config/validation';
 import { 
   InfrastructureType, 
   OperationalStatus, 
@@ -31,6 +34,7 @@ import {
   Location 
 } from '../../types/location';
 import { User, UserStatus } from '../../types/user';
+import { useDataScope } from '../../contexts/AuthContext';
 
 // Constants
 const PROVINCES = [
@@ -45,20 +49,15 @@ const PROVINCES = [
   { code: 'WC', name: 'Western Cape' },
 ];
 
-// Validation functions
-const validatePostalCode = (value: string) => {
-  if (!value) return true; // Optional field
-  if (!/^[0-9]{4}$/.test(value)) return 'Postal code must be 4 digits';
-  return true;
-};
-
 const CreateLocationPage: React.FC = () => {
   const navigate = useNavigate();
+  const { defaultProvinceCode, isProvinceAllowed, isUserGroupAllowed } = useDataScope();
   const [userGroups, setUserGroups] = useState<UserGroup[]>([]);
   const [locations, setLocations] = useState<Location[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [loadingUsers, setLoadingUsers] = useState(false);
   const [selectedContactUser, setSelectedContactUser] = useState<User | null>(null);
+  const [validationRules, setValidationRules] = useState<ValidationRule[]>(DEFAULT_VALIDATION_RULES);
 
   // Form setup with validation
   const {
@@ -66,6 +65,7 @@ const CreateLocationPage: React.FC = () => {
     handleSubmit,
     watch,
     setValue,
+    setError,
     formState: { errors, isSubmitting }
   } = useForm({
     defaultValues: {
@@ -78,7 +78,7 @@ const CreateLocationPage: React.FC = () => {
       address_line_1: '',
       address_line_2: '',
       city: '',
-      province_code: '',
+      province_code: defaultProvinceCode,
       postal_code: '',
       contact_user_id: '',
       contact_person: '',
@@ -93,6 +93,10 @@ const CreateLocationPage: React.FC = () => {
   const userGroupId = watch('user_group_id');
   const locationName = watch('location_name');
 
+  useEffect(() => {
+    lookupService.getValidationRules().then(setValidationRules);
+  }, []);
+
   useEffect(() => {
     loadData();
     loadUsers();
@@ -276,9 +280,22 @@ const CreateLocationPage: React.FC = () => {
       // This will be implemented when integrating with staff management
       
       navigate('/dashboard/admin/locations');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error creating location:', error);
-      toast.error(error.response?.data?.detail || error.message || 'Failed to create location');
+      if (isApiError(error) && error.isConflict) {
+        setError('location_code', { type: 'server', message: error.message });
+        toast.error(`Location ${data.location_code} already exists`);
+        return;
+      }
+      if (isApiError(error) && error.isValidationError) {
+        Object.entries(error.getFieldErrorMap()).forEach(([field, message]) => {
+          const formField = field.replace(/^address\./, '');
+          if (formField in data) {
+            setError(formField as Parameters<typeof setError>[0], { type: 'server', message });
+          }
+        });
+      }
+      toast.error(getErrorMessage(error, 'Failed to create location'));
     }
   };
 
@@ -353,7 +370,7 @@ const CreateLocationPage: React.FC = () => {
                       helperText={errors.user_group_id?.message || 'Select the managing user group'}
                       sx={{ backgroundColor: 'white' }}
                     >
-                      {userGroups.map((ug) => (
+                      {userGroups.filter(isUserGroupAllowed).map((ug) => (
                         <MenuItem key={ug.id} value={ug.id}>
                           {ug.user_group_code} - {ug.user_group_name}
                         </MenuItem>
@@ -471,7 +488,7 @@ const CreateLocationPage: React.FC = () => {
                 <Controller
                   name="address_line_1"
                   control={control}
-                  rules={{ required: 'Address is required' }}
+                  rules={createRegisterOptions(validationRules, 'location.address_line_1')}
                   render={({ field }) => (
                     <TextField
                       {...field}
@@ -510,7 +527,7 @@ const CreateLocationPage: React.FC = () => {
                 <Controller
                   name="city"
                   control={control}
-                  rules={{ required: 'City is required' }}
+                  rules={createRegisterOptions(validationRules, 'location.city')}
                   render={({ field }) => (
                     <TextField
                       {...field}
@@ -541,7 +558,7 @@ const CreateLocationPage: React.FC = () => {
                       helperText={errors.province_code?.message || 'Auto-filled from User Group'}
                       sx={{ backgroundColor: 'white' }}
                     >
-                      {PROVINCES.map((province) => (
+                      {PROVINCES.filter((province) => isProvinceAllowed(province.code)).map((province) => (
                         <MenuItem key={province.code} value={province.code}>
                           {province.name} ({province.code})
                         </MenuItem>
@@ -555,7 +572,7 @@ const CreateLocationPage: React.FC = () => {
                 <Controller
                   name="postal_code"
                   control={control}
-                  rules={{ validate: validatePostalCode }}
+                  rules={createRegisterOptions(validationRules, 'location.postal_code')}
                   render={({ field }) => (
                     <TextField
                       {...field}
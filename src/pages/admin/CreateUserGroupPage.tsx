@@ -27,7 +27,9 @@ import toast from 'react-hot-toast';
 import { userGroupService } from '../../services/locationService';
 import { UserGroupType, RegistrationStatus, UserGroup } from '../../types/location';
 import { userService } from '../../services/userService';
+import { isApiError, getErrorMessage } from '../../config/api';
 import { User, UserStatus } from '../../types/user';
+import { useDataScope } from '../../contexts/AuthContext';
 
 // Constants
 const PROVINCES = [
@@ -55,6 +57,7 @@ const USER_GROUP_TYPES = [
 
 const CreateUserGroupPage: React.FC = () => {
   const navigate = useNavigate();
+  const { defaultProvinceCode, isProvinceAllowed } = useDataScope();
   const [userGroups, setUserGroups] = useState<UserGroup[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [loadingUsers, setLoadingUsers] = useState(false);
@@ -66,6 +69,7 @@ const CreateUserGroupPage: React.FC = () => {
     handleSubmit,
     watch,
     setValue,
+    setError,
     formState: { errors, isSubmitting }
   } = useForm({
     defaultValues: {
@@ -74,7 +78,7 @@ const CreateUserGroupPage: React.FC = () => {
       additional_name: '', // New field for additional naming
       user_group_type: UserGroupType.FIXED_DLTC,
       infrastructure_type_code: 10,
-      province_code: '',
+      province_code: defaultProvinceCode,
       registration_status: RegistrationStatus.REGISTERED,
       description: '',
       contact_user_id: '', // New field for selected user
@@ -271,9 +275,22 @@ const CreateUserGroupPage: React.FC = () => {
       // This will be implemented when integrating with staff management
       
       navigate('/dashboard/admin/user-groups');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error creating user group:', error);
-      toast.error(error.response?.data?.detail || error.message || 'Failed to create user group');
+      if (isApiError(error) && error.isConflict) {
+        setError('user_group_code', { type: 'server', message: error.message });
+        toast.error(`User group ${data.user_group_code} already exists`);
+        return;
+      }
+      if (isApiError(error) && error.isValidationError) {
+        Object.entries(error.getFieldErrorMap()).forEach(([field, message]) => {
+          const formField = field.replace(/^address\./, '');
+          if (formField in data) {
+            setError(formField as Parameters<typeof setError>[0], { type: 'server', message });
+          }
+        });
+      }
+      toast.error(getErrorMessage(error, 'Failed to create user group'));
     }
   };
 
@@ -344,7 +361,7 @@ const CreateUserGroupPage: React.FC = () => {
                         sx={{ backgroundColor: 'white' }}
                         error={!!errors.province_code}
                       >
-                        {PROVINCES.map((province) => (
+                        {PROVINCES.filter((province) => isProvinceAllowed(province.code)).map((province) => (
                           <MenuItem key={province.code} value={province.code}>
                             {province.name} ({province.code})
                           </MenuItem>
@@ -23,6 +23,9 @@ import {
 import { Controller, useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
 import { locationService, userGroupService } from '../../services/locationService';
+import { getErrorMessage } from '../../config/api';
+import lookupService from '../../config/lookupService';
+import { DEFAULT_VALIDATION_RULES, ValidationRule, createRegisterOptions } from '../../config/validation';
 import { userService } from '../../services/userService';
 import { 
   InfrastructureType, 
@@ -32,6 +35,7 @@ import {
   Location 
 } from '../../types/location';
 import { User, UserStatus } from '../../types/user';
+import { useDataScope } from '../../contexts/AuthContext';
 
 // Constants
 const PROVINCES = [
@@ -46,15 +50,9 @@ const PROVINCES = [
   { code: 'WC', name: 'Western Cape' },
 ];
 
-// Validation functions
-const validatePostalCode = (value: string) => {
-  if (!value) return true; // Optional field
-  if (!/^[0-9]{4}$/.test(value)) return 'Postal code must be 4 digits';
-  return true;
-};
-
 const EditLocationPage: React.FC = () => {
   const navigate = useNavigate();
+  const { isProvinceAllowed, isUserGroupAllowed } = useDataScope();
   const { locationId } = useParams<{ locationId: string }>();
   const [userGroups, setUserGroups] = useState<UserGroup[]>([]);
   const [locations, setLocations] = useState<Location[]>([]);
@@ -62,6 +60,7 @@ const EditLocationPage: React.FC = () => {
   const [loadingUsers, setLoadingUsers] = useState(false);
   const [loadingLocation, setLoadingLocation] = useState(true);
   const [selectedContactUser, setSelectedContactUser] = useState<User | null>(null);
+  const [validationRules, setValidationRules] = useState<ValidationRule[]>(DEFAULT_VALIDATION_RULES);
 
   // Form setup with validation
   const {
@@ -97,6 +96,10 @@ const EditLocationPage: React.FC = () => {
   const userGroupId = watch('user_group_id');
   const locationName = watch('location_name');
 
+  useEffect(() => {
+    lookupService.getValidationRules().then(setValidationRules);
+  }, []);
+
   useEffect(() => {
     if (locationId) {
       loadData();
@@ -341,7 +344,7 @@ const EditLocationPage: React.FC = () => {
       navigate('/dashboard/admin/locations-management');
     } catch (error: any) {
       console.error('Error updating location:', error);
-      toast.error(error.response?.data?.detail || error.message || 'Failed to update location');
+      toast.error(getErrorMessage(error, 'Failed to update location'));
     }
   };
 
@@ -424,7 +427,7 @@ const EditLocationPage: React.FC = () => {
                       helperText={errors.user_group_id?.message || 'Select the managing user group'}
                       sx={{ backgroundColor: 'white' }}
                     >
-                      {userGroups.map((ug) => (
+                      {userGroups.filter(isUserGroupAllowed).map((ug) => (
                         <MenuItem key={ug.id} value={ug.id}>
                           {ug.user_group_code} - {ug.user_group_name}
                         </MenuItem>
@@ -542,7 +545,7 @@ const EditLocationPage: React.FC = () => {
                 <Controller
                   name="address_line_1"
                   control={control}
-                  rules={{ required: 'Address is required' }}
+                  rules={createRegisterOptions(validationRules, 'location.address_line_1')}
                   render={({ field }) => (
                     <TextField
                       {...field}
@@ -581,7 +584,7 @@ const EditLocationPage: React.FC = () => {
                 <Controller
                   name="city"
                   control={control}
-                  rules={{ required: 'City is required' }}
+                  rules={createRegisterOptions(validationRules, 'location.city')}
                   render={({ field }) => (
                     <TextField
                       {...field}
@@ -612,7 +615,7 @@ const EditLocationPage: React.FC = () => {
                       helperText={errors.province_code?.message || 'Auto-filled from User Group'}
                       sx={{ backgroundColor: 'white' }}
                     >
-                      {PROVINCES.map((province) => (
+                      {PROVINCES.filter((province) => isProvinceAllowed(province.code)).map((province) => (
                         <MenuItem key={province.code} value={province.code}>
                           {province.name} ({province.code})
                         </MenuItem>
@@ -626,7 +629,7 @@ const EditLocationPage: React.FC = () => {
                 <Controller
                   name="postal_code"
                   control={control}
-                  rules={{ validate: validatePostalCode }}
+                  rules={createRegisterOptions(validationRules, 'location.postal_code')}
                   render={({ field }) => (
                     <TextField
                       {...field}
@@ -35,6 +35,7 @@ import {
   locationService, 
   userGroupService 
 } from '../../services/locationService';
+import { getErrorMessage } from '../../config/api';
 import {
   Location,
   UserGroup,
@@ -142,7 +143,7 @@ const EditStaffAssignmentPage: React.FC = () => {
       navigate('/dashboard/admin/staff-management');
     } catch (error: any) {
       console.error('Error updating assignment:', error);
-      toast.error(error.response?.data?.detail || error.message || 'Failed to update assignment');
+      toast.error(getErrorMessage(error, 'Failed to update assignment'));
     }
   };
 
@@ -25,6 +25,7 @@ import {
 import { Controller, useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
 import { userGroupService } from '../../services/locationService';
+import { getErrorMessage } from '../../config/api';
 import { userService } from '../../services/userService';
 import { 
   UserGroupType, 
@@ -32,6 +33,7 @@ import {
   UserGroup 
 } from '../../types/location';
 import { User, UserStatus } from '../../types/user';
+import { useDataScope } from '../../contexts/AuthContext';
 
 // Constants
 const PROVINCES = [
@@ -48,6 +50,7 @@ const PROVINCES = [
 
 const EditUserGroupPage: React.FC = () => {
   const navigate = useNavigate();
+  const { isProvinceAllowed } = useDataScope();
   const { userGroupId } = useParams<{ userGroupId: string }>();
   const [userGroups, setUserGroups] = useState<UserGroup[]>([]);
   const [users, setUsers] = useState<User[]>([]);
@@ -336,7 +339,7 @@ const EditUserGroupPage: React.FC = () => {
       navigate('/dashboard/admin/user-groups');
     } catch (error: any) {
       console.error('Error updating user group:', error);
-      toast.error(error.response?.data?.detail || error.message || 'Failed to update user group');
+      toast.error(getErrorMessage(error, 'Failed to update user group'));
     }
   };
 
@@ -435,7 +438,7 @@ const EditUserGroupPage: React.FC = () => {
                       helperText={errors.province_code?.message || 'Select the province this group operates in'}
                       sx={{ backgroundColor: 'white' }}
                     >
-                      {PROVINCES.map((province) => (
+                      {PROVINCES.filter((province) => isProvinceAllowed(province.code)).map((province) => (
                         <MenuItem key={province.code} value={province.code}>
                           {province.name} ({province.code})
                         </MenuItem>
@@ -37,6 +37,8 @@ import {
   LocationStatistics,
   UserGroupStatistics
 } from '../../types/location';
+import { PermissionButton } from '../../components/PermissionButton';
+import { PERMISSIONS } from '../../config/permissions';
 
 // Dashboard navigation items
 const DASHBOARD_ITEMS = [
@@ -267,34 +269,37 @@ const LocationManagementPage: React.FC = () => {
           </Typography>
           <Grid container spacing={2}>
             <Grid item xs={12} sm={6} md={3}>
-              <Button
+              <PermissionButton
+                permission={PERMISSIONS.USER_GROUP_CREATE}
                 fullWidth
                 variant="outlined"
                 startIcon={<GroupIcon />}
                 onClick={() => navigate('/dashboard/admin/user-groups/create')}
               >
                 Create User Group
-              </Button>
+              </PermissionButton>
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
-              <Button
+              <PermissionButton
+                permission={PERMISSIONS.LOCATION_CREATE}
                 fullWidth
                 variant="outlined"
                 startIcon={<LocationCityIcon />}
                 onClick={() => navigate('/dashboard/admin/locations-management/create')}
               >
                 Add Location
-              </Button>
+              </PermissionButton>
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
-              <Button
+              <PermissionButton
+                permission={PERMISSIONS.ASSIGNMENT_READ}
                 fullWidth
                 variant="outlined"
                 startIcon={<AssignmentIcon />}
                 onClick={() => navigate('/dashboard/admin/staff-management')}
               >
                 Assign Staff
-              </Button>
+              </PermissionButton>
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
               <Button
@@ -54,6 +54,10 @@ import {
   OperationalStatus,
   LocationStatistics
 } from '../../types/location';
+import Can from '../../components/Can';
+import { PermissionButton, PermissionIconButton } from '../../components/PermissionButton';
+import { PERMISSIONS } from '../../config/permissions';
+import { useDataScope } from '../../contexts/AuthContext';
 
 // Province mapping for display
 const PROVINCES = {
@@ -80,6 +84,7 @@ const OPERATIONAL_STATUS_COLORS = {
 
 const LocationsPage: React.FC = () => {
   const navigate = useNavigate();
+  const { scope, isRestricted, defaultProvinceCode, isProvinceAllowed, isUserGroupAllowed } = useDataScope();
   
   // State management
   const [locations, setLocations] = useState<Location[]>([]);
@@ -89,7 +94,7 @@ const LocationsPage: React.FC = () => {
   
   // Search and filters
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedProvince, setSelectedProvince] = useState('');
+  const [selectedProvince, setSelectedProvince] = useState(defaultProvinceCode);
   const [selectedUserGroup, setSelectedUserGroup] = useState('');
   const [selectedStatus, setSelectedStatus] = useState('');
 
@@ -145,8 +150,31 @@ const LocationsPage: React.FC = () => {
     }
   };
 
+  // Limit to the user's data scope
+  const scopedUserGroups = userGroups.filter(isUserGroupAllowed);
+  const scopedLocations = locations.filter(loc =>
+    isProvinceAllowed(loc.province_code) &&
+    (!scope.userGroupCode || scopedUserGroups.some(ug => ug.id === loc.user_group_id))
+  );
+
+  // The statistics endpoint is national, so a narrower scope counts its own locations
+  const isScoped = isRestricted || !!scope.userGroupCode;
+  const locationCounts = isScoped
+    ? {
+        total: scopedLocations.length,
+        operational: scopedLocations.filter(loc => loc.operational_status === 'operational').length,
+        provinces: new Set(scopedLocations.map(loc => loc.province_code)).size,
+        capacity: scopedLocations.reduce((sum, loc) => sum + (loc.daily_capacity || 0), 0),
+      }
+    : {
+        total: statistics?.total_locations || scopedLocations.length,
+        operational: statistics?.active_count || scopedLocations.filter(loc => loc.operational_status === 'operational').length,
+        provinces: Object.keys(statistics?.by_province || {}).length || Object.keys(PROVINCES).length,
+        capacity: statistics?.total_capacity || 0,
+      };
+
   // Filter data
-  const filteredLocations = locations.filter(loc => {
+  const filteredLocations = scopedLocations.filter(loc => {
     const matchesSearch = !searchTerm || 
       loc.location_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       loc.location_code?.toLowerCase().includes(searchTerm.toLowerCase());
@@ -179,13 +207,14 @@ const LocationsPage: React.FC = () => {
               <RefreshIcon />
             </IconButton>
           </Tooltip>
-          <Button
+          <PermissionButton
+            permission={PERMISSIONS.LOCATION_CREATE}
             variant="contained"
             startIcon={<AddIcon />}
             onClick={() => navigate('/dashboard/admin/locations-management/create')}
           >
             Create Location
-          </Button>
+          </PermissionButton>
         </Box>
       </Box>
 
@@ -197,7 +226,7 @@ const LocationsPage: React.FC = () => {
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                 <LocationCityIcon color="primary" />
                 <Box>
-                  <Typography variant="h6">{statistics?.total_locations || locations.length}</Typography>
+                  <Typography variant="h6">{locationCounts.total}</Typography>
                   <Typography variant="body2" color="text.secondary">
                     Total Locations
                   </Typography>
@@ -214,7 +243,7 @@ const LocationsPage: React.FC = () => {
                 <LocationIcon color="success" />
                 <Box>
                   <Typography variant="h6">
-                    {statistics?.active_count || locations.filter(loc => loc.operational_status === 'operational').length}
+                    {locationCounts.operational}
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
                     Operational Locations
@@ -232,7 +261,7 @@ const LocationsPage: React.FC = () => {
                 <LocationIcon color="warning" />
                 <Box>
                   <Typography variant="h6">
-                    {Object.keys(statistics?.by_province || {}).length || Object.keys(PROVINCES).length}
+                    {locationCounts.provinces}
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
                     Provinces Covered
@@ -250,7 +279,7 @@ const LocationsPage: React.FC = () => {
                 <PeopleIcon color="info" />
                 <Box>
                   <Typography variant="h6">
-                    {statistics?.total_capacity || 0}
+                    {locationCounts.capacity}
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
                     Total Capacity
@@ -294,8 +323,8 @@ const LocationsPage: React.FC = () => {
                   onChange={(e) => setSelectedProvince(e.target.value)}
                   label="Province"
                 >
-                  <MenuItem value="">All Provinces</MenuItem>
-                  {Object.entries(PROVINCES).map(([code, name]) => (
+                  {!isRestricted && <MenuItem value="">All Provinces</MenuItem>}
+                  {Object.entries(PROVINCES).filter(([code]) => isProvinceAllowed(code)).map(([code, name]) => (
                     <MenuItem key={code} value={code}>{name}</MenuItem>
                   ))}
                 </Select>
@@ -311,7 +340,7 @@ const LocationsPage: React.FC = () => {
                   label="User Group"
                 >
                   <MenuItem value="">All User Groups</MenuItem>
-                  {userGroups.map(ug => (
+                  {scopedUserGroups.map(ug => (
                     <MenuItem key={ug.id} value={ug.id}>
                       {ug.user_group_code} - {ug.user_group_name}
                     </MenuItem>
@@ -370,7 +399,7 @@ const LocationsPage: React.FC = () => {
             </Box>
           ) : filteredLocations.length === 0 ? (
             <Alert severity="info">
-              {locations.length === 0 ? 'No locations found. Create your first location to get started.' : 'No locations match your search criteria.'}
+              {scopedLocations.length === 0 ? 'No locations found. Create your first location to get started.' : 'No locations match your search criteria.'}
             </Alert>
           ) : (
             <TableContainer component={Paper}>
@@ -423,42 +452,54 @@ const LocationsPage: React.FC = () => {
                         ) : '-'}
                       </TableCell>
                       <TableCell>
-                        <Chip
-                          label={location.user_assignment_count || 0}
-                          color="secondary"
-                          variant="outlined"
-                          size="small"
-                          onClick={() => navigate(`/dashboard/admin/staff-management?location=${location.id}`)}
-                          sx={{ cursor: 'pointer' }}
-                        />
-                      </TableCell>
-                      <TableCell align="right">
-                        <Tooltip title="View Staff">
-                          <IconButton
+                        <Can
+                          permission={PERMISSIONS.ASSIGNMENT_READ}
+                          fallback={
+                            <Chip
+                              label={location.user_assignment_count || 0}
+                              color="secondary"
+                              variant="outlined"
+                              size="small"
+                            />
+                          }
+                        >
+                          <Chip
+                            label={location.user_assignment_count || 0}
+                            color="secondary"
+                            variant="outlined"
                             size="small"
-                            color="primary"
                             onClick={() => navigate(`/dashboard/admin/staff-management?location=${location.id}`)}
-                          >
-                            <PeopleIcon />
-                          </IconButton>
-                        </Tooltip>
-                        <Tooltip title="Edit">
-                          <IconButton
-                            size="small"
-                            onClick={() => navigate(`/dashboard/admin/locations-management/${location.id}/edit`)}
-                          >
-                            <EditIcon />
-                          </IconButton>
-                        </Tooltip>
-                        <Tooltip title="Delete">
-                          <IconButton
-                            size="small"
-                            color="error"
-                            onClick={() => handleDeleteLocation(location)}
-                          >
-                            <DeleteIcon />
-                          </IconButton>
-                        </Tooltip>
+                            sx={{ cursor: 'pointer' }}
+                          />
+                        </Can>
+                      </TableCell>
+                      <TableCell align="right">
+                        <PermissionIconButton
+                          title="View Staff"
+                          permission={PERMISSIONS.ASSIGNMENT_READ}
+                          size="small"
+                          color="primary"
+                          onClick={() => navigate(`/dashboard/admin/staff-management?location=${location.id}`)}
+                        >
+                          <PeopleIcon />
+                        </PermissionIconButton>
+                        <PermissionIconButton
+                          title="Edit"
+                          permission={PERMISSIONS.LOCATION_UPDATE}
+                          size="small"
+                          onClick={() => navigate(`/dashboard/admin/locations-management/${location.id}/edit`)}
+                        >
+                          <EditIcon />
+                        </PermissionIconButton>
+                        <PermissionIconButton
+                          title="Delete"
+                          permission={PERMISSIONS.LOCATION_DELETE}
+                          size="small"
+                          color="error"
+                          onClick={() => handleDeleteLocation(location)}
+                        >
+                          <DeleteIcon />
+                        </PermissionIconButton>
                       </TableCell>
                     </TableRow>
                   ))}
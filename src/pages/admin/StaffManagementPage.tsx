@@ -61,6 +61,8 @@ import {
   AssignmentType,
   AssignmentStatus
 } from '../../types/location';
+import { PermissionButton, PermissionIconButton } from '../../components/PermissionButton';
+import { PERMISSIONS } from '../../config/permissions';
 
 
 
@@ -210,13 +212,14 @@ const StaffManagementPage: React.FC = () => {
               <RefreshIcon />
             </IconButton>
           </Tooltip>
-          <Button
+          <PermissionButton
+            permission={PERMISSIONS.ASSIGNMENT_CREATE}
             variant="contained"
             startIcon={<AddIcon />}
             onClick={() => navigate('/dashboard/admin/staff-management/create')}
           >
             Assign Staff
-          </Button>
+          </PermissionButton>
         </Box>
       </Box>
 
@@ -491,23 +494,23 @@ const StaffManagementPage: React.FC = () => {
                         {assignment.effective_date ? new Date(assignment.effective_date).toLocaleDateString() : '-'}
                       </TableCell>
                       <TableCell align="right">
-                        <Tooltip title="Edit">
-                          <IconButton
-                            size="small"
-                            onClick={() => navigate(`/dashboard/admin/staff-management/${assignment.id}/edit`)}
-                          >
-                            <EditIcon />
-                          </IconButton>
-                        </Tooltip>
-                        <Tooltip title="Delete">
-                          <IconButton
-                            size="small"
-                            color="error"
-                            onClick={() => handleDeleteAssignment(assignment)}
-                          >
-                            <DeleteIcon />
-                          </IconButton>
-                        </Tooltip>
+                        <PermissionIconButton
+                          title="Edit"
+                          permission={PERMISSIONS.ASSIGNMENT_UPDATE}
+                          size="small"
+                          onClick={() => navigate(`/dashboard/admin/staff-management/${assignment.id}/edit`)}
+                        >
+                          <EditIcon />
+                        </PermissionIconButton>
+                        <PermissionIconButton
+                          title="Delete"
+                          permission={PERMISSIONS.ASSIGNMENT_DELETE}
+                          size="small"
+                          color="error"
+                          onClick={() => handleDeleteAssignment(assignment)}
+                        >
+                          <DeleteIcon />
+                        </PermissionIconButton>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -0,0 +1,489 @@
+/**
+ * System Privileges Page
+ * Central management of roles, their permissions and the users holding them
+ *
+ * Role-creation rule: a user may only grant permissions they hold themselves.
+ * The matrix disables those cells and the submit handler re-checks before
+ * anything is sent to the backend.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Grid,
+  IconButton,
+  Chip,
+  Tooltip,
+  TextField,
+  Alert,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  List,
+  ListItem,
+  ListItemText
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Refresh as RefreshIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  People as PeopleIcon,
+  ArrowBack as ArrowBackIcon
+} from '@mui/icons-material';
+import { useForm, Controller } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import toast from 'react-hot-toast';
+
+// Services and types
+import { roleService } from '../../services/roleService';
+import { getErrorMessage } from '../../config/api';
+import { PERMISSIONS, findUngrantablePermissions } from '../../config/permissions';
+import { useAuth } from '../../contexts/AuthContext';
+import { PermissionButton, PermissionIconButton } from '../../components/PermissionButton';
+import PermissionMatrix from '../../components/PermissionMatrix';
+import { PermissionDefinition, RoleDetail, RoleHolder } from '../../types/role';
+
+interface RoleFormData {
+  name: string;
+  display_name: string;
+  description?: string;
+}
+
+// Validation schema
+const roleSchema = yup.object({
+  name: yup
+    .string()
+    .required('Role name is required')
+    .matches(/^[a-z][a-z0-9_]*$/, 'Use lowercase letters, numbers and underscores (e.g. licence_clerk)'),
+  display_name: yup
+    .string()
+    .required('Display name is required')
+    .min(3, 'Display name must be at least 3 characters'),
+  description: yup.string(),
+});
+
+const SystemPrivilegesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  // State management
+  const [roles, setRoles] = useState<RoleDetail[]>([]);
+  const [permissions, setPermissions] = useState<PermissionDefinition[]>([]);
+  const [permissionsLoaded, setPermissionsLoaded] = useState(false);
+  const [permissionsError, setPermissionsError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Role dialog
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<RoleDetail | null>(null);
+  const [selectedPermissions, setSelectedPermissions] = useState<string[]>([]);
+
+  // Role holders dialog
+  const [holdersRole, setHoldersRole] = useState<RoleDetail | null>(null);
+  const [holders, setHolders] = useState<RoleHolder[]>([]);
+  const [holdersLoading, setHoldersLoading] = useState(false);
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<RoleFormData>({
+    resolver: yupResolver(roleSchema),
+    defaultValues: {
+      name: '',
+      display_name: '',
+      description: '',
+    },
+  });
+
+  // Load data
+  useEffect(() => {
+    loadRoles();
+    loadPermissions();
+  }, []);
+
+  const loadRoles = async () => {
+    setLoading(true);
+    try {
+      const data = await roleService.getAll();
+      setRoles(data);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to load roles'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Saving needs the catalogue to map permission names to ids, so a failed
+  // load blocks saving instead of sending an empty permission list
+  const loadPermissions = async () => {
+    setPermissionsError(null);
+    try {
+      const data = await roleService.getPermissions();
+      setPermissions(data);
+      setPermissionsLoaded(true);
+    } catch (error) {
+      setPermissionsError(getErrorMessage(error, 'Failed to load permissions'));
+    }
+  };
+
+  // Users may only grant permissions they hold themselves
+  const holdsPermission = (permission: string) =>
+    !!user && (user.is_superuser || user.permissions.includes(permission));
+
+  // Dialog handlers
+  const handleOpenDialog = (role?: RoleDetail) => {
+    if (role) {
+      setEditingRole(role);
+      reset({
+        name: role.name,
+        display_name: role.display_name,
+        description: role.description || '',
+      });
+      setSelectedPermissions(role.permissions.map(permission => permission.name));
+    } else {
+      setEditingRole(null);
+      reset();
+      setSelectedPermissions([]);
+    }
+    setDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setDialogOpen(false);
+    setEditingRole(null);
+    reset();
+  };
+
+  const handleSave = async (data: RoleFormData) => {
+    const existing = editingRole?.permissions.map(permission => permission.name) || [];
+    const ungrantable = findUngrantablePermissions(selectedPermissions, existing, holdsPermission);
+    if (ungrantable.length > 0) {
+      toast.error(`You cannot grant permissions you do not hold: ${ungrantable.join(', ')}`);
+      return;
+    }
+
+    const permissionIdsByName = new Map(permissions.map(permission => [permission.name, permission.id]));
+    const unknown = selectedPermissions.filter(name => !permissionIdsByName.has(name));
+    if (!permissionsLoaded || unknown.length > 0) {
+      toast.error(unknown.length > 0
+        ? `These permissions are missing from the permission catalogue: ${unknown.join(', ')}`
+        : 'The permission catalogue has not loaded; the role cannot be saved');
+      return;
+    }
+
+    const permission_ids = selectedPermissions.map(name => permissionIdsByName.get(name)!);
+
+    try {
+      if (editingRole) {
+        await roleService.update(editingRole.id, {
+          display_name: data.display_name,
+          description: data.description,
+          permission_ids,
+        });
+        toast.success('Role updated successfully');
+      } else {
+        await roleService.create({ ...data, permission_ids });
+        toast.success('Role created successfully');
+      }
+      handleCloseDialog();
+      loadRoles();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to save role'));
+    }
+  };
+
+  const handleDeleteRole = async (role: RoleDetail) => {
+    if (!window.confirm(`Are you sure you want to delete role "${role.display_name}"?`)) {
+      return;
+    }
+
+    try {
+      await roleService.delete(role.id);
+      toast.success('Role deleted successfully');
+      loadRoles();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to delete role'));
+    }
+  };
+
+  const handleViewHolders = async (role: RoleDetail) => {
+    setHoldersRole(role);
+    setHolders([]);
+    setHoldersLoading(true);
+    try {
+      const data = await roleService.getUsers(role.id);
+      setHolders(data);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to load role holders'));
+    } finally {
+      setHoldersLoading(false);
+    }
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* Header */}
+      <Box sx={{ mb: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <IconButton onClick={() => navigate('/dashboard/admin/users')} color="primary">
+            <ArrowBackIcon />
+          </IconButton>
+          <Box>
+            <Typography variant="h4" component="h1" sx={{ fontWeight: 600 }}>
+              System Privileges
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Manage roles and the permissions they grant
+            </Typography>
+          </Box>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Tooltip title="Refresh">
+            <IconButton onClick={loadRoles} disabled={loading}>
+              <RefreshIcon />
+            </IconButton>
+          </Tooltip>
+          <PermissionButton
+            permission={PERMISSIONS.ROLE_CREATE}
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => handleOpenDialog()}
+          >
+            Create Role
+          </PermissionButton>
+        </Box>
+      </Box>
+
+      {permissionsError && (
+        <Alert
+          severity="error"
+          sx={{ mb: 3 }}
+          action={<Button color="inherit" size="small" onClick={loadPermissions}>Retry</Button>}
+        >
+          {permissionsError}. Roles cannot be created or edited until the permissions have loaded.
+        </Alert>
+      )}
+
+      {/* Roles Table */}
+      <Card>
+        <CardContent>
+          <Typography variant="h6" sx={{ mb: 2 }}>
+            Roles ({roles.length})
+          </Typography>
+
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+              <CircularProgress />
+            </Box>
+          ) : roles.length === 0 ? (
+            <Alert severity="info">No roles found. Create your first role to get started.</Alert>
+          ) : (
+            <TableContainer component={Paper} variant="outlined">
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Role</TableCell>
+                    <TableCell>Description</TableCell>
+                    <TableCell>Permissions</TableCell>
+                    <TableCell>Users</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {roles.map((role) => (
+                    <TableRow key={role.id} hover>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <Box>
+                            <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                              {role.display_name}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              {role.name}
+                            </Typography>
+                          </Box>
+                          {role.is_system_role && <Chip label="System" size="small" variant="outlined" />}
+                        </Box>
+                      </TableCell>
+                      <TableCell>{role.description || '-'}</TableCell>
+                      <TableCell>
+                        <Chip label={role.permissions.length} size="small" color="primary" variant="outlined" />
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          label={role.user_count ?? 0}
+                          size="small"
+                          color="secondary"
+                          variant="outlined"
+                          onClick={() => handleViewHolders(role)}
+                          sx={{ cursor: 'pointer' }}
+                        />
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="View Users">
+                          <IconButton size="small" color="primary" onClick={() => handleViewHolders(role)}>
+                            <PeopleIcon />
+                          </IconButton>
+                        </Tooltip>
+                        <PermissionIconButton
+                          title="Edit"
+                          permission={PERMISSIONS.ROLE_UPDATE}
+                          size="small"
+                          onClick={() => handleOpenDialog(role)}
+                        >
+                          <EditIcon />
+                        </PermissionIconButton>
+                        <PermissionIconButton
+                          title={role.is_system_role ? 'System roles cannot be deleted' : 'Delete'}
+                          permission={PERMISSIONS.ROLE_DELETE}
+                          size="small"
+                          color="error"
+                          disabled={role.is_system_role}
+                          onClick={() => handleDeleteRole(role)}
+                        >
+                          <DeleteIcon />
+                        </PermissionIconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Role Dialog */}
+      <Dialog open={dialogOpen} onClose={handleCloseDialog} maxWidth="md" fullWidth>
+        <form onSubmit={handleSubmit(handleSave)}>
+          <DialogTitle>{editingRole ? 'Edit Role' : 'Create Role'}</DialogTitle>
+          <DialogContent>
+            <Grid container spacing={2} sx={{ mt: 1 }}>
+              <Grid item xs={12} md={6}>
+                <Controller
+                  name="name"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      fullWidth
+                      label="Role Name"
+                      placeholder="e.g., licence_clerk"
+                      error={!!errors.name}
+                      helperText={errors.name?.message}
+                      disabled={!!editingRole}
+                    />
+                  )}
+                />
+              </Grid>
+              <Grid item xs={12} md={6}>
+                <Controller
+                  name="display_name"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      fullWidth
+                      label="Display Name"
+                      error={!!errors.display_name}
+                      helperText={errors.display_name?.message}
+                    />
+                  )}
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <Controller
+                  name="description"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField {...field} fullWidth multiline rows={2} label="Description" />
+                  )}
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+                  Permissions
+                </Typography>
+                {permissionsError && (
+                  <Alert
+                    severity="error"
+                    sx={{ mb: 2 }}
+                    action={<Button color="inherit" size="small" onClick={loadPermissions}>Retry</Button>}
+                  >
+                    {permissionsError}. Saving is disabled until the permissions have loaded.
+                  </Alert>
+                )}
+                {!user?.is_superuser && (
+                  <Alert severity="info" sx={{ mb: 2 }}>
+                    You can only grant permissions that you hold yourself.
+                  </Alert>
+                )}
+                <PermissionMatrix
+                  selected={selectedPermissions}
+                  onChange={setSelectedPermissions}
+                  availablePermissions={permissions}
+                  canGrant={holdsPermission}
+                />
+              </Grid>
+            </Grid>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={handleCloseDialog}>Cancel</Button>
+            <Button type="submit" variant="contained" disabled={isSubmitting || !permissionsLoaded}>
+              {editingRole ? 'Save Changes' : 'Create Role'}
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+
+      {/* Role Holders Dialog */}
+      <Dialog open={!!holdersRole} onClose={() => setHoldersRole(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Users with {holdersRole?.display_name}</DialogTitle>
+        <DialogContent>
+          {holdersLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+              <CircularProgress />
+            </Box>
+          ) : holders.length === 0 ? (
+            <Alert severity="info">No users hold this role.</Alert>
+          ) : (
+            <List dense>
+              {holders.map((holder) => (
+                <ListItem key={holder.id} divider>
+                  <ListItemText
+                    primary={holder.full_name ? `${holder.full_name} (${holder.username})` : holder.username}
+                    secondary={holder.user_group_code}
+                  />
+                  {!holder.is_active && <Chip label="Inactive" size="small" />}
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setHoldersRole(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default SystemPrivilegesPage;
@@ -5,7 +5,7 @@
  * Implements V06001-V06005 validation rules
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
   Box,
@@ -46,7 +46,7 @@ import {
 import { useForm, Controller, SubmitHandler } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
-import { useAuth } from '../../contexts/AuthContext';
+import { useAuth, useDataScope } from '../../contexts/AuthContext';
 import userService from '../../services/userService';
 import {
   UserFormData,
@@ -58,6 +58,21 @@ import {
 } from '../../types/user';
 import { locationService } from '../../services/locationService';
 import { Location } from '../../types/location';
+import { MFA_REQUIRED_USER_TYPES } from '../../config/session';
+import { DEFAULT_PASSWORD_POLICY, createPasswordSchema } from '../../config/passwordPolicy';
+import { normalizeIdDocumentTypeCode, validateIdDocumentNumber } from '../../config/identityDocuments';
+import { passwordService } from '../../services/passwordService';
+import lookupService from '../../config/lookupService';
+import {
+  DEFAULT_VALIDATION_RULES,
+  ValidationRule,
+  createFieldSchema,
+  formatRuleMessage,
+  getFieldRules
+} from '../../config/validation';
+import { PasswordPolicy } from '../../types/auth';
+import PasswordStrengthMeter from '../../components/PasswordStrengthMeter';
+import EffectivePermissionsPanel from '../../components/EffectivePermissionsPanel';
 
 const steps = [
   'Basic Information',
@@ -67,32 +82,31 @@ const steps = [
   'Review & Submit'
 ];
 
-// Validation schema with business rules
-const userFormSchema = yup.object({
+// Validation schema with business rules. Field formats come from the validation
+// rule catalogue and password rules from the backend policy.
+const createUserFormSchema = (passwordPolicy: PasswordPolicy, rules: ValidationRule[]) => yup.object({
   // Basic Information
-  fullName: yup.string().required('Full name is required'),
-  email: yup.string().email('Valid email required').required('Email is required'),
-  phoneNumber: yup.string().matches(/^[\d\s\-\+\(\)]+$/, 'Valid phone number required'),
-  idType: yup.string().required('ID type is required'),
-  idNumber: yup.string().required('ID number is required'),
+  fullName: createFieldSchema(rules, 'user.full_name'),
+  email: createFieldSchema(rules, 'user.email'),
+  phoneNumber: createFieldSchema(rules, 'user.phone_number'),
+  idType: createFieldSchema(rules, 'user.id_type'),
+  idNumber: createFieldSchema(rules, 'user.id_number')
+    .test('id-document-number', 'Invalid ID number', function(value) {
+      if (!value || !this.parent.idType) return true;
+      const message = validateIdDocumentNumber(this.parent.idType, value);
+      return message ? this.createError({ message }) : true;
+    }),
   
   // Authentication
-  username: yup.string()
-    .min(3, 'Username must be at least 3 characters')
-    .max(20, 'Username cannot exceed 20 characters')
-    .matches(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores')
-    .required('Username is required'),
-  password: yup.string()
-    .min(8, 'Password must be at least 8 characters')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain uppercase, lowercase, and number')
-    .required('Password is required'),
+  username: createFieldSchema(rules, 'user.username'),
+  password: createPasswordSchema(passwordPolicy, { usernameField: 'username' }),
   confirmPassword: yup.string()
     .oneOf([yup.ref('password')], 'Passwords must match')
     .required('Confirm password is required'),
   
   // Work Assignment
-  user_group_code: yup.string().required('User group is required'),
-  location_id: yup.string().required('Location is required'),
+  user_group_code: createFieldSchema(rules, 'user.user_group_code'),
+  location_id: createFieldSchema(rules, 'user.location_id'),
   user_type_code: yup.string().required('User type is required'),
   department: yup.string(),
   
@@ -115,6 +129,7 @@ const UserFormPage = () => {
   const { userId } = useParams<{ userId: string }>();
   const navigate = useNavigate();
   const { } = useAuth();
+  const { scope, defaultProvinceCode, isProvinceAllowed, isUserGroupAllowed } = useDataScope();
   const isEditMode = Boolean(userId);
   
   // State management
@@ -158,6 +173,17 @@ const UserFormPage = () => {
   const [provinces, setProvinces] = useState<Province[]>([]);
   const [departments] = useState(['IT', 'Operations', 'Admin', 'Finance', 'Legal', 'Customer Service']);
   
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+  const [validationRules, setValidationRules] = useState<ValidationRule[]>(DEFAULT_VALIDATION_RULES);
+  const userFormSchema = useMemo(
+    () => createUserFormSchema(passwordPolicy, validationRules),
+    [passwordPolicy, validationRules]
+  );
+
+  // Coded rules of a field as hint text, e.g. "User group is required (V06001)"
+  const getRuleHint = (field: string) =>
+    getFieldRules(validationRules, field).filter(rule => rule.code).map(formatRuleMessage).join(' • ');
+
   // Form setup
   const {
     control,
@@ -171,6 +197,8 @@ const UserFormPage = () => {
     mode: 'onChange',
     defaultValues: {
       countryCode: 'ZA',
+      provinceCode: defaultProvinceCode,
+      user_group_code: scope.userGroupCode || '',
       status: UserStatus.ACTIVE,
       is_active: true,
       access_level: 'Standard',
@@ -187,6 +215,8 @@ const UserFormPage = () => {
 
   // Load initial data
   useEffect(() => {
+    passwordService.getPolicy().then(setPasswordPolicy);
+    lookupService.getValidationRules().then(setValidationRules);
     loadLookupData();
     if (isEditMode && userId) {
       loadUser(userId);
@@ -195,11 +225,17 @@ const UserFormPage = () => {
 
 
 
+  const isMfaMandatory = MFA_REQUIRED_USER_TYPES.includes(watchedFields.user_type_code as UserType);
+
   // Update privileges when user type changes
   useEffect(() => {
     if (watchedFields.user_type_code && Object.values(UserType).includes(watchedFields.user_type_code as UserType)) {
       setDefaultPrivilegesForUserType(watchedFields.user_type_code as UserType);
     }
+    // Admins and supervisors cannot opt out of two-factor authentication
+    if (isMfaMandatory) {
+      setValue('require_2fa', true);
+    }
   }, [watchedFields.user_type_code]);
 
   // Auto-generate username when user group changes
@@ -257,7 +293,8 @@ const UserFormPage = () => {
         setValue('email', personalDetails.email || '');
         setValue('phoneNumber', (personalDetails as any).phoneNumber || (personalDetails as any).phone_number || '');
         setValue('alternativePhone', (personalDetails as any).alternativePhone || (personalDetails as any).alternative_phone || '');
-        setValue('idType', (personalDetails as any).idType || (personalDetails as any).id_type || '');
+        // Legacy passport code '04' is loaded as '05' so it is saved back in the current code
+        setValue('idType', normalizeIdDocumentTypeCode((personalDetails as any).idType || (personalDetails as any).id_type) as IDType);
         setValue('idNumber', (personalDetails as any).idNumber || (personalDetails as any).id_number || '');
       }
       
@@ -645,7 +682,7 @@ const UserFormPage = () => {
                     <MenuItem value={IDType.TRN}>TRN (Traffic Register Number)</MenuItem>
                     <MenuItem value={IDType.OTHER}>Other</MenuItem>
                   </Select>
-                  <FormHelperText>{errors.idType?.message || 'V06005: ID Number must be valid for selected ID Type'}</FormHelperText>
+                  <FormHelperText>{errors.idType?.message || getRuleHint('user.id_number')}</FormHelperText>
                 </FormControl>
               )}
             />
@@ -719,13 +756,13 @@ const UserFormPage = () => {
                   <FormControl fullWidth error={!!errors.user_group_code}>
                     <InputLabel>User Group *</InputLabel>
                     <Select {...field} label="User Group *" sx={{ backgroundColor: 'white' }}>
-                      {userGroups.map((group) => (
+                      {userGroups.filter(isUserGroupAllowed).map((group) => (
                         <MenuItem key={group.id} value={group.user_group_code}>
                           {group.user_group_name} ({group.user_group_code})
                         </MenuItem>
                       ))}
                     </Select>
-                    <FormHelperText>{errors.user_group_code?.message || 'V06001: User Group must be active and valid'}</FormHelperText>
+                    <FormHelperText>{errors.user_group_code?.message || getRuleHint('user.user_group_code')}</FormHelperText>
                   </FormControl>
                 )}
               />
@@ -746,7 +783,7 @@ const UserFormPage = () => {
                         </MenuItem>
                       ))}
                     </Select>
-                    <FormHelperText>{errors.location_id?.message || 'V06002: Location must be active and valid'}</FormHelperText>
+                    <FormHelperText>{errors.location_id?.message || getRuleHint('user.location_id')}</FormHelperText>
                   </FormControl>
                 )}
               />
@@ -822,7 +859,7 @@ const UserFormPage = () => {
                 <FormControl fullWidth error={!!errors.provinceCode}>
                   <InputLabel>Province *</InputLabel>
                   <Select {...field} label="Province *" sx={{ backgroundColor: 'white' }}>
-                    {provinces.map((province) => (
+                    {provinces.filter((province) => isProvinceAllowed(province.code)).map((province) => (
                       <MenuItem key={province.code} value={province.code}>
                         {province.name}
                       </MenuItem>
@@ -950,7 +987,7 @@ const UserFormPage = () => {
                   label="Password *"
                   type={showPassword ? 'text' : 'password'}
                   error={!!errors.password}
-                  helperText={errors.password?.message || 'Minimum 8 characters with uppercase, lowercase, and number'}
+                  helperText={errors.password?.message}
                   InputProps={{
                     endAdornment: (
                       <InputAdornment position="end">
@@ -966,6 +1003,12 @@ const UserFormPage = () => {
                 />
               )}
             />
+            <PasswordStrengthMeter
+              password={watchedFields.password || ''}
+              policy={passwordPolicy}
+              username={watchedFields.username}
+              showHistoryHint={false}
+            />
           </Grid>
 
           {/* Confirm Password */}
@@ -1061,15 +1104,21 @@ const UserFormPage = () => {
               name="require_2fa"
               control={control}
               render={({ field }) => (
-                <FormControlLabel
-                  control={
-                    <Switch
-                      checked={Boolean(field.value)}
-                      onChange={field.onChange}
-                    />
-                  }
-                  label="Require Two-Factor Authentication"
-                />
+                <Box>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={Boolean(field.value) || isMfaMandatory}
+                        onChange={field.onChange}
+                        disabled={isMfaMandatory}
+                      />
+                    }
+                    label="Require Two-Factor Authentication"
+                  />
+                  {isMfaMandatory && (
+                    <FormHelperText>Mandatory for supervisor and administrator accounts</FormHelperText>
+                  )}
+                </Box>
               )}
             />
           </Grid>
@@ -1441,6 +1490,11 @@ const UserFormPage = () => {
         </Alert>
       )}
 
+      {/* Effective permissions for the user being edited */}
+      {isEditMode && userId && (
+        <EffectivePermissionsPanel userId={userId} />
+      )}
+
       {/* Stepper */}
       <Paper sx={{ p: 3, mb: 3 }}>
         <Stepper activeStep={currentStep} alternativeLabel>
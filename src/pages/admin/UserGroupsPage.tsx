@@ -52,6 +52,9 @@ import {
   RegistrationStatus,
   UserGroupStatistics
 } from '../../types/location';
+import { PermissionButton, PermissionIconButton } from '../../components/PermissionButton';
+import { PERMISSIONS } from '../../config/permissions';
+import { useDataScope } from '../../contexts/AuthContext';
 
 // Province mapping for display
 const PROVINCES = {
@@ -80,6 +83,7 @@ const STATUS_COLORS = {
 
 const UserGroupsPage: React.FC = () => {
   const navigate = useNavigate();
+  const { scope, isRestricted, defaultProvinceCode, isProvinceAllowed, isUserGroupAllowed } = useDataScope();
   
   // State management
   const [userGroups, setUserGroups] = useState<UserGroup[]>([]);
@@ -88,7 +92,7 @@ const UserGroupsPage: React.FC = () => {
   
   // Search and filters
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedProvince, setSelectedProvince] = useState('');
+  const [selectedProvince, setSelectedProvince] = useState(defaultProvinceCode);
   const [selectedStatus, setSelectedStatus] = useState('');
 
   // Load data
@@ -133,8 +137,27 @@ const UserGroupsPage: React.FC = () => {
     }
   };
 
+  // Limit to the user's data scope
+  const scopedUserGroups = userGroups.filter(isUserGroupAllowed);
+
+  // The statistics endpoint is national, so a narrower scope counts its own groups
+  const isScoped = isRestricted || !!scope.userGroupCode;
+  const userGroupCounts = isScoped
+    ? {
+        total: scopedUserGroups.length,
+        active: scopedUserGroups.filter((ug: UserGroup) => ug.registration_status === RegistrationStatus.REGISTERED).length,
+        provinces: new Set(scopedUserGroups.map((ug: UserGroup) => ug.province_code)).size,
+        types: new Set(scopedUserGroups.map((ug: UserGroup) => ug.user_group_type)).size,
+      }
+    : {
+        total: statistics?.total_user_groups || scopedUserGroups.length,
+        active: statistics?.active_count || scopedUserGroups.filter((ug: UserGroup) => ug.registration_status === RegistrationStatus.REGISTERED).length,
+        provinces: Object.keys(statistics?.by_province || {}).length || Object.keys(PROVINCES).length,
+        types: Object.keys(statistics?.by_type || {}).length || 0,
+      };
+
   // Filter data
-  const filteredUserGroups = userGroups.filter((ug: UserGroup) => {
+  const filteredUserGroups = scopedUserGroups.filter((ug: UserGroup) => {
     const matchesSearch = !searchTerm || 
       ug.user_group_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       ug.user_group_code.toLowerCase().includes(searchTerm.toLowerCase());
@@ -166,13 +189,14 @@ const UserGroupsPage: React.FC = () => {
               <RefreshIcon />
             </IconButton>
           </Tooltip>
-          <Button
+          <PermissionButton
+            permission={PERMISSIONS.USER_GROUP_CREATE}
             variant="contained"
             startIcon={<AddIcon />}
             onClick={() => navigate('/dashboard/admin/user-groups/create')}
           >
             Create User Group
-          </Button>
+          </PermissionButton>
         </Box>
       </Box>
 
@@ -184,7 +208,7 @@ const UserGroupsPage: React.FC = () => {
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                 <GroupIcon color="primary" />
                 <Box>
-                  <Typography variant="h6">{statistics?.total_user_groups || userGroups.length}</Typography>
+                  <Typography variant="h6">{userGroupCounts.total}</Typography>
                   <Typography variant="body2" color="text.secondary">
                     Total User Groups
                   </Typography>
@@ -201,7 +225,7 @@ const UserGroupsPage: React.FC = () => {
                 <BusinessIcon color="success" />
                 <Box>
                   <Typography variant="h6">
-                    {statistics?.active_count || userGroups.filter((ug: UserGroup) => ug.registration_status === RegistrationStatus.REGISTERED).length}
+                    {userGroupCounts.active}
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
                     Active Groups
@@ -219,7 +243,7 @@ const UserGroupsPage: React.FC = () => {
                 <BusinessIcon color="warning" />
                 <Box>
                   <Typography variant="h6">
-                    {Object.keys(statistics?.by_province || {}).length || Object.keys(PROVINCES).length}
+                    {userGroupCounts.provinces}
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
                     Provinces Covered
@@ -237,7 +261,7 @@ const UserGroupsPage: React.FC = () => {
                 <BusinessIcon color="info" />
                 <Box>
                   <Typography variant="h6">
-                    {Object.keys(statistics?.by_type || {}).length || 0}
+                    {userGroupCounts.types}
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
                     Group Types
@@ -281,8 +305,8 @@ const UserGroupsPage: React.FC = () => {
                   onChange={(e) => setSelectedProvince(e.target.value)}
                   label="Province"
                 >
-                  <MenuItem value="">All Provinces</MenuItem>
-                  {Object.entries(PROVINCES).map(([code, name]) => (
+                  {!isRestricted && <MenuItem value="">All Provinces</MenuItem>}
+                  {Object.entries(PROVINCES).filter(([code]) => isProvinceAllowed(code)).map(([code, name]) => (
                     <MenuItem key={code} value={code}>{name}</MenuItem>
                   ))}
                 </Select>
@@ -338,7 +362,7 @@ const UserGroupsPage: React.FC = () => {
             </Box>
           ) : filteredUserGroups.length === 0 ? (
             <Alert severity="info">
-              {userGroups.length === 0 ? 'No user groups found. Create your first user group to get started.' : 'No user groups match your search criteria.'}
+              {scopedUserGroups.length === 0 ? 'No user groups found. Create your first user group to get started.' : 'No user groups match your search criteria.'}
             </Alert>
           ) : (
             <TableContainer component={Paper}>
@@ -397,23 +421,23 @@ const UserGroupsPage: React.FC = () => {
                         />
                       </TableCell>
                       <TableCell align="right">
-                        <Tooltip title="Edit">
-                          <IconButton
-                            size="small"
-                            onClick={() => navigate(`/dashboard/admin/user-groups/${userGroup.id}/edit`)}
-                          >
-                            <EditIcon />
-                          </IconButton>
-                        </Tooltip>
-                        <Tooltip title="Delete">
-                          <IconButton
-                            size="small"
-                            color="error"
-                            onClick={() => handleDeleteUserGroup(userGroup)}
-                          >
-                            <DeleteIcon />
-                          </IconButton>
-                        </Tooltip>
+                        <PermissionIconButton
+                          title="Edit"
+                          permission={PERMISSIONS.USER_GROUP_UPDATE}
+                          size="small"
+                          onClick={() => navigate(`/dashboard/admin/user-groups/${userGroup.id}/edit`)}
+                        >
+                          <EditIcon />
+                        </PermissionIconButton>
+                        <PermissionIconButton
+                          title="Delete"
+                          permission={PERMISSIONS.USER_GROUP_DELETE}
+                          size="small"
+                          color="error"
+                          onClick={() => handleDeleteUserGroup(userGroup)}
+                        >
+                          <DeleteIcon />
+                        </PermissionIconButton>
                       </TableCell>
                     </TableRow>
                   ))}
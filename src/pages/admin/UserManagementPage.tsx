@@ -46,13 +46,17 @@ import {
   Clear as ClearIcon,
   FilterList as FilterIcon,
   Download as DownloadIcon,
-  Refresh as RefreshIcon
+  Refresh as RefreshIcon,
+  LockReset as LockResetIcon
 } from '@mui/icons-material';
 import { useForm, Controller } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
-import { useAuth } from '../../contexts/AuthContext';
+import { useAuth, useDataScope } from '../../contexts/AuthContext';
 import userService from '../../services/userService';
+import { getErrorMessage } from '../../config/api';
+import { PERMISSIONS } from '../../config/permissions';
+import { PermissionButton, PermissionIconButton } from '../../components/PermissionButton';
 import {
   User,
   UserListFilter,
@@ -96,6 +100,8 @@ const UserManagementPage = () => {
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
+  const [resetDialogOpen, setResetDialogOpen] = useState(false);
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null);
   
   // Pagination
   const [page, setPage] = useState(0);
@@ -110,6 +116,7 @@ const UserManagementPage = () => {
   const [filtersExpanded, setFiltersExpanded] = useState(false);
   
   const { } = useAuth();
+  const { scope, isRestricted, defaultProvinceCode, isProvinceAllowed, isUserGroupAllowed } = useDataScope();
 
   // Form setup
   const {
@@ -119,7 +126,9 @@ const UserManagementPage = () => {
   } = useForm<FilterFormData>({
     resolver: yupResolver(filterSchema),
     defaultValues: {
-      isActive: true // Default to show active users
+      isActive: true, // Default to show active users
+      provinceCode: defaultProvinceCode,
+      userGroupCode: scope.userGroupCode || ''
     }
   });
 
@@ -165,6 +174,14 @@ const UserManagementPage = () => {
         });
       }
 
+      // Never request users outside the data scope
+      if (defaultProvinceCode && !filterParams.provinceCode) {
+        filterParams.provinceCode = defaultProvinceCode;
+      }
+      if (scope.userGroupCode) {
+        filterParams.userGroupCode = scope.userGroupCode;
+      }
+
       const response = await userService.listUsers(page + 1, rowsPerPage, filterParams);
       setUsers(response.users);
       setTotalUsers(response.total);
@@ -212,6 +229,27 @@ const UserManagementPage = () => {
     }
   };
 
+  const handleResetPassword = async () => {
+    if (!selectedUser) return;
+
+    try {
+      setLoading(true);
+      const result = await userService.resetPassword(selectedUser.id);
+      setTemporaryPassword(result.temporary_password);
+    } catch (err) {
+      setResetDialogOpen(false);
+      setError(getErrorMessage(err, 'Failed to reset password'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeResetDialog = () => {
+    setResetDialogOpen(false);
+    setTemporaryPassword(null);
+    setSelectedUser(null);
+  };
+
   const handleCreateUser = () => {
     navigate('/dashboard/admin/users/create');
   };
@@ -364,8 +402,8 @@ const UserManagementPage = () => {
                       <FormControl fullWidth>
                         <InputLabel>Province</InputLabel>
                         <Select {...field} label="Province">
-                          <MenuItem value="">All Provinces</MenuItem>
-                          {provinces.map((province) => (
+                          {!isRestricted && <MenuItem value="">All Provinces</MenuItem>}
+                          {provinces.filter((province) => isProvinceAllowed(province.code)).map((province) => (
                             <MenuItem key={province.code} value={province.code}>
                               {province.name}
                             </MenuItem>
@@ -384,8 +422,8 @@ const UserManagementPage = () => {
                       <FormControl fullWidth>
                         <InputLabel>User Group</InputLabel>
                         <Select {...field} label="User Group">
-                          <MenuItem value="">All User Groups</MenuItem>
-                          {userGroups.map((group) => (
+                          {!scope.userGroupCode && <MenuItem value="">All User Groups</MenuItem>}
+                          {userGroups.filter(isUserGroupAllowed).map((group) => (
                             <MenuItem key={group.id} value={group.user_group_code}>
                               {group.user_group_name}
                             </MenuItem>
@@ -419,13 +457,14 @@ const UserManagementPage = () => {
             >
               Refresh
             </Button>
-            <Button
+            <PermissionButton
+              permission={PERMISSIONS.USER_MANAGEMENT_CREATE}
               variant="contained"
               onClick={handleCreateUser}
               startIcon={<PersonAddIcon />}
             >
               Create User
-            </Button>
+            </PermissionButton>
           </Box>
         </Box>
 
@@ -524,26 +563,37 @@ const UserManagementPage = () => {
                             <VisibilityIcon />
                           </IconButton>
                         </Tooltip>
-                        <Tooltip title="Edit User">
-                          <IconButton 
-                            size="small" 
-                            onClick={() => handleEditUser(user)}
-                          >
-                            <EditIcon />
-                          </IconButton>
-                        </Tooltip>
-                        <Tooltip title="Delete User">
-                          <IconButton 
-                            size="small" 
-                            color="error"
-                            onClick={() => {
-                              setSelectedUser(user);
-                              setDeleteDialogOpen(true);
-                            }}
-                          >
-                            <DeleteIcon />
-                          </IconButton>
-                        </Tooltip>
+                        <PermissionIconButton
+                          title="Edit User"
+                          permission={PERMISSIONS.USER_MANAGEMENT_UPDATE}
+                          size="small"
+                          onClick={() => handleEditUser(user)}
+                        >
+                          <EditIcon />
+                        </PermissionIconButton>
+                        <PermissionIconButton
+                          title="Reset Password"
+                          permission={PERMISSIONS.USER_MANAGEMENT_UPDATE}
+                          size="small"
+                          onClick={() => {
+                            setSelectedUser(user);
+                            setResetDialogOpen(true);
+                          }}
+                        >
+                          <LockResetIcon />
+                        </PermissionIconButton>
+                        <PermissionIconButton
+                          title="Delete User"
+                          permission={PERMISSIONS.USER_MANAGEMENT_DELETE}
+                          size="small"
+                          color="error"
+                          onClick={() => {
+                            setSelectedUser(user);
+                            setDeleteDialogOpen(true);
+                          }}
+                        >
+                          <DeleteIcon />
+                        </PermissionIconButton>
                       </Box>
                     </TableCell>
                   </TableRow>
@@ -692,8 +742,9 @@ const UserManagementPage = () => {
       </DialogContent>
       <DialogActions>
         <Button onClick={() => setViewDialogOpen(false)}>Close</Button>
-        <Button 
-          variant="contained" 
+        <PermissionButton
+          permission={PERMISSIONS.USER_MANAGEMENT_UPDATE}
+          variant="contained"
           onClick={() => {
             setViewDialogOpen(false);
             if (selectedUser) handleEditUser(selectedUser);
@@ -701,7 +752,7 @@ const UserManagementPage = () => {
           startIcon={<EditIcon />}
         >
           Edit User
-        </Button>
+        </PermissionButton>
       </DialogActions>
     </Dialog>
   );
@@ -732,6 +783,55 @@ const UserManagementPage = () => {
     </Dialog>
   );
 
+  // Render reset password dialog
+  const renderResetPasswordDialog = () => (
+    <Dialog open={resetDialogOpen} onClose={closeResetDialog} maxWidth="sm" fullWidth>
+      <DialogTitle>Reset Password</DialogTitle>
+      <DialogContent>
+        {temporaryPassword ? (
+          <>
+            <Typography gutterBottom>
+              Give this temporary password to "{selectedUser ? formatUserDisplayName(selectedUser) : ''}" in person.
+              They will have to choose a new password when they next sign in.
+            </Typography>
+            <Typography
+              variant="h6"
+              sx={{ fontFamily: 'monospace', textAlign: 'center', bgcolor: 'grey.100', borderRadius: 1, py: 2, mt: 2 }}
+            >
+              {temporaryPassword}
+            </Typography>
+          </>
+        ) : (
+          <>
+            <Typography>
+              Reset the password for "{selectedUser ? formatUserDisplayName(selectedUser) : ''}"?
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              A temporary password will be generated and the user must change it at their next sign-in.
+            </Typography>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {temporaryPassword ? (
+          <Button variant="contained" onClick={closeResetDialog}>Done</Button>
+        ) : (
+          <>
+            <Button onClick={closeResetDialog}>Cancel</Button>
+            <Button
+              onClick={handleResetPassword}
+              color="warning"
+              variant="contained"
+              disabled={loading}
+            >
+              {loading ? 'Resetting...' : 'Reset Password'}
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+
   return (
     <Box sx={{ maxWidth: 1400, mx: 'auto', p: 3 }}>
       {/* Page Header */}
@@ -760,6 +860,7 @@ const UserManagementPage = () => {
       {/* Dialogs */}
       {renderUserDetailsDialog()}
       {renderDeleteDialog()}
+      {renderResetPasswordDialog()}
     </Box>
   );
 };
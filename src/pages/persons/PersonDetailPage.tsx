@@ -0,0 +1,446 @@
+/**
+ * Person Detail Page - Read-only profile of a person record
+ * Landing page for person links: identity, ID documents, addresses, contact
+ * details and the audit history, with edit / deactivate / reactivate actions
+ */
+
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  Card,
+  CardContent,
+  Chip,
+  Alert,
+  CircularProgress,
+  IconButton,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Edit as EditIcon,
+  Block as BlockIcon,
+  CheckCircle as CheckCircleIcon
+} from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../config/api';
+import { PERMISSIONS } from '../../config/permissions';
+import { formatAddress } from '../../config/addressFormat';
+import { getDocumentExpiryStatus, describeExpiry } from '../../config/documentExpiry';
+import { getIdDocumentTypeLabel } from '../../config/identityDocuments';
+import { personService } from '../../services/personService';
+import { Person, PersonHistoryEntry, PersonStatusChange, PersonStatusHistoryEntry } from '../../types/person';
+import { PermissionButton } from '../../components/PermissionButton';
+import PersonHistoryTimeline from '../../components/PersonHistoryTimeline';
+import PersonStatusDialog, { DEACTIVATION_REASONS, REACTIVATION_REASONS } from '../../components/PersonStatusDialog';
+
+// Lookup data
+const PERSON_NATURES: Record<string, string> = {
+  '01': 'Male (Natural Person)',
+  '02': 'Female (Natural Person)',
+  '03': 'Company/Corporation',
+  '10': 'Close Corporation',
+  '11': 'Trust',
+  '12': 'Partnership',
+  '13': 'Sole Proprietorship',
+  '14': 'Association',
+  '15': 'Cooperative',
+  '16': 'Non-Profit Organization',
+  '17': 'Other Organization'
+};
+
+const ADDRESS_TYPES: Record<string, string> = {
+  street: 'Street/Physical Address',
+  postal: 'Postal Address',
+  business: 'Business Address'
+};
+
+const DetailField = ({ label, value }: { label: string; value?: string | null }) => (
+  <Grid item xs={12} sm={6} md={4}>
+    <Typography variant="body2" color="text.secondary">{label}</Typography>
+    <Typography variant="body1" sx={{ fontWeight: 500 }}>{value || '-'}</Typography>
+  </Grid>
+);
+
+const PersonDetailPage = () => {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+
+  const [person, setPerson] = useState<Person | null>(null);
+  const [history, setHistory] = useState<PersonHistoryEntry[]>([]);
+  const [statusHistory, setStatusHistory] = useState<PersonStatusHistoryEntry[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [statusHistoryError, setStatusHistoryError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusDialogOpen, setStatusDialogOpen] = useState(false);
+  const [statusChanging, setStatusChanging] = useState(false);
+
+  const loadPerson = async () => {
+    if (!id) return;
+    setLoading(true);
+    setError(null);
+    setHistoryError(null);
+    setStatusHistoryError(null);
+
+    try {
+      // History is supplementary: still show the profile if it fails, but say
+      // so rather than presenting an empty audit record
+      const [personData, historyData, statusHistoryData] = await Promise.all([
+        personService.getById(id),
+        personService.getHistory(id).catch(err => {
+          setHistoryError(getErrorMessage(err, 'Failed to load history'));
+          return [] as PersonHistoryEntry[];
+        }),
+        personService.getStatusHistory(id).catch(err => {
+          setStatusHistoryError(getErrorMessage(err, 'Failed to load status history'));
+          return [] as PersonStatusHistoryEntry[];
+        })
+      ]);
+      setPerson(personData);
+      setHistory(historyData);
+      setStatusHistory(statusHistoryData);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load person'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPerson();
+  }, [id]);
+
+  const handleStatusChange = async (change: PersonStatusChange) => {
+    if (!person) return;
+    const action = person.is_active ? 'deactivate' : 'reactivate';
+
+    setStatusChanging(true);
+    try {
+      if (person.is_active) {
+        await personService.deactivate(person.id, change);
+      } else {
+        await personService.reactivate(person.id, change);
+      }
+      toast.success(`Person ${action}d successfully`);
+      setStatusDialogOpen(false);
+      await loadPerson();
+    } catch (err) {
+      toast.error(getErrorMessage(err, `Failed to ${action} person`));
+    } finally {
+      setStatusChanging(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error || !person) {
+    return (
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: 3 }}>
+        <Alert severity="error">{error || 'Person not found'}</Alert>
+      </Box>
+    );
+  }
+
+  const isNaturalPerson = ['01', '02'].includes(person.person_nature);
+  const displayName = isNaturalPerson
+    ? [person.natural_person?.full_name_1, person.natural_person?.full_name_2, person.business_or_surname].filter(Boolean).join(' ')
+    : person.business_or_surname;
+
+  return (
+    <Box sx={{ maxWidth: 1200, mx: 'auto', p: 3 }}>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <IconButton onClick={() => navigate(-1)} color="primary">
+            <ArrowBackIcon />
+          </IconButton>
+          <Box>
+            <Typography variant="h4" component="h1">
+              {displayName}
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1, mt: 0.5 }}>
+              <Chip label={PERSON_NATURES[person.person_nature] || person.person_nature} size="small" />
+              <Chip
+                label={person.is_active ? 'Active' : 'Inactive'}
+                size="small"
+                color={person.is_active ? 'success' : 'error'}
+              />
+            </Box>
+          </Box>
+        </Box>
+
+        {/* Quick actions */}
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <PermissionButton
+            permission={PERMISSIONS.PERSON_UPDATE}
+            variant="outlined"
+            startIcon={<EditIcon />}
+            onClick={() => navigate(`/dashboard/persons/manage?edit=${person.id}`)}
+            disabled={!person.is_active}
+          >
+            Edit
+          </PermissionButton>
+          {person.is_active ? (
+            <PermissionButton
+              permission={PERMISSIONS.PERSON_DELETE}
+              variant="outlined"
+              color="error"
+              startIcon={<BlockIcon />}
+              onClick={() => setStatusDialogOpen(true)}
+            >
+              Deactivate
+            </PermissionButton>
+          ) : (
+            <PermissionButton
+              permission={PERMISSIONS.PERSON_UPDATE}
+              variant="contained"
+              color="success"
+              startIcon={<CheckCircleIcon />}
+              onClick={() => setStatusDialogOpen(true)}
+            >
+              Reactivate
+            </PermissionButton>
+          )}
+        </Box>
+      </Box>
+
+      {!person.is_active && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          This person is deactivated and cannot be used in new registrations. Reactivate the record before making changes.
+        </Alert>
+      )}
+
+      <Grid container spacing={3}>
+        {/* Identity */}
+        <Grid item xs={12}>
+          <Card>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Identity Information
+              </Typography>
+              <Grid container spacing={2}>
+                <DetailField label={isNaturalPerson ? 'Surname' : 'Business Name'} value={person.business_or_surname} />
+                {isNaturalPerson && (
+                  <>
+                    <DetailField label="Initials" value={person.initials} />
+                    <DetailField label="First Name" value={person.natural_person?.full_name_1} />
+                    <DetailField label="Middle Name" value={person.natural_person?.full_name_2} />
+                    <DetailField label="Third Name" value={person.natural_person?.full_name_3} />
+                    <DetailField
+                      label="Date of Birth"
+                      value={person.natural_person?.birth_date && new Date(person.natural_person.birth_date).toLocaleDateString()}
+                    />
+                  </>
+                )}
+                {!isNaturalPerson && person.juristic_person && (
+                  <>
+                    <DetailField label="Registration Number" value={person.juristic_person.registration_number} />
+                    <DetailField label="Trading Name" value={person.juristic_person.trading_name} />
+                    <DetailField
+                      label="Registration Date"
+                      value={person.juristic_person.registration_date && new Date(person.juristic_person.registration_date).toLocaleDateString()}
+                    />
+                  </>
+                )}
+                <DetailField label="Nationality" value={person.nationality_code} />
+                <DetailField label="Preferred Language" value={person.preferred_language} />
+                <DetailField label="Registered" value={new Date(person.created_at).toLocaleDateString()} />
+              </Grid>
+
+              {!isNaturalPerson && person.juristic_person?.representatives.length ? (
+                <>
+                  <Divider sx={{ my: 2 }} />
+                  <Typography variant="subtitle2" gutterBottom>Representatives</Typography>
+                  {person.juristic_person.representatives.map(representative => (
+                    <Typography
+                      key={`${representative.id_document_type_code}:${representative.id_document_number}`}
+                      variant="body2"
+                      sx={{ cursor: representative.person_id ? 'pointer' : 'default', color: representative.person_id ? 'primary.main' : 'inherit' }}
+                      onClick={() => representative.person_id && navigate(`/dashboard/persons/${representative.person_id}`)}
+                    >
+                      {representative.name || representative.id_document_number} ({representative.capacity})
+                    </Typography>
+                  ))}
+                </>
+              ) : null}
+            </CardContent>
+          </Card>
+        </Grid>
+
+        {/* ID documents */}
+        <Grid item xs={12} md={6}>
+          <Card sx={{ height: '100%' }}>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                ID Documents ({person.aliases?.length || 0})
+              </Typography>
+              {(person.aliases || []).map((alias, index) => (
+                <Box key={alias.id || index} sx={{ mb: 1.5 }}>
+                  <Typography variant="body2" color="text.secondary">
+                    {getIdDocumentTypeLabel(alias.id_document_type_code)}
+                    {alias.country_of_issue && ` • ${alias.country_of_issue}`}
+                  </Typography>
+                  <Typography variant="body1" sx={{ fontWeight: 500 }}>
+                    {alias.id_document_number}
+                    {alias.is_current && <Chip label="Current" size="small" color="primary" sx={{ ml: 1 }} />}
+                  </Typography>
+                  {alias.id_document_expiry_date && (
+                    <Chip
+                      label={describeExpiry(alias.id_document_expiry_date)}
+                      size="small"
+                      variant="outlined"
+                      color={
+                        getDocumentExpiryStatus(alias.id_document_expiry_date) === 'expired' ? 'error' :
+                        getDocumentExpiryStatus(alias.id_document_expiry_date) === 'expiring' ? 'warning' : 'default'
+                      }
+                    />
+                  )}
+                </Box>
+              ))}
+            </CardContent>
+          </Card>
+        </Grid>
+
+        {/* Contact details */}
+        <Grid item xs={12} md={6}>
+          <Card sx={{ height: '100%' }}>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Contact Information
+              </Typography>
+              <Grid container spacing={2}>
+                <DetailField label="Email" value={person.email_address} />
+                <DetailField
+                  label="Cell Phone"
+                  value={person.cell_phone && [person.cell_phone_country_code, person.cell_phone].filter(Boolean).join(' ')}
+                />
+                <DetailField label="Home Phone" value={person.home_phone} />
+                <DetailField label="Work Phone" value={person.work_phone} />
+                <DetailField label="Fax" value={person.fax_phone} />
+              </Grid>
+            </CardContent>
+          </Card>
+        </Grid>
+
+        {/* Addresses */}
+        <Grid item xs={12}>
+          <Card>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Addresses ({person.addresses?.length || 0})
+              </Typography>
+              <Grid container spacing={2}>
+                {(person.addresses || []).map((address, index) => (
+                  <Grid item xs={12} md={6} key={address.id || index}>
+                    <Paper variant="outlined" sx={{ p: 2 }}>
+                      <Typography variant="subtitle2">
+                        {ADDRESS_TYPES[address.address_type] || address.address_type}
+                        {address.is_primary && <Chip label="Primary" size="small" color="primary" sx={{ ml: 1 }} />}
+                      </Typography>
+                      <Typography variant="body2">{formatAddress(address)}</Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {[address.province_code, address.country_code].filter(Boolean).join(' • ')}
+                      </Typography>
+                    </Paper>
+                  </Grid>
+                ))}
+              </Grid>
+            </CardContent>
+          </Card>
+        </Grid>
+
+        {/* Status history */}
+        <Grid item xs={12}>
+          <Card>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Status History
+              </Typography>
+              {statusHistoryError ? (
+                <Alert severity="error">{statusHistoryError}</Alert>
+              ) : statusHistory.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  The status of this person has never changed.
+                </Typography>
+              ) : (
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Date</TableCell>
+                      <TableCell>Status</TableCell>
+                      <TableCell>Reason</TableCell>
+                      <TableCell>Note</TableCell>
+                      <TableCell>Changed By</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {statusHistory.map(entry => {
+                      const reasons = entry.is_active ? REACTIVATION_REASONS : DEACTIVATION_REASONS;
+                      return (
+                        <TableRow key={entry.id}>
+                          <TableCell>{new Date(entry.changed_at).toLocaleString()}</TableCell>
+                          <TableCell>
+                            <Chip
+                              label={entry.is_active ? 'Reactivated' : 'Deactivated'}
+                              size="small"
+                              color={entry.is_active ? 'success' : 'error'}
+                            />
+                          </TableCell>
+                          <TableCell>{reasons.find(r => r.value === entry.reason_code)?.label || entry.reason_code}</TableCell>
+                          <TableCell>{entry.note}</TableCell>
+                          <TableCell>{entry.changed_by}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </Grid>
+
+        {/* Audit history */}
+        <Grid item xs={12}>
+          <Card>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                History
+              </Typography>
+              {historyError ? (
+                <Alert severity="error">{historyError}</Alert>
+              ) : (
+                <PersonHistoryTimeline entries={history} />
+              )}
+            </CardContent>
+          </Card>
+        </Grid>
+      </Grid>
+
+      <PersonStatusDialog
+        open={statusDialogOpen}
+        deactivating={person.is_active}
+        personName={displayName}
+        submitting={statusChanging}
+        onSubmit={handleStatusChange}
+        onClose={() => setStatusDialogOpen(false)}
+      />
+    </Box>
+  );
+};
+
+export default PersonDetailPage;
@@ -3,7 +3,8 @@
  * Implements complete person lifecycle management with validation
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -27,22 +28,61 @@ import {
   IconButton,
   InputAdornment,
   Chip,
-  Autocomplete
+  Autocomplete,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip
 } from '@mui/material';
 import {
   Search as SearchIcon,
   PersonAdd as PersonAddIcon,
   Edit as EditIcon,
   Clear as ClearIcon,
-  Visibility as VisibilityIcon
+  Visibility as VisibilityIcon,
+  Restore as RestoreIcon,
+  Delete as DeleteIcon
 } from '@mui/icons-material';
 import { useForm, Controller, useFieldArray } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
-import { API_ENDPOINTS } from '../../config/api';
-import { useAuth } from '../../contexts/AuthContext';
-import { API_BASE_URL } from '../../config/api';
-import lookupService, { Province, PhoneCode } from '../../config/lookupService';
+import lookupService, { Province, PhoneCode, AddressLocality } from '../../config/lookupService';
+import { isApiError, getErrorMessage } from '../../config/api';
+import toast from 'react-hot-toast';
+import { personService, personDraftService } from '../../services/personService';
+import {
+  Person,
+  PersonSummary,
+  PersonDraft,
+  PersonAlias,
+  PersonDuplicateCheckRequest,
+  PersonDuplicateMatch,
+  PersonConsistencyOverride
+} from '../../types/person';
+import DuplicatePersonDialog from '../../components/DuplicatePersonDialog';
+import DuplicateMergeDialog from '../../components/DuplicateMergeDialog';
+import { MergeField, MERGE_FIELDS, NATURAL_PERSON_FIELDS, aliasKey, addressKey, combineEntries } from '../../config/personMerge';
+import LocalityAutocomplete from '../../components/LocalityAutocomplete';
+import { getAddressLineLabel, normaliseAddressLines } from '../../config/addressFormat';
+import { DEFAULT_VALIDATION_RULES, ValidationRule, createFieldSchema, getMaxLength } from '../../config/validation';
+import { getDocumentExpiryStatus, describeExpiry } from '../../config/documentExpiry';
+import {
+  ID_DOCUMENT_TYPES,
+  ID_DOCUMENT_TYPE_CODES,
+  getIdDocumentType,
+  getIdDocumentTypeLabel,
+  validateIdDocumentNumber,
+  parseRSAId,
+  formatIdDocumentInput,
+  findRSAIdConflicts,
+  PERSON_NATURE_BY_GENDER,
+  SOUTH_AFRICA_NATIONALITY
+} from '../../config/identityDocuments';
+import RSAIdConsistencyAlert, { isOverrideReasonValid } from '../../components/RSAIdConsistencyAlert';
+import { usePermission } from '../../contexts/AuthContext';
+import { PERMISSIONS } from '../../config/permissions';
 
 // Types
 interface PersonLookupForm {
@@ -74,6 +114,20 @@ interface PersonManagementForm {
     birth_date?: string;
     preferred_language_code?: string;
   };
+
+  // Organisation Details (juristic persons)
+  juristic_person?: {
+    registration_number?: string;
+    trading_name?: string;
+    registration_date?: string;
+    representatives: Array<{
+      person_id?: string;
+      id_document_type_code: string;
+      id_document_number: string;
+      name?: string;
+      capacity: string;
+    }>;
+  };
   
   // ID Documents/Aliases
   aliases: Array<{
@@ -101,106 +155,50 @@ interface PersonManagementForm {
   }>;
 }
 
-interface ExistingPerson {
-  id?: string;
-  business_or_surname?: string;
-  name?: string; // API returns this field instead of business_or_surname
-  initials?: string;
-  person_nature: string;
-  nationality_code?: string;
-  email_address?: string;
-  cell_phone?: string;
-  is_active: boolean;
-  created_at?: string;
-  id_type?: string; // API returns this for document type
-  id_number?: string; // API returns this for document number
-  natural_person?: {
-    full_name_1?: string;
-    full_name_2?: string;
-    birth_date?: string;
-  };
-  aliases?: Array<{
-    id: string;
-    id_document_type_code: string;
-    id_document_number: string;
-    is_current: boolean;
-  }>;
-  addresses?: Array<{
-    id: string;
-    address_type: string;
-    address_line_1: string;
-    address_line_4?: string;
-    postal_code?: string;
-    is_primary: boolean;
-  }>;
-}
-
 // Lookup data
-// Core ID document types as specified
-const ID_DOCUMENT_TYPES = [
-  { value: '01', label: 'TRN (Traffic Register Number)', format: 'numeric', length: 13, requiresExpiry: false },
-  { value: '02', label: 'RSA ID (South African ID Document)', format: 'numeric', length: 13, requiresExpiry: false },
-  { value: '03', label: 'Foreign ID (Foreign ID Document)', format: 'alphanumeric', length: 'variable', requiresExpiry: true },
-  { value: '05', label: 'Passport Number', format: 'alphanumeric', length: 'variable', requiresExpiry: true }
-];
-
 const PERSON_NATURES = [
-  { value: '01', label: 'Male (Natural Person)', disabled: false },
-  { value: '02', label: 'Female (Natural Person)', disabled: false },
-  { value: '03', label: 'Company/Corporation', disabled: true },
-  { value: '10', label: 'Close Corporation', disabled: true },
-  { value: '11', label: 'Trust', disabled: true },
-  { value: '12', label: 'Partnership', disabled: true },
-  { value: '13', label: 'Sole Proprietorship', disabled: true },
-  { value: '14', label: 'Association', disabled: true },
-  { value: '15', label: 'Cooperative', disabled: true },
-  { value: '16', label: 'Non-Profit Organization', disabled: true },
-  { value: '17', label: 'Other Organization', disabled: true }
+  { value: '01', label: 'Male (Natural Person)' },
+  { value: '02', label: 'Female (Natural Person)' },
+  { value: '03', label: 'Company/Corporation' },
+  { value: '10', label: 'Close Corporation' },
+  { value: '11', label: 'Trust' },
+  { value: '12', label: 'Partnership' },
+  { value: '13', label: 'Sole Proprietorship' },
+  { value: '14', label: 'Association' },
+  { value: '15', label: 'Cooperative' },
+  { value: '16', label: 'Non-Profit Organization' },
+  { value: '17', label: 'Other Organization' }
 ];
 
-// Document validation functions
-const validateCheckDigit = (idNumber: string): boolean => {
-  if (!idNumber || idNumber.length !== 13) return false;
-  if (!/^\d{13}$/.test(idNumber)) return false;
-  
-  // Calculate checksum using Luhn algorithm for RSA ID, TRN, BRN
-  const digits = idNumber.split('').map(Number);
-  let sum = 0;
-  
-  for (let i = 0; i < 12; i++) {
-    if (i % 2 === 0) {
-      sum += digits[i];
-    } else {
-      const doubled = digits[i] * 2;
-      sum += doubled > 9 ? doubled - 9 : doubled;
-    }
-  }
-  
-  const checkDigit = (10 - (sum % 10)) % 10;
-  return checkDigit === digits[12];
-};
-
-const validatePassport = (passportNumber: string): boolean => {
-  if (!passportNumber) return false;
-  const cleaned = passportNumber.replace(/\s/g, '');
-  return cleaned.length >= 6 && cleaned.length <= 12 && /^[A-Za-z0-9]+$/.test(cleaned);
+// ID documents a juristic person can be registered under; the statutory
+// registration number is captured on juristic_person.registration_number
+const ORGANISATION_DOCUMENT_TYPES: string[] = [ID_DOCUMENT_TYPE_CODES.TRN];
+
+// Statutory registration number per organisation nature; natures without an
+// entry (partnership, sole proprietorship, association, other) have none
+const REGISTRATION_NUMBER_FORMATS: Record<string, { pattern: RegExp; example: string }> = {
+  '03': { pattern: /^\d{4}\/\d{6}\/\d{2}$/, example: '2015/123456/07' },
+  '10': { pattern: /^\d{4}\/\d{6}\/23$/, example: '2001/123456/23' },
+  '11': { pattern: /^IT\d{1,6}\/\d{4}$/, example: 'IT1234/2015' },
+  '15': { pattern: /^\d{4}\/\d{6}\/24$/, example: '2010/123456/24' },
+  '16': { pattern: /^\d{3}-\d{3}( NPO)?$/, example: '123-456 NPO' }
 };
 
+const REPRESENTATIVE_CAPACITIES = [
+  { value: 'director', label: 'Director' },
+  { value: 'member', label: 'Member' },
+  { value: 'trustee', label: 'Trustee' },
+  { value: 'partner', label: 'Partner' },
+  { value: 'owner', label: 'Owner' },
+  { value: 'office_bearer', label: 'Office Bearer' },
+  { value: 'authorised', label: 'Authorised Representative' }
+];
 
-
-const validateDocumentNumber = (docType: string, docNumber: string): boolean => {
-  switch (docType) {
-    case '01': // TRN
-    case '02': // RSA ID
-      return validateCheckDigit(docNumber);
-    case '05': // Passport
-      return validatePassport(docNumber);
-    case '03': // Foreign ID
-      return docNumber.length >= 4;
-    default:
-      return true;
-  }
-};
+const ADDRESS_TYPES = [
+  { value: 'street', label: 'Street/Physical Address' },
+  { value: 'postal', label: 'Postal Address' },
+  { value: 'business', label: 'Business Address' }
+];
 
 // Validation schemas
 const lookupSchema = yup.object({
@@ -210,25 +208,25 @@ const lookupSchema = yup.object({
     .test('document-validation', 'Invalid document number format', function(value) {
       const { id_document_type_code } = this.parent;
       if (value && id_document_type_code) {
-        return validateDocumentNumber(id_document_type_code, value);
+        const message = validateIdDocumentNumber(id_document_type_code, value);
+        return message ? this.createError({ message }) : true;
       }
       return true;
     })
 });
 
-const personSchema = yup.object({
-  business_or_surname: yup.string().required('Person surname is mandatory (V00043)').max(32),
-  person_nature: yup.string().required('Person nature is mandatory (V00034)'),
-  nationality_code: yup.string().required('Person nationality is mandatory (V00040)'),
+// Field formats come from the validation rule catalogue; cross-field rules stay here
+const createPersonSchema = (rules: ValidationRule[]) => yup.object({
+  business_or_surname: createFieldSchema(rules, 'person.business_or_surname'),
+  person_nature: createFieldSchema(rules, 'person.person_nature'),
+  nationality_code: createFieldSchema(rules, 'person.nationality_code'),
   
   // V00051 - Initials mandatory for natural persons
   initials: yup.string()
-    .max(3, 'Maximum 3 characters')
-    .matches(/^[A-Z]*$/, 'Initials must be uppercase letters only')
     .when('person_nature', {
       is: (val: string) => ['01', '02'].includes(val),
-      then: () => yup.string().required('Person initials are mandatory for natural persons (V00051)'),
-      otherwise: () => yup.string().test(
+      then: () => createFieldSchema(rules, 'person.initials'),
+      otherwise: () => createFieldSchema(rules, 'person.initials', { optional: true }).test(
         'no-initials-for-organizations', 
         'Initials only applicable to natural persons (V00001)', 
         function(value) {
@@ -244,9 +242,9 @@ const personSchema = yup.object({
   natural_person: yup.object().when('person_nature', {
     is: (val: string) => ['01', '02'].includes(val),
     then: () => yup.object({
-      full_name_1: yup.string().required('Natural person full name 1 is mandatory (V00056)').max(32),
-      full_name_2: yup.string().max(32),
-      full_name_3: yup.string().max(32),
+      full_name_1: createFieldSchema(rules, 'person.natural_person.full_name_1'),
+      full_name_2: createFieldSchema(rules, 'person.natural_person.full_name_2'),
+      full_name_3: createFieldSchema(rules, 'person.natural_person.full_name_3'),
       birth_date: yup.string().test('min-date', 'Date must be after 1840-01-01', function(value) {
         if (!value) return true;
         return value >= '1840-01-01';
@@ -255,68 +253,62 @@ const personSchema = yup.object({
     otherwise: () => yup.mixed().notRequired()
   }),
 
+  // Organisation details - registration number format depends on the nature
+  juristic_person: yup.mixed().when('person_nature', (personNature: string) => {
+    if (!personNature || ['01', '02'].includes(personNature)) {
+      return yup.mixed().notRequired();
+    }
+
+    const registrationFormat = REGISTRATION_NUMBER_FORMATS[personNature];
+    return yup.object({
+      registration_number: registrationFormat
+        ? yup.string()
+            .required('Registration number is mandatory for this organisation type')
+            .matches(registrationFormat.pattern, `Registration number must look like ${registrationFormat.example}`)
+        : yup.string().max(20, 'Maximum 20 characters'),
+      trading_name: yup.string().max(32, 'Maximum 32 characters'),
+      registration_date: yup.string().test('not-future', 'Registration date cannot be in the future', function(value) {
+        if (!value) return true;
+        return new Date(value) <= new Date();
+      }),
+      representatives: yup.array().of(
+        yup.object({
+          id_document_type_code: yup.string().required('ID type is required'),
+          id_document_number: yup.string().required('ID number is required'),
+          person_id: yup.string().required('Look up the representative - they must be a registered person'),
+          capacity: yup.string().required('Capacity is required')
+        })
+      ).min(1, 'At least one representative is required for an organisation')
+    });
+  }),
+
   // Phone number validation
-  email_address: yup.string()
-    .max(50, 'Maximum 50 characters')
-    .email('Invalid email format'),
-  home_phone: yup.string()
-    .max(20, 'Maximum 20 characters'),
-  work_phone: yup.string()
-    .max(20, 'Maximum 20 characters'),
-  cell_phone_country_code: yup.string()
-    .matches(/^\+\d{1,4}$/, 'Invalid country code format'),
-  cell_phone: yup.string()
-    .max(15, 'Maximum 15 characters')
-    .matches(/^\d*$/, 'Cell phone must contain only digits')
+  email_address: createFieldSchema(rules, 'person.email_address'),
+  home_phone: createFieldSchema(rules, 'person.home_phone'),
+  work_phone: createFieldSchema(rules, 'person.work_phone'),
+  cell_phone_country_code: createFieldSchema(rules, 'person.cell_phone_country_code'),
+  cell_phone: createFieldSchema(rules, 'person.cell_phone')
     .when('cell_phone_country_code', {
       is: (val: string) => !!val,
-      then: () => yup.string().required('Cell phone number required when country code is provided'),
-      otherwise: () => yup.string()
+      then: schema => schema.required('Cell phone number required when country code is provided'),
+      otherwise: schema => schema
     }),
-  fax_phone: yup.string()
-    .max(20, 'Maximum 20 characters'),
+  fax_phone: createFieldSchema(rules, 'person.fax_phone'),
   
   // Extended ID document validation for all types
   aliases: yup.array().of(
     yup.object({
-      id_document_type_code: yup.string()
-        .required('Alias identification type is mandatory (V00012)')
-        .oneOf(['01', '02', '03', '05'], 'Invalid ID document type'),
-      id_document_number: yup.string()
-        .required('Alias identification number is mandatory (V00013)')
+      id_document_type_code: createFieldSchema(rules, 'person.id_document_type_code')
+        .oneOf(ID_DOCUMENT_TYPES.map(type => type.value), 'Invalid ID document type'),
+      id_document_number: createFieldSchema(rules, 'person.id_document_number')
         .test('document-format-validation', 'Invalid document number format', function(value) {
           const { id_document_type_code } = this.parent;
           if (!value || !id_document_type_code) return false;
           
-          // Get document type info
-          const docType = ID_DOCUMENT_TYPES.find(dt => dt.value === id_document_type_code);
-          if (!docType) return false;
-          
-          // Validate based on document type
-          if (docType.format === 'numeric' && docType.length === 13) {
-            // TRN, RSA ID, BRN validation
-            if (value.length !== 13) {
-              return this.createError({message: `${docType.label} must be exactly 13 characters (V00018)`});
-            }
-            if (!/^\d+$/.test(value)) {
-              return this.createError({message: `${docType.label} must be numeric only (V00017)`});
-            }
-            if (!validateCheckDigit(value)) {
-              return this.createError({message: `Invalid ${docType.label} check digit (V00019)`});
-            }
-                     } else if (id_document_type_code === '05') {
-             // Passport validation
-             if (!validatePassport(value)) {
-               return this.createError({message: 'Passport number must be 6-12 alphanumeric characters'});
-             }
-           } else if (id_document_type_code === '03') {
-            // Foreign ID validation
-            if (value.length < 4) {
-              return this.createError({message: 'Foreign ID must be at least 4 characters'});
-            }
-          }
-          
-          return true;
+          if (!getIdDocumentType(id_document_type_code)) return false;
+
+          const message = validateIdDocumentNumber(id_document_type_code, value);
+          return message ? this.createError({ message }) : true;
         }),
       country_of_issue: yup.string().required(),
       alias_status: yup.string().required(),
@@ -327,7 +319,7 @@ const personSchema = yup.object({
         })
         .test('expiry-required', 'Expiry date validation', function(value) {
           const { id_document_type_code } = this.parent;
-          const docType = ID_DOCUMENT_TYPES.find(dt => dt.value === id_document_type_code);
+          const docType = getIdDocumentType(id_document_type_code);
           
           if (docType?.requiresExpiry && !value) {
             return this.createError({message: `Expiry date is required for ${docType.label}`});
@@ -338,21 +330,43 @@ const personSchema = yup.object({
           return true;
         })
     })
-  ).min(1, 'At least one identification document is required'),
+  ).min(1, 'At least one identification document is required')
+    .test('nature-document-types', 'ID documents do not match the person nature', function(aliases) {
+      const personNature = this.parent.person_nature;
+      if (!aliases || !personNature) return true;
+
+      if (['01', '02'].includes(personNature)) return true;
+
+      const invalid = aliases.find(alias => alias?.id_document_type_code &&
+        !ORGANISATION_DOCUMENT_TYPES.includes(alias.id_document_type_code));
+
+      if (!invalid) return true;
+      return this.createError({ message: 'Organisations can only be registered under a TRN' });
+    }),
   
   addresses: yup.array().of(
     yup.object({
       address_type: yup.string().required(),
-      address_line_1: yup.string()
-        .max(35, 'Maximum 35 characters')
-        .required('Address line 1 is mandatory'),
-      address_line_2: yup.string().max(35, 'Maximum 35 characters'),
-      address_line_3: yup.string().max(35, 'Maximum 35 characters'),
-      address_line_4: yup.string().max(35, 'Maximum 35 characters'),
-      address_line_5: yup.string().max(35, 'Maximum 35 characters'),
-      postal_code: yup.string()
-        .matches(/^\d{4}$/, 'Postal code must be exactly 4 digits')
-        .required('Postal code is mandatory'),
+      address_line_1: createFieldSchema(rules, 'person.address_line_1'),
+      address_line_2: createFieldSchema(rules, 'person.address_line_2'),
+      address_line_3: createFieldSchema(rules, 'person.address_line_3'),
+      address_line_4: createFieldSchema(rules, 'person.address_line_4')
+        .when('address_type', {
+          is: (val: string) => val !== 'postal',
+          then: () => createFieldSchema(rules, 'person.address_line_4').required('Suburb is mandatory'),
+          otherwise: () => createFieldSchema(rules, 'person.address_line_4')
+        }),
+      address_line_5: createFieldSchema(rules, 'person.address_line_5'),
+      postal_code: createFieldSchema(rules, 'person.postal_code')
+        .test('postal-code-province', 'Postal code is not in the selected province', async function(value) {
+          const { province_code, country_code } = this.parent;
+          if (!value || !province_code || country_code !== 'ZA' || !/^\d{4}$/.test(value)) return true;
+
+          // Unknown postal codes (or an unavailable lookup) are left to the backend
+          const localities = await lookupService.searchLocalities({ postal_code: value });
+          if (localities.length === 0) return true;
+          return localities.some(locality => locality.province_code === province_code);
+        }),
       country_code: yup.string().required(),
       province_code: yup.string()
     })
@@ -368,13 +382,101 @@ const steps = [
   'Review & Submit'
 ];
 
+// Fields validated by each step
+const STEP_FIELDS: string[][] = [
+  ['id_document_type_code', 'id_document_number'],
+  ['person_nature'],
+  ['business_or_surname', 'nationality_code', 'initials', 'email_address', 'home_phone', 'work_phone', 'cell_phone_country_code', 'cell_phone', 'fax_phone', 'natural_person.full_name_1', 'natural_person.full_name_2', 'natural_person.full_name_3', 'natural_person.birth_date', 'juristic_person'],
+  ['aliases'],
+  ['addresses'],
+  [] // Review step
+];
+
+// Pause in typing after which the draft is saved
+const DRAFT_SAVE_DELAY_MS = 2000;
+
+// Pre-populate form with existing person data for editing
+// Handle both summary data (PersonSummary) and full PersonResponse from backend
+const toEditFormValues = (person: PersonSummary | any): PersonManagementForm => ({
+  business_or_surname: person?.business_or_surname || person?.name || '',
+  initials: person?.initials || '',
+  person_nature: person?.person_nature || '01',
+  nationality_code: person?.nationality_code || 'ZA',
+  preferred_language: person?.preferred_language || 'en',
+  email_address: person?.email_address || '',
+  home_phone: person?.home_phone || '',
+  work_phone: person?.work_phone || '',
+  cell_phone_country_code: person?.cell_phone_country_code || '+27',
+  cell_phone: person?.cell_phone || '',
+  fax_phone: person?.fax_phone || '',
+  natural_person: person.natural_person ? {
+    full_name_1: person.natural_person.full_name_1 || '',
+    full_name_2: person.natural_person.full_name_2 || '',
+    full_name_3: person.natural_person.full_name_3 || '',
+    birth_date: person.natural_person.birth_date || '',
+    preferred_language_code: person.natural_person.preferred_language_code || 'en'
+  } : {
+    full_name_1: '',
+    full_name_2: '',
+    full_name_3: '',
+    birth_date: '',
+    preferred_language_code: 'en'
+  },
+  juristic_person: {
+    registration_number: person.juristic_person?.registration_number || '',
+    trading_name: person.juristic_person?.trading_name || '',
+    registration_date: person.juristic_person?.registration_date || '',
+    representatives: person.juristic_person?.representatives || []
+  },
+  aliases: person.aliases?.map((alias: any) => ({
+    id_document_type_code: alias.id_document_type_code || '02',
+    id_document_number: alias.id_document_number || '',
+    country_of_issue: alias.country_of_issue || 'ZA',
+    name_in_document: alias.name_in_document || '',
+    alias_status: alias.alias_status || '1',
+    is_current: alias.is_current !== undefined ? alias.is_current : true,
+    id_document_expiry_date: alias.id_document_expiry_date || ''
+  })) || [{
+    id_document_type_code: person?.id_type || '02',
+    id_document_number: person?.id_number || '',
+    country_of_issue: 'ZA',
+    name_in_document: '',
+    alias_status: '1',
+    is_current: true,
+    id_document_expiry_date: ''
+  }],
+  addresses: person.addresses?.map((address: any) => ({
+    address_type: address.address_type || 'street',
+    address_line_1: address.address_line_1 || '',
+    address_line_2: address.address_line_2 || '',
+    address_line_3: address.address_line_3 || '',
+    address_line_4: address.address_line_4 || '',
+    address_line_5: address.address_line_5 || '',
+    postal_code: address.postal_code || '',
+    country_code: address.country_code || 'ZA',
+    province_code: address.province_code || '',
+    is_primary: address.is_primary !== undefined ? address.is_primary : true
+  })) || [{
+    address_type: 'street',
+    address_line_1: '',
+    address_line_2: '',
+    address_line_3: '',
+    address_line_4: '',
+    address_line_5: '',
+    postal_code: '',
+    country_code: 'ZA',
+    province_code: '',
+    is_primary: true
+  }]
+});
+
 const PersonManagementPage = () => {
-  // Auth
-  const { accessToken } = useAuth();
-  
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
   // State management
   const [currentStep, setCurrentStep] = useState(0);
-  const [personFound, setPersonFound] = useState<ExistingPerson | null>(null);
+  const [personFound, setPersonFound] = useState<PersonSummary | null>(null);
   const [currentPersonId, setCurrentPersonId] = useState<string | null>(null);
   const [isNewPerson, setIsNewPerson] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
@@ -386,6 +488,25 @@ const PersonManagementPage = () => {
   const [provinces, setProvinces] = useState<Province[]>([]);
   const [phoneCodes, setPhoneCodes] = useState<PhoneCode[]>([]);
   const [lookupDataLoading, setLookupDataLoading] = useState(true);
+
+  // Saved registration drafts
+  const [drafts, setDrafts] = useState<PersonDraft[]>([]);
+  const draftSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Duplicate check before review
+  const [duplicateMatches, setDuplicateMatches] = useState<PersonDuplicateMatch[]>([]);
+  const [duplicateDialogOpen, setDuplicateDialogOpen] = useState(false);
+  const [duplicateBusy, setDuplicateBusy] = useState(false);
+  const [confirmedDuplicateKey, setConfirmedDuplicateKey] = useState<string | null>(null);
+  const [mergeCandidate, setMergeCandidate] = useState<{ existing: Person; fields: MergeField[] } | null>(null);
+
+  // Supervisor override of RSA ID conflicts
+  const { allowed: canOverrideConflicts } = usePermission(PERMISSIONS.PERSON_VALIDATION_OVERRIDE);
+  const [overrideReason, setOverrideReason] = useState('');
+
+  // Field rules from the backend catalogue (built-in defaults until loaded)
+  const [validationRules, setValidationRules] = useState<ValidationRule[]>(DEFAULT_VALIDATION_RULES);
+  const personSchema = useMemo(() => createPersonSchema(validationRules), [validationRules]);
   
   // Lookup form
   const lookupForm = useForm<PersonLookupForm>({
@@ -417,6 +538,12 @@ const PersonManagementPage = () => {
         birth_date: '',
         preferred_language_code: 'en'
       },
+      juristic_person: {
+        registration_number: '',
+        trading_name: '',
+        registration_date: '',
+        representatives: []
+      },
       aliases: [{
         id_document_type_code: '02',
         id_document_number: '',
@@ -450,8 +577,31 @@ const PersonManagementPage = () => {
     name: 'addresses'
   });
 
+  const { fields: representativeFields, append: appendRepresentative, remove: removeRepresentative } = useFieldArray({
+    control: personForm.control,
+    name: 'juristic_person.representatives'
+  });
+
   // Watch form values
   const watchedPersonNature = personForm.watch('person_nature');
+  const watchedAddressTypes = (personForm.watch('addresses') || []).map(address => address.address_type);
+
+  // V00034, V00065 - Captured details must agree with the person's RSA ID
+  const watchedRSAId = (personForm.watch('aliases') || [])
+    .find(alias => alias.id_document_type_code === ID_DOCUMENT_TYPE_CODES.RSA_ID)?.id_document_number;
+  const rsaIdConflicts = watchedRSAId
+    ? findRSAIdConflicts({
+        rsaId: watchedRSAId,
+        birthDate: personForm.watch('natural_person.birth_date'),
+        personNature: watchedPersonNature,
+        nationalityCode: personForm.watch('nationality_code')
+      })
+    : [];
+  const conflictsResolved = rsaIdConflicts.length === 0 || (canOverrideConflicts && isOverrideReasonValid(overrideReason));
+
+  useEffect(() => {
+    lookupService.getValidationRules().then(setValidationRules);
+  }, []);
 
   // Load lookup data on component mount
   useEffect(() => {
@@ -539,60 +689,166 @@ const PersonManagementPage = () => {
     };
 
     loadLookupData();
+    loadDrafts();
   }, []);
 
+  // Opened from a person link (?edit=<id>) - go straight to editing that record
+  useEffect(() => {
+    const editId = searchParams.get('edit');
+    if (editId) {
+      startEditById(editId);
+    }
+  }, [searchParams]);
+
+  // Save the registration as a draft whenever the wizard moves to another step,
+  // and shortly after the user stops typing within a step
+  useEffect(() => {
+    if (!isNewPerson || isEditMode || currentStep === 0) return;
+
+    saveDraft(currentStep);
+    const subscription = personForm.watch(() => {
+      cancelPendingDraftSave();
+      draftSaveTimerRef.current = setTimeout(() => saveDraft(currentStep), DRAFT_SAVE_DELAY_MS);
+    });
+    return () => {
+      subscription.unsubscribe();
+      cancelPendingDraftSave();
+    };
+  }, [currentStep, isNewPerson, isEditMode]);
+
+  // Drafts
+  const loadDrafts = async () => {
+    try {
+      setDrafts(await personDraftService.getMine());
+    } catch (error) {
+      console.error('Failed to load drafts:', error);
+    }
+  };
+
+  const cancelPendingDraftSave = () => {
+    if (draftSaveTimerRef.current) {
+      clearTimeout(draftSaveTimerRef.current);
+      draftSaveTimerRef.current = null;
+    }
+  };
+
+  const saveDraft = async (step: number) => {
+    draftSaveTimerRef.current = null;
+    const { id_document_type_code, id_document_number } = lookupForm.getValues();
+    if (!id_document_type_code || !id_document_number) return;
+
+    try {
+      await personDraftService.save({
+        id_document_type_code,
+        id_document_number,
+        current_step: step,
+        form_data: personForm.getValues()
+      });
+    } catch (error) {
+      // Drafts are a convenience; never block the registration on them
+      console.error('Failed to save draft:', error);
+    }
+  };
+
+  // Resume from the drafts list: run the same existence checks as a lookup first
+  const openDraft = (draft: PersonDraft) => {
+    const lookupData = {
+      id_document_type_code: draft.id_document_type_code,
+      id_document_number: draft.id_document_number
+    };
+    lookupForm.reset(lookupData);
+    performLookup(lookupData, draft);
+  };
+
+  // Restore a draft, revalidating the completed steps. The wizard opens at
+  // the first step that no longer validates, or where the draft was saved.
+  const resumeDraft = async (draft: PersonDraft) => {
+    personForm.reset(draft.form_data as PersonManagementForm);
+    setPersonFound(null);
+    setCurrentPersonId(null);
+    setIsEditMode(false);
+    setIsNewPerson(true);
+
+    const validation = new Array(steps.length).fill(false);
+    validation[0] = true;
+    let resumeStep = draft.current_step;
+    for (let step = 1; step < draft.current_step; step++) {
+      validation[step] = await personForm.trigger(STEP_FIELDS[step] as any);
+      if (!validation[step] && resumeStep === draft.current_step) {
+        resumeStep = step;
+      }
+    }
+    setStepValidation(validation);
+    setCurrentStep(resumeStep);
+    return resumeStep === draft.current_step;
+  };
+
+  const discardDraft = async (draft: PersonDraft) => {
+    if (!window.confirm(`Discard the draft registration for ${draft.id_document_number}?`)) {
+      return;
+    }
+
+    try {
+      await personDraftService.discard(draft.id_document_type_code, draft.id_document_number);
+      setDrafts(prev => prev.filter(d =>
+        d.id_document_type_code !== draft.id_document_type_code || d.id_document_number !== draft.id_document_number
+      ));
+      toast.success('Draft discarded');
+    } catch (error) {
+      toast.error('Failed to discard draft');
+    }
+  };
+
   // Step 1: ID Lookup functionality
-  const performLookup = async (data: PersonLookupForm) => {
+  const performLookup = async (data: PersonLookupForm, savedDraft?: PersonDraft) => {
     setLookupLoading(true);
     
     try {
-      // V00033 - Check if person exists first
-      const existenceResponse = await fetch(API_ENDPOINTS.personCheckExistence(data.id_document_type_code, data.id_document_number), {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`
-        }
-      });
+      // V00033 - Check if person exists first (fall through to the ID search if the check is unavailable)
+      const existenceCheck = await personService
+        .checkExistence(data.id_document_type_code, data.id_document_number)
+        .catch(() => null);
       
-      if (existenceResponse.ok) {
-        const existenceCheck = await existenceResponse.json();
-        
-        if (existenceCheck.exists) {
-          // V00033 - Person already exists - ERROR and STOP
-          console.log('Person found via existence check:', existenceCheck.person_summary);
-          console.log('Existence check person keys:', Object.keys(existenceCheck.person_summary || {}));
-          setPersonFound(existenceCheck.person_summary);
-          setIsNewPerson(false);
-          markStepValid(0, false); // Mark as invalid to prevent progression
-          return; // Do not proceed with lookup
-        }
+      if (existenceCheck?.exists && existenceCheck.person_summary) {
+        // V00033 - Person already exists - ERROR and STOP
+        console.log('Person found via existence check:', existenceCheck.person_summary);
+        setPersonFound(existenceCheck.person_summary);
+        setIsNewPerson(false);
+        markStepValid(0, false); // Mark as invalid to prevent progression
+        return; // Do not proceed with lookup
       }
       
-      const response = await fetch(API_ENDPOINTS.personSearchById(data.id_document_number), {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`
+      const results = await personService.searchByIdNumber(data.id_document_number);
+
+      if (results && results.length > 0) {
+        // V00033 - Person already exists - ERROR and STOP
+        const person = results[0];
+        console.log('Person found via search:', person);
+        setPersonFound(person);
+        setIsNewPerson(false);
+        markStepValid(0, false); // Mark as invalid to prevent progression
+        // Display error - do not advance steps
+      } else {
+        // Person not found - resume an earlier draft for this document if there is one
+        const draft = savedDraft || await personDraftService
+          .getByDocument(data.id_document_type_code, data.id_document_number)
+          .catch(() => null);
+        if (draft) {
+          const complete = await resumeDraft(draft);
+          if (complete) {
+            toast.success('Resumed your saved draft for this ID document');
+          } else {
+            toast('Resumed your saved draft; some earlier details need to be corrected');
+          }
+          return;
         }
-      });
 
-      if (response.ok) {
-        const results = await response.json();
-        
-        if (results && results.length > 0) {
-          // V00033 - Person already exists - ERROR and STOP
-          const person = results[0];
-          console.log('Person found via search:', person);
-          console.log('Search result person keys:', Object.keys(person || {}));
-          setPersonFound(person);
-          setIsNewPerson(false);
-          markStepValid(0, false); // Mark as invalid to prevent progression
-          // Display error - do not advance steps
-        } else {
-          // Person not found - proceed with new registration
-          setPersonFound(null);
-          setIsNewPerson(true);
-          setupNewPersonForm(data);
-          markStepValid(0, true);
-          setCurrentStep(1); // Go to person nature selection
-        }
+        // Proceed with new registration
+        setPersonFound(null);
+        setIsNewPerson(true);
+        setupNewPersonForm(data);
+        markStepValid(0, true);
+        setCurrentStep(1); // Go to person nature selection
       }
     } catch (error) {
       console.error('Lookup failed:', error);
@@ -611,45 +867,29 @@ const PersonManagementPage = () => {
     };
     personForm.setValue('aliases', currentAliases);
     
-    // Auto-derive data for RSA ID
-    if (lookupData.id_document_type_code === '02' && lookupData.id_document_number.length === 13) {
-      const derivedData = deriveFromRSAID(lookupData.id_document_number);
-      if (derivedData.gender) {
-        personForm.setValue('person_nature', derivedData.gender);
-      }
-      if (derivedData.birthDate && derivedData.birthDate !== 'Invalid Date') {
-        personForm.setValue('natural_person.birth_date', derivedData.birthDate);
-      }
+    // V00034, V00065 - Auto-derive gender, birth date and citizenship from a valid RSA ID
+    if (lookupData.id_document_type_code === ID_DOCUMENT_TYPE_CODES.RSA_ID) {
+      applyRSAIdDetails(lookupData.id_document_number);
     }
   };
 
-  const deriveFromRSAID = (idNumber: string) => {
-    if (idNumber.length !== 13) return { gender: null, birthDate: null };
-    
-    // V00065 - Extract birth date (YYMMDD) with century determination
-    const year = parseInt(idNumber.substring(0, 2));
-    const month = parseInt(idNumber.substring(2, 4));
-    const day = parseInt(idNumber.substring(4, 6));
-    
-    // Validate extracted values
-    if (month < 1 || month > 12 || day < 1 || day > 31) {
-      return { gender: null, birthDate: null };
+  const applyRSAIdDetails = (rsaId: string) => {
+    const details = parseRSAId(rsaId);
+    if (!details) return;
+
+    const nature = personForm.getValues('person_nature');
+    if (!nature || Object.values(PERSON_NATURE_BY_GENDER).includes(nature)) {
+      personForm.setValue('person_nature', PERSON_NATURE_BY_GENDER[details.gender]);
+    }
+    personForm.setValue('natural_person.birth_date', details.birthDate);
+
+    const nationality = personForm.getValues('nationality_code');
+    if (details.citizenship === 'citizen') {
+      personForm.setValue('nationality_code', SOUTH_AFRICA_NATIONALITY);
+    } else if (nationality === SOUTH_AFRICA_NATIONALITY) {
+      // Permanent residents and refugees hold a foreign nationality the ID doesn't encode
+      personForm.setValue('nationality_code', '');
     }
-    
-    // Century logic: if year > 21, assume 1900s, else 2000s (adjustable based on system date)
-    const fullYear = year > 21 ? 1900 + year : 2000 + year;
-    
-    // Create date string directly to avoid timezone issues
-    const birthDateString = `${fullYear}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-    
-    // V00034 - Extract gender from digits 7-10 (position 6-9 in 0-based indexing)
-    const genderDigits = parseInt(idNumber.substring(6, 10));
-    const gender = genderDigits > 4999 ? '01' : '02'; // Male: 5000-9999, Female: 0000-4999
-    
-    return {
-      gender,
-      birthDate: birthDateString
-    };
   };
 
   // Step validation
@@ -660,7 +900,6 @@ const PersonManagementPage = () => {
   };
 
   const validateCurrentStep = async () => {
-    const currentStepData = getCurrentStepData();
     
     try {
       if (currentStep === 0) {
@@ -676,7 +915,7 @@ const PersonManagementPage = () => {
           return isValid;
         } else {
           // Validate current step fields
-          const isValid = await personForm.trigger(currentStepData.fields as any);
+          const isValid = await personForm.trigger(STEP_FIELDS[currentStep] as any);
           markStepValid(currentStep, isValid);
           return isValid;
         }
@@ -687,19 +926,6 @@ const PersonManagementPage = () => {
     }
   };
 
-  const getCurrentStepData = () => {
-    const stepData = [
-      { fields: ['id_document_type_code', 'id_document_number'] },
-      { fields: ['person_nature'] },
-      { fields: ['business_or_surname', 'nationality_code', 'initials', 'email_address', 'home_phone', 'work_phone', 'cell_phone_country_code', 'cell_phone', 'fax_phone', 'natural_person.full_name_1', 'natural_person.full_name_2', 'natural_person.full_name_3', 'natural_person.birth_date'] },
-      { fields: ['aliases'] },
-      { fields: ['addresses'] },
-      { fields: [] } // Review step
-    ];
-    
-    return stepData[currentStep];
-  };
-
   const handleNext = async () => {
     const isValid = await validateCurrentStep();
     
@@ -709,11 +935,216 @@ const PersonManagementPage = () => {
         const lookupData = lookupForm.getValues();
         await performLookup(lookupData);
       } else if (currentStep < steps.length - 1) {
+        if (currentStep === 2 && !conflictsResolved) {
+          toast.error('Resolve the conflicts with the RSA ID before continuing');
+          return;
+        }
+
+        // New persons are checked for likely duplicates before the review step
+        const reviewStep = steps.length - 1;
+        if (currentStep + 1 === reviewStep && isNewPerson && !(await checkForDuplicates())) {
+          return;
+        }
         setCurrentStep(currentStep + 1);
       }
     }
   };
 
+  // Duplicate detection
+  const getDuplicateCriteria = (): PersonDuplicateCheckRequest => {
+    const values = personForm.getValues();
+    return {
+      business_or_surname: values.business_or_surname,
+      initials: values.initials || undefined,
+      birth_date: values.natural_person?.birth_date || undefined,
+      cell_phone: values.cell_phone || undefined,
+      email_address: values.email_address || undefined
+    };
+  };
+
+  // Resolves true when the registration may continue to the review step
+  const checkForDuplicates = async (): Promise<boolean> => {
+    const criteria = getDuplicateCriteria();
+    if (JSON.stringify(criteria) === confirmedDuplicateKey) return true;
+
+    try {
+      const matches = await personService.findDuplicates(criteria);
+      if (matches.length === 0) return true;
+
+      setDuplicateMatches(matches);
+      setDuplicateDialogOpen(true);
+      return false;
+    } catch (error) {
+      // The exact ID check already passed; don't block registration if the fuzzy check is unavailable
+      console.error('Duplicate check failed:', error);
+      return true;
+    }
+  };
+
+  const isSameDocument = (a: PersonAlias, b: PersonAlias) =>
+    a.id_document_type_code === b.id_document_type_code && a.id_document_number === b.id_document_number;
+
+  const discardCurrentDraft = () => {
+    cancelPendingDraftSave();
+    const { id_document_type_code, id_document_number } = lookupForm.getValues();
+    return personDraftService.discard(id_document_type_code, id_document_number).catch(() => undefined);
+  };
+
+  const handleConfirmNewPerson = () => {
+    setConfirmedDuplicateKey(JSON.stringify(getDuplicateCriteria()));
+    setDuplicateDialogOpen(false);
+    setCurrentStep(steps.length - 1);
+  };
+
+  // Add the ID documents captured here to the existing person instead of registering a new one
+  const handleLinkAlias = async (match: PersonDuplicateMatch) => {
+    if (!match.person.id) return;
+    setDuplicateBusy(true);
+
+    try {
+      const existing = await personService.getById(match.person.id);
+      if (!existing.is_active) {
+        toast.error('The existing person is deactivated and must be reactivated first');
+        return;
+      }
+
+      const existingAliases = existing.aliases || [];
+      const newAliases = personForm.getValues('aliases')
+        .filter(alias => !existingAliases.some(current => isSameDocument(current, alias)))
+        .map(alias => ({ ...alias, is_current: false }));
+
+      await personService.update(existing.id, { aliases: [...existingAliases, ...newAliases] });
+      await discardCurrentDraft();
+
+      toast.success(`ID document linked to ${existing.business_or_surname}`);
+      setDuplicateDialogOpen(false);
+      resetForm();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to link ID document'));
+    } finally {
+      setDuplicateBusy(false);
+    }
+  };
+
+  // Combine the captured details with the existing person and review it as an update.
+  // The existing person's values survive unless the clerk picks the entered ones.
+  const applyMerge = async (existing: Person, enteredFields: string[]) => {
+    const entered = personForm.getValues();
+    const merged = toEditFormValues(existing);
+
+    const values: Record<string, unknown> = {};
+    const naturalPerson: Record<string, unknown> = { ...merged.natural_person };
+    MERGE_FIELDS.forEach(field => {
+      // Blank existing values take whatever was entered
+      if (!enteredFields.includes(field.key) && field.get(existing)) return;
+      const value = field.get(entered) || '';
+      if (NATURAL_PERSON_FIELDS.includes(field.key)) {
+        naturalPerson[field.key] = value;
+      } else {
+        values[field.key] = value;
+      }
+    });
+
+    personForm.reset({
+      ...merged,
+      ...values,
+      natural_person: naturalPerson,
+      juristic_person: existing.juristic_person ? merged.juristic_person : entered.juristic_person,
+      aliases: existing.aliases?.length
+        ? combineEntries(merged.aliases, entered.aliases, aliasKey, alias => ({ ...alias, is_current: false }))
+        : entered.aliases,
+      addresses: existing.addresses?.length
+        ? combineEntries(merged.addresses, entered.addresses, addressKey, address => ({ ...address, is_primary: false }))
+        : entered.addresses
+    } as PersonManagementForm);
+    await discardCurrentDraft();
+
+    setMergeCandidate(null);
+    setCurrentPersonId(existing.id);
+    setIsNewPerson(false);
+    setIsEditMode(true);
+    setDuplicateDialogOpen(false);
+    setCurrentStep(steps.length - 1);
+    toast('Review the merged record before updating the existing person');
+  };
+
+  const handleMergeDuplicate = async (match: PersonDuplicateMatch) => {
+    if (!match.person.id) return;
+    setDuplicateBusy(true);
+
+    try {
+      const existing = await personService.getById(match.person.id);
+      if (!existing.is_active) {
+        toast.error('The existing person is deactivated and must be reactivated first');
+        return;
+      }
+
+      // Only values the existing person already holds need a choice
+      const entered = personForm.getValues();
+      const conflicts = MERGE_FIELDS.filter(field => {
+        const current = field.get(existing);
+        const value = field.get(entered);
+        return current && value && current !== value;
+      });
+
+      if (conflicts.length > 0) {
+        setMergeCandidate({ existing, fields: conflicts });
+      } else {
+        await applyMerge(existing, []);
+      }
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to load the existing person'));
+    } finally {
+      setDuplicateBusy(false);
+    }
+  };
+
+  // Representatives must already be registered; link them by ID document
+  const lookupRepresentative = async (index: number) => {
+    const representative = personForm.getValues(`juristic_person.representatives.${index}`);
+    if (!representative?.id_document_number) return;
+
+    try {
+      const result = await personService.checkExistence(
+        representative.id_document_type_code,
+        representative.id_document_number
+      );
+      const summary = result.person_summary;
+
+      if (result.exists && summary?.id && !summary.is_active) {
+        personForm.setValue(`juristic_person.representatives.${index}.person_id`, '');
+        personForm.setValue(`juristic_person.representatives.${index}.name`, '');
+        toast.error('This person is deactivated and cannot be linked until reactivated.');
+      } else if (result.exists && summary?.id) {
+        personForm.setValue(`juristic_person.representatives.${index}.person_id`, summary.id);
+        personForm.setValue(
+          `juristic_person.representatives.${index}.name`,
+          [summary.natural_person?.full_name_1, summary.business_or_surname || summary.name].filter(Boolean).join(' ')
+        );
+        personForm.clearErrors(`juristic_person.representatives.${index}`);
+      } else {
+        personForm.setValue(`juristic_person.representatives.${index}.person_id`, '');
+        personForm.setValue(`juristic_person.representatives.${index}.name`, '');
+        toast.error('No person is registered with this ID document. Register the representative first.');
+      }
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Representative lookup failed'));
+    }
+  };
+
+  // Fill the rest of the address from a suburb suggestion
+  const selectLocality = (index: number, locality: AddressLocality) => {
+    personForm.setValue(`addresses.${index}.address_line_4`, locality.suburb.toUpperCase());
+    personForm.setValue(`addresses.${index}.address_line_5`, locality.city.toUpperCase());
+    personForm.setValue(`addresses.${index}.postal_code`, locality.postal_code);
+    personForm.setValue(`addresses.${index}.province_code`, locality.province_code);
+    personForm.trigger([
+      `addresses.${index}.address_line_4`,
+      `addresses.${index}.address_line_5`,
+      `addresses.${index}.postal_code`
+    ]);
+  };
+
   const handleBack = () => {
     if (currentStep > 0) {
       setCurrentStep(currentStep - 1);
@@ -721,10 +1152,16 @@ const PersonManagementPage = () => {
   };
 
   const handleSubmit = async () => {
+    if (!conflictsResolved) {
+      toast.error('Resolve the conflicts with the RSA ID before saving');
+      return;
+    }
+
     setSubmitLoading(true);
+    cancelPendingDraftSave();
     
     try {
-      const formData = personForm.getValues();
+      const formData: PersonManagementForm & { consistency_override?: PersonConsistencyOverride } = personForm.getValues();
       
       // Clean up empty date fields to prevent backend validation errors
       if (formData.aliases) {
@@ -734,28 +1171,57 @@ const PersonManagementPage = () => {
           id_document_expiry_date: alias.id_document_expiry_date?.trim() || undefined
         }));
       }
-      
-      const url = isNewPerson ? `${API_BASE_URL}/api/v1/persons/` : `${API_BASE_URL}/api/v1/persons/${currentPersonId}`;
-      const method = isNewPerson ? 'POST' : 'PUT';
-      
-      const response = await fetch(url, {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`
-        },
-        body: JSON.stringify(formData)
-      });
 
-      if (response.ok) {
-        // Success - redirect or show success message
-        console.log('Person saved successfully');
+      formData.addresses = formData.addresses.map(address => normaliseAddressLines(address));
+
+      if (rsaIdConflicts.length > 0) {
+        formData.consistency_override = {
+          reason: overrideReason.trim(),
+          conflicts: rsaIdConflicts.map(conflict => conflict.field)
+        };
+      }
+
+      // Only send the details that apply to the person nature
+      if (['01', '02'].includes(formData.person_nature)) {
+        delete formData.juristic_person;
       } else {
-        const errorData = await response.json();
-        console.error('Submit failed:', errorData);
+        delete formData.natural_person;
+        delete formData.initials;
+      }
+      
+      let savedPersonId = currentPersonId;
+      if (isNewPerson) {
+        const created = await personService.create(formData);
+        savedPersonId = created.id;
+
+        // The registration is complete, so its draft is no longer needed
+        const { id_document_type_code, id_document_number } = lookupForm.getValues();
+        await personDraftService.discard(id_document_type_code, id_document_number).catch(() => undefined);
+      } else if (currentPersonId) {
+        await personService.update(currentPersonId, formData);
+      }
+
+      // Land on the saved person's profile
+      toast.success(isNewPerson ? 'Person registered successfully' : 'Person updated successfully');
+      if (savedPersonId) {
+        navigate(`/dashboard/persons/${savedPersonId}`);
       }
     } catch (error) {
       console.error('Submit failed:', error);
+      if (isApiError(error) && error.isValidationError) {
+        // Show field errors on the fields and go back to the first step that has one
+        const fieldErrors = Object.entries(error.getFieldErrorMap()).filter(([field]) => field);
+        fieldErrors.forEach(([field, message]) => {
+          personForm.setError(field as Parameters<typeof personForm.setError>[0], { type: 'server', message });
+        });
+        const errorStep = STEP_FIELDS.findIndex((fields, step) =>
+          step > 0 && fieldErrors.some(([field]) => fields.some(name => field === name || field.startsWith(`${name}.`)))
+        );
+        if (errorStep > 0) {
+          setCurrentStep(errorStep);
+        }
+      }
+      toast.error(getErrorMessage(error, isNewPerson ? 'Failed to register person' : 'Failed to update person'));
     } finally {
       setSubmitLoading(false);
     }
@@ -768,18 +1234,53 @@ const PersonManagementPage = () => {
     setIsNewPerson(false);
     setIsEditMode(false);
     setStepValidation(new Array(steps.length).fill(false));
+    setConfirmedDuplicateKey(null);
+    setOverrideReason('');
     lookupForm.reset();
     personForm.reset();
+    loadDrafts();
   };
 
   // Handler functions for edit/review functionality
-  const handleViewPerson = (person: ExistingPerson) => {
-    // TODO: Open a dialog or navigate to a view page showing full person details
-    console.log('Viewing person:', person);
-    alert(`Viewing details for: ${person.business_or_surname}\nFeature coming soon!`);
+  const handleViewPerson = (person: PersonSummary) => {
+    if (person.id) {
+      navigate(`/dashboard/persons/${person.id}`);
+    }
   };
 
-  const handleEditPerson = async (person: ExistingPerson) => {
+  const startEditById = async (personId: string) => {
+    try {
+      const person = await personService.getById(personId);
+      if (!person.is_active) {
+        toast.error('Deactivated persons must be reactivated before they can be edited');
+        navigate(`/dashboard/persons/${person.id}`);
+        return;
+      }
+
+      const primaryAlias = person.aliases?.find(alias => alias.is_current) || person.aliases?.[0];
+      if (primaryAlias) {
+        lookupForm.reset({
+          id_document_type_code: primaryAlias.id_document_type_code,
+          id_document_number: primaryAlias.id_document_number
+        });
+      }
+
+      setPersonFound({
+        id: person.id,
+        business_or_surname: person.business_or_surname,
+        person_nature: person.person_nature,
+        is_active: person.is_active
+      });
+      setIsNewPerson(false);
+      setIsEditMode(true);
+      setCurrentPersonId(person.id);
+      populateEditForm(person);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to load person for editing'));
+    }
+  };
+
+  const handleEditPerson = async (person: PersonSummary) => {
     console.log('Starting edit for person:', person);
     console.log('Person object keys:', Object.keys(person));
     
@@ -790,14 +1291,8 @@ const PersonManagementPage = () => {
     // We need to fetch the complete person record for editing
     try {
       console.log('Fetching complete person record...');
-      const response = await fetch(`${API_BASE_URL}/api/v1/persons/search?id_type=${person.id_type}&id_number=${person.id_number}`, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`
-        }
-      });
-      
-      if (response.ok) {
-        const fullPersonData = await response.json();
+      if (person.id_type && person.id_number) {
+        const fullPersonData = await personService.getByDocument(person.id_type, person.id_number);
         console.log('Full person data received:', fullPersonData);
         console.log('Full person data keys:', Object.keys(fullPersonData || {}));
         
@@ -815,85 +1310,19 @@ const PersonManagementPage = () => {
       }
     } catch (error) {
       console.error('Error fetching full person data:', error);
+      setCurrentPersonId(person.id || null);
       populateEditForm(person);
     }
   };
 
-  const populateEditForm = (person: ExistingPerson | any) => {
+  const populateEditForm = (person: PersonSummary | any) => {
     console.log('Populating form with person data:', person);
     console.log('Person business_or_surname:', person.business_or_surname);
     console.log('Person natural_person:', person.natural_person);
     console.log('Person aliases:', person.aliases);
     console.log('Person addresses:', person.addresses);
     
-    // Pre-populate form with existing person data for editing
-    // Handle both summary data (ExistingPerson) and full PersonResponse from backend
-    const personData: PersonManagementForm = {
-      business_or_surname: person?.business_or_surname || person?.name || '',
-      initials: person?.initials || '',
-      person_nature: person?.person_nature || '01',
-      nationality_code: person?.nationality_code || 'ZA',
-      preferred_language: person?.preferred_language || 'en',
-      email_address: person?.email_address || '',
-      home_phone: person?.home_phone || '',
-      work_phone: person?.work_phone || '',
-      cell_phone_country_code: person?.cell_phone_country_code || '+27',
-      cell_phone: person?.cell_phone || '',
-      fax_phone: person?.fax_phone || '',
-      natural_person: person.natural_person ? {
-        full_name_1: person.natural_person.full_name_1 || '',
-        full_name_2: person.natural_person.full_name_2 || '',
-        full_name_3: person.natural_person.full_name_3 || '',
-        birth_date: person.natural_person.birth_date || '',
-        preferred_language_code: person.natural_person.preferred_language_code || 'en'
-      } : {
-        full_name_1: '',
-        full_name_2: '',
-        full_name_3: '',
-        birth_date: '',
-        preferred_language_code: 'en'
-      },
-      aliases: person.aliases?.map((alias: any) => ({
-        id_document_type_code: alias.id_document_type_code || '02',
-        id_document_number: alias.id_document_number || '',
-        country_of_issue: alias.country_of_issue || 'ZA',
-        name_in_document: alias.name_in_document || '',
-        alias_status: alias.alias_status || '1',
-        is_current: alias.is_current !== undefined ? alias.is_current : true,
-        id_document_expiry_date: alias.id_document_expiry_date || ''
-      })) || [{
-        id_document_type_code: person?.id_type || '02',
-        id_document_number: person?.id_number || '',
-        country_of_issue: 'ZA',
-        name_in_document: '',
-        alias_status: '1',
-        is_current: true,
-        id_document_expiry_date: ''
-      }],
-      addresses: person.addresses?.map((address: any) => ({
-        address_type: address.address_type || 'street',
-        address_line_1: address.address_line_1 || '',
-        address_line_2: address.address_line_2 || '',
-        address_line_3: address.address_line_3 || '',
-        address_line_4: address.address_line_4 || '',
-        address_line_5: address.address_line_5 || '',
-        postal_code: address.postal_code || '',
-        country_code: address.country_code || 'ZA',
-        province_code: address.province_code || '',
-        is_primary: address.is_primary !== undefined ? address.is_primary : true
-      })) || [{
-        address_type: 'street',
-        address_line_1: '',
-        address_line_2: '',
-        address_line_3: '',
-        address_line_4: '',
-        address_line_5: '',
-        postal_code: '',
-        country_code: 'ZA',
-        province_code: '',
-        is_primary: true
-      }]
-    };
+    const personData = toEditFormValues(person);
 
     console.log('Populating form with data:', personData);
     console.log('PersonData object keys:', Object.keys(personData));
@@ -958,6 +1387,63 @@ const PersonManagementPage = () => {
      }, 100);
    };
 
+  // Render the current user's saved drafts
+  const renderDraftsCard = () => {
+    if (drafts.length === 0) return null;
+
+    return (
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Typography variant="h6" gutterBottom>
+            My Drafts
+          </Typography>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            Registrations you started but have not submitted yet.
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>ID Document</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Next Step</TableCell>
+                <TableCell>Last Saved</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {drafts.map((draft) => (
+                <TableRow key={`${draft.id_document_type_code}-${draft.id_document_number}`} hover>
+                  <TableCell>
+                    {getIdDocumentTypeLabel(draft.id_document_type_code)}
+                    {' - '}
+                    {draft.id_document_number}
+                  </TableCell>
+                  <TableCell>
+                    {[draft.form_data.natural_person?.full_name_1, draft.form_data.business_or_surname].filter(Boolean).join(' ') || '-'}
+                  </TableCell>
+                  <TableCell>{steps[draft.current_step] || '-'}</TableCell>
+                  <TableCell>{new Date(draft.updated_at).toLocaleString()}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Resume">
+                      <IconButton size="small" color="primary" onClick={() => openDraft(draft)}>
+                        <RestoreIcon />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Discard">
+                      <IconButton size="small" color="error" onClick={() => discardDraft(draft)}>
+                        <DeleteIcon />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    );
+  };
+
   // Render step content
   const renderStepContent = () => {
     switch (currentStep) {
@@ -992,6 +1478,13 @@ const PersonManagementPage = () => {
               <br />
               Person introduction cannot proceed. Use search function to find and manage existing person records.
             </Alert>
+
+            {!personFound.is_active && (
+              <Alert severity="warning" sx={{ mb: 3 }}>
+                This person is deactivated and cannot be edited or used in new registrations until reactivated
+                from their profile.
+              </Alert>
+            )}
             
             <Grid container spacing={2}>
               <Grid item xs={12}>
@@ -1025,6 +1518,7 @@ const PersonManagementPage = () => {
                     variant="contained" 
                     startIcon={<EditIcon />}
                     onClick={() => handleEditPerson(personFound)}
+                    disabled={!personFound.is_active}
                   >
                     Edit Person
                   </Button>
@@ -1040,7 +1534,7 @@ const PersonManagementPage = () => {
             </Grid>
           </Box>
         ) : (
-          <form onSubmit={lookupForm.handleSubmit(performLookup)}>
+          <form onSubmit={lookupForm.handleSubmit(data => performLookup(data))}>
             <Typography variant="body2" color="text.secondary" gutterBottom>
               Enter ID document details to search for existing person or register new person.
             </Typography>
@@ -1074,7 +1568,7 @@ const PersonManagementPage = () => {
                   control={lookupForm.control}
                   render={({ field }) => {
                     const selectedType = lookupForm.watch('id_document_type_code');
-                    const isRSAID = selectedType === '02';
+                    const isRSAID = selectedType === ID_DOCUMENT_TYPE_CODES.RSA_ID;
                     const currentValue = field.value || '';
                     
                     // Real-time validation feedback for RSA ID
@@ -1083,11 +1577,11 @@ const PersonManagementPage = () => {
                     let helperText = lookupForm.formState.errors.id_document_number?.message;
                     
                     if (isRSAID && currentValue.length === 13) {
-                      const isValid = validateCheckDigit(currentValue);
-                      validationColor = isValid ? 'success' : 'error';
-                      validationIcon = isValid ? '✓' : '✗';
+                      const rsaIdError = validateIdDocumentNumber(ID_DOCUMENT_TYPE_CODES.RSA_ID, currentValue);
+                      validationColor = rsaIdError ? 'error' : 'success';
+                      validationIcon = rsaIdError ? '✗' : '✓';
                       if (!helperText) {
-                        helperText = isValid ? 'Valid RSA ID number' : 'Invalid RSA ID - check digit validation failed';
+                        helperText = rsaIdError || 'Valid RSA ID number';
                       }
                     } else if (!helperText) {
                       helperText = isRSAID ? 'RSA ID must be 13 digits (numbers only) - V00017, V00018' : 'Enter the identification number (V00013)';
@@ -1108,15 +1602,7 @@ const PersonManagementPage = () => {
                           inputMode: isRSAID ? 'numeric' : 'text'
                         }}
                         onChange={(e) => {
-                          let value = e.target.value;
-                          // For RSA ID, only allow numbers
-                          if (isRSAID) {
-                            value = value.replace(/[^0-9]/g, '');
-                            if (value.length > 13) {
-                              value = value.substring(0, 13);
-                            }
-                          }
-                          field.onChange(value);
+                          field.onChange(formatIdDocumentInput(selectedType, e.target.value));
                         }}
                         InputProps={{
                           endAdornment: (
@@ -1190,13 +1676,8 @@ const PersonManagementPage = () => {
                   <InputLabel>Person Nature *</InputLabel>
                   <Select {...field} label="Person Nature *" disabled={isEditMode}>
                     {PERSON_NATURES.map((option) => (
-                      <MenuItem key={option.value} value={option.value} disabled={option.disabled}>
+                      <MenuItem key={option.value} value={option.value}>
                         {option.label}
-                        {option.disabled && (
-                          <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
-                            (Coming Soon)
-                          </Typography>
-                        )}
                       </MenuItem>
                     ))}
                   </Select>
@@ -1226,6 +1707,209 @@ const PersonManagementPage = () => {
     </Card>
   );
 
+  const renderOrganisationSection = () => {
+    const registrationFormat = REGISTRATION_NUMBER_FORMATS[watchedPersonNature];
+    const juristicErrors = personForm.formState.errors.juristic_person;
+
+    return (
+      <Box sx={{ mb: 4, p: 3, border: '1px solid #e0e0e0', borderRadius: 2, backgroundColor: '#fafafa' }}>
+        <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600, color: 'primary.main' }}>
+          Organisation Details
+        </Typography>
+
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={4}>
+            <Controller
+              name="juristic_person.registration_number"
+              control={personForm.control}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                  fullWidth
+                  label={registrationFormat ? 'Registration Number *' : 'Registration Number'}
+                  error={!!juristicErrors?.registration_number}
+                  helperText={
+                    juristicErrors?.registration_number?.message ||
+                    (registrationFormat ? `Format: ${registrationFormat.example}` : 'Optional for this organisation type')
+                  }
+                  inputProps={{ maxLength: 20, style: { textTransform: 'uppercase' } }}
+                  sx={{ backgroundColor: 'white' }}
+                />
+              )}
+            />
+          </Grid>
+
+          <Grid item xs={12} md={5}>
+            <Controller
+              name="juristic_person.trading_name"
+              control={personForm.control}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                  fullWidth
+                  label="Trading Name"
+                  error={!!juristicErrors?.trading_name}
+                  helperText={juristicErrors?.trading_name?.message || 'Name the organisation trades under, if different'}
+                  inputProps={{ maxLength: 32, style: { textTransform: 'uppercase' } }}
+                  sx={{ backgroundColor: 'white' }}
+                />
+              )}
+            />
+          </Grid>
+
+          <Grid item xs={12} md={3}>
+            <Controller
+              name="juristic_person.registration_date"
+              control={personForm.control}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  fullWidth
+                  type="date"
+                  label="Registration Date"
+                  InputLabelProps={{ shrink: true }}
+                  error={!!juristicErrors?.registration_date}
+                  helperText={juristicErrors?.registration_date?.message}
+                  sx={{ backgroundColor: 'white' }}
+                />
+              )}
+            />
+          </Grid>
+        </Grid>
+
+        {/* Representatives */}
+        <Typography variant="subtitle2" sx={{ fontWeight: 500, mt: 3, mb: 1 }}>
+          Representatives *
+        </Typography>
+
+        {juristicErrors?.representatives?.message && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {juristicErrors.representatives.message}
+          </Alert>
+        )}
+
+        {representativeFields.map((field, index) => {
+          const representativeErrors = juristicErrors?.representatives?.[index];
+          const linkedName = personForm.watch(`juristic_person.representatives.${index}.name`);
+
+          return (
+            <Grid container spacing={2} key={field.id} sx={{ mb: 2, alignItems: 'flex-start' }}>
+              <Grid item xs={12} md={3}>
+                <Controller
+                  name={`juristic_person.representatives.${index}.id_document_type_code`}
+                  control={personForm.control}
+                  render={({ field }) => (
+                    <FormControl fullWidth>
+                      <InputLabel>ID Type</InputLabel>
+                      <Select {...field} label="ID Type" sx={{ backgroundColor: 'white' }}>
+                        {ID_DOCUMENT_TYPES.map((option) => (
+                          <MenuItem key={option.value} value={option.value}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  )}
+                />
+              </Grid>
+
+              <Grid item xs={12} md={4}>
+                <Controller
+                  name={`juristic_person.representatives.${index}.id_document_number`}
+                  control={personForm.control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      onChange={(e) => {
+                        field.onChange(e);
+                        // A changed document no longer points at the linked person
+                        personForm.setValue(`juristic_person.representatives.${index}.person_id`, '');
+                        personForm.setValue(`juristic_person.representatives.${index}.name`, '');
+                      }}
+                      fullWidth
+                      label="ID Number"
+                      error={!!representativeErrors?.id_document_number || !!representativeErrors?.person_id}
+                      helperText={
+                        representativeErrors?.id_document_number?.message ||
+                        representativeErrors?.person_id?.message ||
+                        (linkedName ? `Linked: ${linkedName}` : 'Look up the registered person')
+                      }
+                      InputProps={{
+                        endAdornment: (
+                          <InputAdornment position="end">
+                            <IconButton onClick={() => lookupRepresentative(index)} size="small">
+                              <SearchIcon />
+                            </IconButton>
+                          </InputAdornment>
+                        )
+                      }}
+                      sx={{ backgroundColor: 'white' }}
+                    />
+                  )}
+                />
+              </Grid>
+
+              <Grid item xs={10} md={4}>
+                <Controller
+                  name={`juristic_person.representatives.${index}.capacity`}
+                  control={personForm.control}
+                  render={({ field }) => (
+                    <FormControl fullWidth error={!!representativeErrors?.capacity}>
+                      <InputLabel>Capacity *</InputLabel>
+                      <Select {...field} label="Capacity *" sx={{ backgroundColor: 'white' }}>
+                        {REPRESENTATIVE_CAPACITIES.map((option) => (
+                          <MenuItem key={option.value} value={option.value}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                      {representativeErrors?.capacity && (
+                        <FormHelperText>{representativeErrors.capacity.message}</FormHelperText>
+                      )}
+                    </FormControl>
+                  )}
+                />
+              </Grid>
+
+              <Grid item xs={2} md={1}>
+                <IconButton color="error" onClick={() => removeRepresentative(index)} sx={{ mt: 1 }}>
+                  <DeleteIcon />
+                </IconButton>
+              </Grid>
+            </Grid>
+          );
+        })}
+
+        <Button
+          variant="outlined"
+          onClick={() => appendRepresentative({
+            id_document_type_code: '02',
+            id_document_number: '',
+            person_id: '',
+            name: '',
+            capacity: ''
+          })}
+          startIcon={<PersonAddIcon />}
+        >
+          Add Representative
+        </Button>
+      </Box>
+    );
+  };
+
+  const renderRSAIdConflicts = (readOnly: boolean = false) => (
+    <RSAIdConsistencyAlert
+      conflicts={rsaIdConflicts}
+      canOverride={canOverrideConflicts}
+      overrideReason={overrideReason}
+      onOverrideReasonChange={setOverrideReason}
+      onApplyIdDetails={() => watchedRSAId && applyRSAIdDetails(watchedRSAId)}
+      readOnly={readOnly}
+    />
+  );
+
   const renderBasicInformationStep = () => (
     <Card>
       <CardContent>
@@ -1240,6 +1924,8 @@ const PersonManagementPage = () => {
           </Alert>
         )}
 
+        {renderRSAIdConflicts()}
+
         {/* Identity Information Section */}
         <Box sx={{ mb: 4, p: 3, border: '1px solid #e0e0e0', borderRadius: 2, backgroundColor: '#fafafa' }}>
           <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600, color: 'primary.main' }}>
@@ -1259,7 +1945,7 @@ const PersonManagementPage = () => {
                   label={['01', '02'].includes(watchedPersonNature) ? 'Surname *' : 'Business Name *'}
                   error={!!personForm.formState.errors.business_or_surname}
                   helperText={personForm.formState.errors.business_or_surname?.message || 'Business name or surname (V00043) - Auto-converted to UPPERCASE'}
-                  inputProps={{ maxLength: 32, style: { textTransform: 'uppercase' } }}
+                  inputProps={{ maxLength: getMaxLength(validationRules, 'person.business_or_surname'), style: { textTransform: 'uppercase' } }}
                   sx={{ backgroundColor: 'white' }}
                 />
                 )}
@@ -1279,7 +1965,7 @@ const PersonManagementPage = () => {
                   label="Initials *"
                   error={!!personForm.formState.errors.initials}
                   helperText={personForm.formState.errors.initials?.message || 'Required for natural persons (V00051)'}
-                  inputProps={{ maxLength: 3, style: { textTransform: 'uppercase' } }}
+                  inputProps={{ maxLength: getMaxLength(validationRules, 'person.initials'), style: { textTransform: 'uppercase' } }}
                   sx={{ backgroundColor: 'white' }}
                 />
                   )}
@@ -1328,7 +2014,7 @@ const PersonManagementPage = () => {
                       label="First Name *"
                       error={!!personForm.formState.errors.natural_person?.full_name_1}
                       helperText={personForm.formState.errors.natural_person?.full_name_1?.message || 'First/given name (V00056)'}
-                      inputProps={{ maxLength: 32, style: { textTransform: 'uppercase' } }}
+                      inputProps={{ maxLength: getMaxLength(validationRules, 'person.natural_person.full_name_1'), style: { textTransform: 'uppercase' } }}
                     />
                   )}
                 />
@@ -1345,7 +2031,7 @@ const PersonManagementPage = () => {
                       fullWidth
                       label="Middle Name"
                       helperText="Middle name (optional)"
-                      inputProps={{ maxLength: 32, style: { textTransform: 'uppercase' } }}
+                      inputProps={{ maxLength: getMaxLength(validationRules, 'person.natural_person.full_name_2'), style: { textTransform: 'uppercase' } }}
                     />
                   )}
                 />
@@ -1371,6 +2057,9 @@ const PersonManagementPage = () => {
           </Box>
         )}
 
+        {/* Organisation Details Section - Only for Juristic Persons */}
+        {watchedPersonNature && !['01', '02'].includes(watchedPersonNature) && renderOrganisationSection()}
+
         {/* Contact Information Section */}
         <Box sx={{ mb: 4, p: 3, border: '1px solid #e0e0e0', borderRadius: 2, backgroundColor: '#fafafa' }}>
           <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600, color: 'primary.main' }}>
@@ -1390,7 +2079,7 @@ const PersonManagementPage = () => {
                     label="Email Address"
                     error={!!personForm.formState.errors.email_address}
                     helperText={personForm.formState.errors.email_address?.message || "Email address (optional, max 50 chars)"}
-                    inputProps={{ maxLength: 50 }}
+                    inputProps={{ maxLength: getMaxLength(validationRules, 'person.email_address') }}
                   />
                 )}
               />
@@ -1407,7 +2096,7 @@ const PersonManagementPage = () => {
                     label="Home Phone"
                     error={!!personForm.formState.errors.home_phone}
                     helperText={personForm.formState.errors.home_phone?.message || "Home phone number (optional)"}
-                    inputProps={{ maxLength: 20 }}
+                    inputProps={{ maxLength: getMaxLength(validationRules, 'person.home_phone') }}
                   />
                 )}
               />
@@ -1424,7 +2113,7 @@ const PersonManagementPage = () => {
                     label="Work Phone"
                     error={!!personForm.formState.errors.work_phone}
                     helperText={personForm.formState.errors.work_phone?.message || "Work phone number (optional)"}
-                    inputProps={{ maxLength: 20 }}
+                    inputProps={{ maxLength: getMaxLength(validationRules, 'person.work_phone') }}
                   />
                 )}
               />
@@ -1441,7 +2130,7 @@ const PersonManagementPage = () => {
                     label="Fax Phone"
                     error={!!personForm.formState.errors.fax_phone}
                     helperText={personForm.formState.errors.fax_phone?.message || "Fax phone number (optional)"}
-                    inputProps={{ maxLength: 20 }}
+                    inputProps={{ maxLength: getMaxLength(validationRules, 'person.fax_phone') }}
                   />
                 )}
               />
@@ -1493,7 +2182,7 @@ const PersonManagementPage = () => {
                     error={!!personForm.formState.errors.cell_phone}
                     helperText={personForm.formState.errors.cell_phone?.message || "Cell phone number (digits only, max 15 chars)"}
                     inputProps={{ 
-                      maxLength: 15,
+                      maxLength: getMaxLength(validationRules, 'person.cell_phone'),
                       pattern: '[0-9]*',
                       inputMode: 'numeric'
                     }}
@@ -1512,6 +2201,23 @@ const PersonManagementPage = () => {
     </Card>
   );
 
+  // Warn when a document is expired or about to expire
+  const renderExpiryWarning = (expiryDate?: string) => {
+    const status = getDocumentExpiryStatus(expiryDate);
+    if (!expiryDate || !status || status === 'valid') return null;
+
+    return (
+      <Grid item xs={12}>
+        <Alert severity={status === 'expired' ? 'error' : 'warning'}>
+          {describeExpiry(expiryDate)}.{' '}
+          {status === 'expired'
+            ? 'An expired document cannot be used for identification.'
+            : 'Ask the applicant to renew the document soon.'}
+        </Alert>
+      </Grid>
+    );
+  };
+
   const renderIdDocumentsStep = () => (
     <Card>
       <CardContent>
@@ -1525,6 +2231,12 @@ const PersonManagementPage = () => {
             You can add additional ID documents if needed.
           </Alert>
         )}
+
+        {personForm.formState.errors.aliases?.message && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {personForm.formState.errors.aliases.message}
+          </Alert>
+        )}
         
         {aliasFields.map((field, index) => (
           <Box key={field.id} sx={{ mb: 4, p: 3, border: '1px solid #e0e0e0', borderRadius: 2, backgroundColor: '#fafafa' }}>
@@ -1594,8 +2306,8 @@ const PersonManagementPage = () => {
                 />
               </Grid>
 
-              {/* Expiry Date for Foreign Documents */}
-              {personForm.watch(`aliases.${index}.id_document_type_code`) === '03' && (
+              {/* Expiry Date for Foreign IDs and Passports */}
+              {getIdDocumentType(personForm.watch(`aliases.${index}.id_document_type_code`))?.requiresExpiry && (
                 <Grid item xs={12} md={3}>
                   <Controller
                     name={`aliases.${index}.id_document_expiry_date`}
@@ -1610,7 +2322,7 @@ const PersonManagementPage = () => {
                         error={!!personForm.formState.errors.aliases?.[index]?.id_document_expiry_date}
                         helperText={
                           personForm.formState.errors.aliases?.[index]?.id_document_expiry_date?.message || 
-                          "Required for foreign documents"
+                          "Required for foreign IDs and passports"
                         }
                         sx={{ backgroundColor: 'white' }}
                       />
@@ -1619,6 +2331,8 @@ const PersonManagementPage = () => {
                 </Grid>
               )}
 
+              {renderExpiryWarning(personForm.watch(`aliases.${index}.id_document_expiry_date`))}
+
               {index > 0 && (
                 <Grid item xs={12}>
                   <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
@@ -1680,8 +2394,11 @@ const PersonManagementPage = () => {
                     <FormControl fullWidth>
                       <InputLabel>Address Type *</InputLabel>
                       <Select {...field} label="Address Type *">
-                        <MenuItem value="street">Street/Physical Address</MenuItem>
-                        <MenuItem value="postal">Postal Address</MenuItem>
+                        {ADDRESS_TYPES.map((option) => (
+                          <MenuItem key={option.value} value={option.value}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
                       </Select>
                     </FormControl>
                   )}
@@ -1718,13 +2435,13 @@ const PersonManagementPage = () => {
                       {...field}
                       onChange={(e) => field.onChange(e.target.value.toUpperCase())}
                       fullWidth
-                      label="Street Address / Address Line 1 *"
+                      label={`${getAddressLineLabel(watchedAddressTypes[index], 'address_line_1')} *`}
                       error={!!personForm.formState.errors.addresses?.[index]?.address_line_1}
                       helperText={
                         personForm.formState.errors.addresses?.[index]?.address_line_1?.message || 
-                        "Main street address or postal address line"
+                        (watchedAddressTypes[index] === 'postal' ? 'e.g. PO BOX 1234' : 'e.g. 12 MAIN ROAD')
                       }
-                      inputProps={{ maxLength: 35, style: { textTransform: 'uppercase' } }}
+                      inputProps={{ maxLength: getMaxLength(validationRules, 'person.address_line_1'), style: { textTransform: 'uppercase' } }}
                     />
                   )}
                 />
@@ -1769,9 +2486,9 @@ const PersonManagementPage = () => {
                       {...field}
                       onChange={(e) => field.onChange(e.target.value.toUpperCase())}
                       fullWidth
-                      label="Address Line 2"
-                      helperText="Additional address information (optional)"
-                      inputProps={{ maxLength: 35, style: { textTransform: 'uppercase' } }}
+                      label={getAddressLineLabel(watchedAddressTypes[index], 'address_line_2')}
+                      helperText="Optional"
+                      inputProps={{ maxLength: getMaxLength(validationRules, 'person.address_line_2'), style: { textTransform: 'uppercase' } }}
                     />
                   )}
                 />
@@ -1786,9 +2503,9 @@ const PersonManagementPage = () => {
                       {...field}
                       onChange={(e) => field.onChange(e.target.value.toUpperCase())}
                       fullWidth
-                      label="Address Line 3"
-                      helperText="Additional address information (optional)"
-                      inputProps={{ maxLength: 35, style: { textTransform: 'uppercase' } }}
+                      label={getAddressLineLabel(watchedAddressTypes[index], 'address_line_3')}
+                      helperText="Optional"
+                      inputProps={{ maxLength: getMaxLength(validationRules, 'person.address_line_3'), style: { textTransform: 'uppercase' } }}
                     />
                   )}
                 />
@@ -1806,13 +2523,17 @@ const PersonManagementPage = () => {
                   name={`addresses.${index}.address_line_4`}
                   control={personForm.control}
                   render={({ field }) => (
-                    <TextField
-                      {...field}
-                      onChange={(e) => field.onChange(e.target.value.toUpperCase())}
-                      fullWidth
-                      label="Suburb / Area"
-                      helperText="Suburb or area name"
-                      inputProps={{ maxLength: 35, style: { textTransform: 'uppercase' } }}
+                    <LocalityAutocomplete
+                      value={field.value || ''}
+                      label={`${getAddressLineLabel(watchedAddressTypes[index], 'address_line_4')}${watchedAddressTypes[index] === 'postal' ? '' : ' *'}`}
+                      provinceCode={personForm.watch(`addresses.${index}.province_code`)}
+                      error={!!personForm.formState.errors.addresses?.[index]?.address_line_4}
+                      helperText={
+                        personForm.formState.errors.addresses?.[index]?.address_line_4?.message ||
+                        'Pick a suggestion to fill in city, postal code and province'
+                      }
+                      onChange={field.onChange}
+                      onSelect={(locality) => selectLocality(index, locality)}
                     />
                   )}
                 />
@@ -1827,9 +2548,10 @@ const PersonManagementPage = () => {
                       {...field}
                       onChange={(e) => field.onChange(e.target.value.toUpperCase())}
                       fullWidth
-                      label="City / Town"
-                      helperText="City or town name"
-                      inputProps={{ maxLength: 35, style: { textTransform: 'uppercase' } }}
+                      label={`${getAddressLineLabel(watchedAddressTypes[index], 'address_line_5')} *`}
+                      error={!!personForm.formState.errors.addresses?.[index]?.address_line_5}
+                      helperText={personForm.formState.errors.addresses?.[index]?.address_line_5?.message || 'City or town name'}
+                      inputProps={{ maxLength: getMaxLength(validationRules, 'person.address_line_5'), style: { textTransform: 'uppercase' } }}
                     />
                   )}
                 />
@@ -1847,13 +2569,19 @@ const PersonManagementPage = () => {
                         options={Array.isArray(provinces) ? provinces : []}
                         getOptionLabel={(option) => `${option.name} (${option.code})`}
                         value={Array.isArray(provinces) ? provinces.find(province => province.code === field.value) || null : null}
-                        onChange={(_, newValue) => field.onChange(newValue?.code || '')}
+                        onChange={(_, newValue) => {
+                          field.onChange(newValue?.code || '');
+                          // Re-check the postal code against the new province
+                          if (personForm.getValues(`addresses.${index}.postal_code`)) {
+                            personForm.trigger(`addresses.${index}.postal_code`);
+                          }
+                        }}
                         loading={lookupDataLoading}
                         renderInput={(params) => (
                           <TextField
                             {...params}
                             label="Province"
-                            helperText="Select province (South Africa only)"
+                            helperText="Select province (South Africa only) - also narrows suburb suggestions"
                           />
                         )}
                       />
@@ -1922,6 +2650,8 @@ const PersonManagementPage = () => {
             Review & Submit
           </Typography>
           
+          {renderRSAIdConflicts(true)}
+
           <Alert severity="info" sx={{ mb: 3 }}>
             {isNewPerson ? 'Please review all information before creating the new person record' : `Ready to update person: ${personFound?.business_or_surname}`}
           </Alert>
@@ -2006,6 +2736,53 @@ const PersonManagementPage = () => {
             </Box>
           )}
 
+          {/* Organisation Details Section - Only for Juristic Persons */}
+          {!isNaturalPerson && formData.juristic_person && (
+            <Box sx={{ mb: 4, p: 3, border: '1px solid #e0e0e0', borderRadius: 2, backgroundColor: '#fafafa' }}>
+              <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600, color: 'primary.main' }}>
+                Organisation Details
+              </Typography>
+
+              <Grid container spacing={3}>
+                <Grid item xs={12} md={4}>
+                  <Typography variant="subtitle2" color="text.secondary">Registration Number</Typography>
+                  <Typography variant="body1" sx={{ fontWeight: 500 }}>
+                    {formData.juristic_person.registration_number || 'Not specified'}
+                  </Typography>
+                </Grid>
+
+                {formData.juristic_person.trading_name && (
+                  <Grid item xs={12} md={4}>
+                    <Typography variant="subtitle2" color="text.secondary">Trading Name</Typography>
+                    <Typography variant="body1" sx={{ fontWeight: 500 }}>
+                      {formData.juristic_person.trading_name}
+                    </Typography>
+                  </Grid>
+                )}
+
+                {formData.juristic_person.registration_date && (
+                  <Grid item xs={12} md={4}>
+                    <Typography variant="subtitle2" color="text.secondary">Registration Date</Typography>
+                    <Typography variant="body1" sx={{ fontWeight: 500 }}>
+                      {new Date(formData.juristic_person.registration_date).toLocaleDateString()}
+                    </Typography>
+                  </Grid>
+                )}
+
+                <Grid item xs={12}>
+                  <Typography variant="subtitle2" color="text.secondary">Representatives</Typography>
+                  {formData.juristic_person.representatives.map((representative, index) => (
+                    <Typography key={index} variant="body1" sx={{ fontWeight: 500 }}>
+                      {representative.name || representative.id_document_number}
+                      {' - '}
+                      {REPRESENTATIVE_CAPACITIES.find(c => c.value === representative.capacity)?.label || representative.capacity}
+                    </Typography>
+                  ))}
+                </Grid>
+              </Grid>
+            </Box>
+          )}
+
           {/* Contact Information Section */}
           <Box sx={{ mb: 4, p: 3, border: '1px solid #e0e0e0', borderRadius: 2, backgroundColor: '#fafafa' }}>
             <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600, color: 'primary.main' }}>
@@ -2073,7 +2850,7 @@ const PersonManagementPage = () => {
                 <Grid item xs={12} md={3}>
                   <Typography variant="subtitle2" color="text.secondary">Document Type</Typography>
                   <Typography variant="body1" sx={{ fontWeight: 500 }}>
-                    {ID_DOCUMENT_TYPES.find(type => type.value === alias.id_document_type_code)?.label || alias.id_document_type_code}
+                    {getIdDocumentTypeLabel(alias.id_document_type_code)}
                   </Typography>
                 </Grid>
                 <Grid item xs={12} md={4}>
@@ -2116,7 +2893,7 @@ const PersonManagementPage = () => {
               <Grid container spacing={2}>
                 <Grid item xs={12}>
                   <Typography variant="subtitle1" sx={{ fontWeight: 600, color: 'primary.main' }}>
-                    {address.address_type === 'street' ? 'Street/Physical Address' : 'Postal Address'}
+                    {ADDRESS_TYPES.find(type => type.value === address.address_type)?.label || address.address_type}
                     {address.is_primary && (
                       <Chip label="Primary" size="small" color="primary" sx={{ ml: 1 }} />
                     )}
@@ -2226,6 +3003,31 @@ const PersonManagementPage = () => {
         {renderStepContent()}
       </Box>
 
+      {/* Saved drafts */}
+      {currentStep === 0 && renderDraftsCard()}
+
+      {/* Likely duplicates of a new person */}
+      <DuplicatePersonDialog
+        open={duplicateDialogOpen}
+        matches={duplicateMatches}
+        busy={duplicateBusy}
+        onMerge={handleMergeDuplicate}
+        onLinkAlias={handleLinkAlias}
+        onConfirmNew={handleConfirmNewPerson}
+        onClose={() => setDuplicateDialogOpen(false)}
+      />
+      {mergeCandidate && (
+        <DuplicateMergeDialog
+          open
+          personName={mergeCandidate.existing.business_or_surname}
+          fields={mergeCandidate.fields}
+          existing={mergeCandidate.existing}
+          entered={personForm.getValues()}
+          onConfirm={enteredFields => applyMerge(mergeCandidate.existing, enteredFields)}
+          onClose={() => setMergeCandidate(null)}
+        />
+      )}
+
       {/* Navigation */}
       <Paper sx={{ p: 3 }}>
         <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
@@ -0,0 +1,349 @@
+/**
+ * Person Merge Page - Consolidate two duplicate person records
+ * The operator picks the surviving record and the surviving value of each
+ * field; ID documents and addresses from both are combined without duplicates
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Radio,
+  RadioGroup,
+  FormControlLabel,
+  Chip,
+  Alert,
+  Card,
+  CardContent,
+  CircularProgress,
+  TextField,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  MergeType as MergeIcon
+} from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../config/api';
+import { personService } from '../../services/personService';
+import { Person, NaturalPerson, PersonUpdate } from '../../types/person';
+import {
+  MergeField,
+  MERGE_FIELDS,
+  NATURAL_PERSON_FIELDS,
+  aliasKey,
+  addressKey,
+  combineEntries
+} from '../../config/personMerge';
+
+type Side = 'a' | 'b';
+
+const describePerson = (person: Person) =>
+  [person.natural_person?.full_name_1, person.business_or_surname].filter(Boolean).join(' ');
+
+const PersonMergePage = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const firstId = searchParams.get('a');
+  const secondId = searchParams.get('b');
+
+  const [persons, setPersons] = useState<Record<Side, Person> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [survivor, setSurvivor] = useState<Side>('a');
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      if (!firstId || !secondId || firstId === secondId) {
+        setError('Select two different persons to merge.');
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const [a, b] = await Promise.all([personService.getById(firstId), personService.getById(secondId)]);
+        setPersons({ a, b });
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to load persons'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [firstId, secondId]);
+
+  const other: Side = survivor === 'a' ? 'b' : 'a';
+
+  // A field follows the surviving record unless the operator picked the other value
+  const sideFor = (field: MergeField): Side => choices[field.key] || survivor;
+
+  const mergedValues = useMemo((): PersonUpdate | null => {
+    if (!persons) return null;
+
+    const values: Record<string, unknown> = {};
+    const naturalPerson: Record<string, unknown> = { ...persons[survivor].natural_person };
+    MERGE_FIELDS.forEach(field => {
+      const value = field.get(persons[choices[field.key] || survivor]);
+      if (NATURAL_PERSON_FIELDS.includes(field.key)) {
+        naturalPerson[field.key] = value;
+      } else {
+        values[field.key] = value;
+      }
+    });
+
+    return {
+      ...values,
+      natural_person: naturalPerson as NaturalPerson,
+      aliases: combineEntries(
+        persons[survivor].aliases || [],
+        persons[other].aliases || [],
+        aliasKey,
+        alias => ({ ...alias, is_current: false })
+      ),
+      addresses: combineEntries(
+        persons[survivor].addresses || [],
+        persons[other].addresses || [],
+        addressKey,
+        address => ({ ...address, is_primary: false })
+      ),
+    } as PersonUpdate;
+  }, [persons, survivor, other, choices]);
+
+  // Summary of what the merge changes on the surviving record
+  const changes = useMemo(() => {
+    if (!persons || !mergedValues) return [];
+
+    const target = persons[survivor];
+    const fieldChanges = MERGE_FIELDS
+      .filter(field => sideFor(field) === other && field.get(persons[other]) !== field.get(target))
+      .map(field => `${field.label}: "${field.get(target) || '-'}" → "${field.get(persons[other]) || '-'}"`);
+
+    const addedAliases = (mergedValues.aliases || []).length - (target.aliases || []).length;
+    const addedAddresses = (mergedValues.addresses || []).length - (target.addresses || []).length;
+
+    return [
+      ...fieldChanges,
+      ...(addedAliases > 0 ? [`${addedAliases} ID document(s) moved from the merged record`] : []),
+      ...(addedAddresses > 0 ? [`${addedAddresses} address(es) moved from the merged record`] : []),
+      `${describePerson(persons[other])} will be retired and point to the surviving record`,
+    ];
+  }, [persons, mergedValues, survivor, other, choices]);
+
+  const handleSurvivorChange = (side: Side) => {
+    setSurvivor(side);
+    setChoices({});
+  };
+
+  const handleSubmit = async () => {
+    if (!persons || !mergedValues) return;
+    if (!window.confirm(`Merge ${describePerson(persons[other])} into ${describePerson(persons[survivor])}? This cannot be undone.`)) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await personService.merge({
+        surviving_person_id: persons[survivor].id,
+        merged_person_id: persons[other].id,
+        values: mergedValues,
+        reason: reason.trim(),
+      });
+      toast.success('Persons merged successfully');
+      navigate('/dashboard/persons/search');
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Failed to merge persons'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 6 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ maxWidth: 1200, mx: 'auto', p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+        <IconButton onClick={() => navigate('/dashboard/persons/search')} color="primary">
+          <ArrowBackIcon />
+        </IconButton>
+        <Typography variant="h4" component="h1">
+          Merge Person Records
+        </Typography>
+      </Box>
+
+      {error || !persons || !mergedValues ? (
+        <Alert severity="error">{error || 'Persons could not be loaded.'}</Alert>
+      ) : (
+        <>
+          {/* Surviving record */}
+          <Paper sx={{ p: 3, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Surviving Record
+            </Typography>
+            <RadioGroup row value={survivor} onChange={(e) => handleSurvivorChange(e.target.value as Side)}>
+              {(['a', 'b'] as Side[]).map(side => (
+                <FormControlLabel
+                  key={side}
+                  value={side}
+                  control={<Radio />}
+                  label={`${describePerson(persons[side])} (created ${new Date(persons[side].created_at).toLocaleDateString()})`}
+                />
+              ))}
+            </RadioGroup>
+          </Paper>
+
+          {/* Field-by-field values */}
+          <Paper sx={{ p: 3, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Field Values
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Field</TableCell>
+                  <TableCell>{describePerson(persons.a)}</TableCell>
+                  <TableCell>{describePerson(persons.b)}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {MERGE_FIELDS.map(field => {
+                  const valueA = field.get(persons.a);
+                  const valueB = field.get(persons.b);
+                  const differs = valueA !== valueB;
+                  return (
+                    <TableRow key={field.key} sx={differs ? { bgcolor: 'warning.50' } : undefined}>
+                      <TableCell sx={{ fontWeight: 600 }}>{field.label}</TableCell>
+                      {(['a', 'b'] as Side[]).map(side => (
+                        <TableCell key={side}>
+                          {differs ? (
+                            <FormControlLabel
+                              control={
+                                <Radio
+                                  size="small"
+                                  checked={sideFor(field) === side}
+                                  onChange={() => setChoices(prev => ({ ...prev, [field.key]: side }))}
+                                />
+                              }
+                              label={field.get(persons[side]) || '-'}
+                            />
+                          ) : (
+                            field.get(persons[side]) || '-'
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Paper>
+
+          {/* Combined ID documents and addresses */}
+          <Grid container spacing={3} sx={{ mb: 3 }}>
+            <Grid item xs={12} md={6}>
+              <Card>
+                <CardContent>
+                  <Typography variant="h6" gutterBottom>
+                    ID Documents ({mergedValues.aliases?.length || 0})
+                  </Typography>
+                  <List dense>
+                    {mergedValues.aliases?.map(alias => (
+                      <ListItem key={aliasKey(alias)} divider>
+                        <ListItemText
+                          primary={`${alias.id_document_type_code}: ${alias.id_document_number}`}
+                          secondary={alias.is_current ? 'Current' : undefined}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <Card>
+                <CardContent>
+                  <Typography variant="h6" gutterBottom>
+                    Addresses ({mergedValues.addresses?.length || 0})
+                  </Typography>
+                  <List dense>
+                    {mergedValues.addresses?.map(address => (
+                      <ListItem key={addressKey(address)} divider>
+                        <ListItemText
+                          primary={address.address_line_1}
+                          secondary={[address.address_type, address.postal_code].filter(Boolean).join(' • ')}
+                        />
+                        {address.is_primary && <Chip label="Primary" size="small" color="primary" />}
+                      </ListItem>
+                    ))}
+                  </List>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+
+          {/* What will change */}
+          <Paper sx={{ p: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              Changes
+            </Typography>
+            <List dense>
+              {changes.map(change => (
+                <ListItem key={change}>
+                  <ListItemText primary={change} />
+                </ListItem>
+              ))}
+            </List>
+
+            <TextField
+              fullWidth
+              multiline
+              rows={2}
+              label="Reason for merge *"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              helperText="Recorded in the audit trail"
+              sx={{ mt: 2, mb: 2 }}
+            />
+
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
+              <Button variant="outlined" onClick={() => navigate('/dashboard/persons/search')}>
+                Cancel
+              </Button>
+              <Button
+                variant="contained"
+                color="warning"
+                startIcon={<MergeIcon />}
+                onClick={handleSubmit}
+                disabled={submitting || reason.trim().length === 0}
+              >
+                {submitting ? 'Merging...' : 'Merge Records'}
+              </Button>
+            </Box>
+          </Paper>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default PersonMergePage;
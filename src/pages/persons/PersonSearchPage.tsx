@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -17,20 +18,21 @@ import {
   TableHead,
   TableRow,
   TablePagination,
+  TableSortLabel,
   Chip,
   IconButton,
-  Dialog,
-  DialogTitle,
-  DialogContent,
-  DialogActions,
   Alert,
   Collapse,
-  Card,
-  CardContent,
   InputAdornment,
   Tooltip,
   Badge,
-  Autocomplete
+  Autocomplete,
+  Checkbox,
+  Menu,
+  ListItemText,
+  ListSubheader,
+  ToggleButton,
+  ToggleButtonGroup
 } from '@mui/material';
 import {
   Search as SearchIcon,
@@ -40,80 +42,43 @@ import {
   ExpandLess as ExpandLessIcon,
   Phone as PhoneIcon,
   Email as EmailIcon,
-  Clear as ClearIcon
+  Clear as ClearIcon,
+  MergeType as MergeIcon,
+  ViewColumn as ViewColumnIcon,
+  DensityMedium as DensityMediumIcon,
+  DensitySmall as DensitySmallIcon
 } from '@mui/icons-material';
 import { useForm, Controller } from 'react-hook-form';
-import { API_ENDPOINTS } from '../../config/api';
-import { useAuth } from '../../contexts/AuthContext';
-
-// Types based on backend models
-interface PersonSearchForm {
-  // Basic search fields
-  search_text?: string;
-  id_document_number?: string;
-  business_or_surname?: string;
-  first_name?: string;
-  person_nature?: string;
-  nationality_code?: string;
-  email_address?: string;
-  cell_phone?: string;
-  
-  // Advanced filters
-  province_code?: string;
-  city?: string;
-  is_active?: boolean;
-  created_date_from?: string;
-  created_date_to?: string;
-  
-  // Pagination
-  skip?: number;
-  limit?: number;
-}
-
-interface PersonSearchResult {
-  id: string;
-  business_or_surname: string;
-  initials?: string;
-  person_nature: string;
-  nationality_code: string;
-  email_address?: string;
-  cell_phone?: string;
-  is_active: boolean;
-  created_at: string;
-  
-  // Related data
-  natural_person?: {
-    full_name_1?: string;
-    full_name_2?: string;
-    birth_date?: string;
-  };
-  
-  aliases?: Array<{
-    id: string;
-    id_document_type_code: string;
-    id_document_number: string;
-    is_current: boolean;
-  }>;
-  
-  addresses?: Array<{
-    id: string;
-    address_type: string;
-    address_line_1: string;
-    address_line_4?: string; // suburb
-    postal_code?: string;
-    is_primary: boolean;
-  }>;
-}
-
-interface SearchResponse {
-  persons: PersonSearchResult[];
-  total_count: number;
-  search_summary: {
-    total_results: number;
-    search_time_ms: number;
-    filters_applied: string[];
-  };
-}
+import { getErrorMessage } from '../../config/api';
+import { personService } from '../../services/personService';
+import {
+  PersonSearchCriteria,
+  PersonSearchRequest,
+  PersonSearchResponse,
+  PersonSearchSortField
+} from '../../types/person';
+import { useAuth, usePermission } from '../../contexts/AuthContext';
+import { PERMISSIONS } from '../../config/permissions';
+import { EXPIRY_FILTER_DAYS, getDocumentExpiryStatus, describeExpiry } from '../../config/documentExpiry';
+import { getIdDocumentTypeLabel } from '../../config/identityDocuments';
+import {
+  ROWS_PER_PAGE_OPTIONS,
+  RecentSearch,
+  addRecentSearch,
+  buildSearchQuery,
+  getRecentSearches,
+  hasSearchQuery,
+  parseSearchQuery
+} from '../../config/personSearchQuery';
+import {
+  PERSON_SEARCH_COLUMNS,
+  PersonSearchColumn,
+  PersonSearchTablePreferences,
+  TableDensity,
+  getTablePreferences,
+  saveTablePreferences
+} from '../../config/personSearchColumns';
+import SavedSearchToolbar from '../../components/SavedSearchToolbar';
 
 // Lookup data
 const PERSON_NATURES = [
@@ -130,13 +95,6 @@ const PERSON_NATURES = [
   { value: '17', label: 'Other Organization', icon: '📋' }
 ];
 
-const ID_DOCUMENT_TYPES = [
-  { value: '01', label: 'TRN', fullLabel: 'Traffic Register Number' },
-  { value: '02', label: 'RSA ID', fullLabel: 'South African ID Document' },
-  { value: '03', label: 'Foreign ID', fullLabel: 'Foreign ID Document' },
-  { value: '05', label: 'Passport', fullLabel: 'Passport Number' }
-];
-
 const NATIONALITIES = [
   { value: 'ZA', label: 'South African' },
   { value: 'US', label: 'United States' },
@@ -155,18 +113,46 @@ const PROVINCES = [
   { value: 'NW', label: 'North West' }
 ];
 
+// Blank form values; every field stays controlled
+const EMPTY_CRITERIA: PersonSearchCriteria = {
+  search_text: '',
+  id_document_number: '',
+  business_or_surname: '',
+  first_name: '',
+  person_nature: '',
+  nationality_code: '',
+  email_address: '',
+  cell_phone: '',
+  province_code: '',
+  is_active: true
+};
+
+const ADVANCED_FIELDS: (keyof PersonSearchCriteria)[] = [
+  'business_or_surname', 'first_name', 'person_nature', 'nationality_code', 'email_address',
+  'cell_phone', 'province_code', 'documents_expiring_within_days'
+];
+
 const PersonSearchPage = () => {
-  // Auth
-  const { accessToken } = useAuth();
-  
-  const [searchResults, setSearchResults] = useState<SearchResponse | null>(null);
+  const navigate = useNavigate();
+  const { allowed: canMerge } = usePermission(PERMISSIONS.PERSON_MERGE);
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [searchResults, setSearchResults] = useState<PersonSearchResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedPerson, setSelectedPerson] = useState<PersonSearchResult | null>(null);
-  const [viewDialogOpen, setViewDialogOpen] = useState(false);
   const [advancedSearchOpen, setAdvancedSearchOpen] = useState(false);
-  const [page, setPage] = useState(0);
-  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [mergeSelection, setMergeSelection] = useState<string[]>([]);
+  const [recentSearches, setRecentSearches] = useState<RecentSearch[]>(() => (user ? getRecentSearches(user.id) : []));
+  const [tablePreferences, setTablePreferences] = useState<PersonSearchTablePreferences>(() => getTablePreferences(user?.id));
+  const [columnsAnchor, setColumnsAnchor] = useState<HTMLElement | null>(null);
+
+  // The query string is the source of truth for the executed search, its sort and its page
+  const { criteria, page, rowsPerPage, sortBy, sortOrder, cursor } = useMemo(
+    () => parseSearchQuery(searchParams),
+    [searchParams]
+  );
+  const view = { rowsPerPage, sortBy, sortOrder };
+  const showColumn = (column: PersonSearchColumn) => tablePreferences.columns.includes(column);
 
   const {
     control,
@@ -174,69 +160,70 @@ const PersonSearchPage = () => {
     reset,
     setValue,
     getValues
-  } = useForm<PersonSearchForm>({
-    defaultValues: {
-      search_text: '',
-      skip: 0,
-      limit: 25,
-      is_active: true
-    }
+  } = useForm<PersonSearchRequest>({
+    defaultValues: EMPTY_CRITERIA
   });
 
-  // Perform search
-  const onSearch = async (data: PersonSearchForm) => {
+  const runSearch = async (request: PersonSearchRequest) => {
     setLoading(true);
     setError(null);
     
     try {
-      // Prepare search request
-      const searchParams = {
-        ...data,
-        skip: page * rowsPerPage,
-        limit: rowsPerPage
-      };
-
-      const response = await fetch(API_ENDPOINTS.personSearch, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`
-        },
-        body: JSON.stringify(searchParams)
-      });
-      
-      if (!response.ok) {
-        throw new Error('Search failed');
-      }
-      
-      const result: SearchResponse = await response.json();
+      const result = await personService.search(request);
       setSearchResults(result);
-      
-    } catch (err: any) {
-      setError(err.message || 'Search failed');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Search failed'));
       setSearchResults(null);
     } finally {
       setLoading(false);
     }
   };
 
+  // Run the search in the URL on arrival, on back/forward and whenever it changes
+  useEffect(() => {
+    if (!hasSearchQuery(searchParams)) {
+      reset(EMPTY_CRITERIA);
+      setSearchResults(null);
+      return;
+    }
+
+    reset({ ...EMPTY_CRITERIA, is_active: undefined, ...criteria });
+    if (ADVANCED_FIELDS.some(field => criteria[field])) {
+      setAdvancedSearchOpen(true);
+    }
+    runSearch({ ...criteria, sort_by: sortBy, sort_order: sortOrder, cursor, limit: rowsPerPage });
+    if (user) {
+      setRecentSearches(addRecentSearch(user.id, criteria));
+    }
+  }, [searchParams]);
+
+  // Navigate to a search; an identical search is simply re-run
+  const applySearchQuery = (query: URLSearchParams) => {
+    if (query.toString() === searchParams.toString()) {
+      runSearch({ ...criteria, sort_by: sortBy, sort_order: sortOrder, cursor, limit: rowsPerPage });
+    } else {
+      setSearchParams(query);
+    }
+  };
+
+  const getFormCriteria = (): PersonSearchCriteria => {
+    const { skip, limit, cursor, sort_by, sort_order, ...values } = getValues();
+    return values;
+  };
+
+  // Perform search
+  const onSearch = (data: PersonSearchRequest) => {
+    const { skip, limit, cursor, sort_by, sort_order, ...formCriteria } = data;
+    applySearchQuery(buildSearchQuery(formCriteria, view));
+  };
+
   // Quick search by ID number
   const onQuickIdSearch = async (idNumber: string) => {
     if (!idNumber || idNumber.length < 3) return;
     
     setLoading(true);
     try {
-      const response = await fetch(API_ENDPOINTS.personSearchById(idNumber), {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error('Search failed');
-      }
-      
-      const results = await response.json() as PersonSearchResult[];
+      const results = await personService.searchByIdNumber(idNumber);
       setSearchResults({
         persons: results,
         total_count: results.length,
@@ -255,33 +242,67 @@ const PersonSearchPage = () => {
 
   // Clear all search fields
   const clearSearch = () => {
-    reset();
-    setSearchResults(null);
-    setPage(0);
+    setMergeSelection([]);
+    setSearchParams(new URLSearchParams());
   };
 
-  // Handle pagination
+  // Pages are fetched by keyset cursor, so only the adjacent pages are
+  // reachable. Each page is its own history entry so the back button returns to it.
   const handlePageChange = (_event: unknown, newPage: number) => {
-    setPage(newPage);
-    const currentData = getValues();
-    setValue('skip', newPage * rowsPerPage);
-    onSearch(currentData);
+    if (!searchResults) return;
+    const pageCursor = newPage > page ? searchResults.next_cursor : searchResults.previous_cursor;
+    if (newPage > 0 && !pageCursor) return;
+    setSearchParams(buildSearchQuery(criteria, { ...view, page: newPage, cursor: newPage > 0 ? pageCursor! : undefined }));
   };
 
   const handleRowsPerPageChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const newRowsPerPage = parseInt(event.target.value, 10);
-    setRowsPerPage(newRowsPerPage);
-    setPage(0);
-    setValue('limit', newRowsPerPage);
-    setValue('skip', 0);
-    const currentData = getValues();
-    onSearch(currentData);
+    setSearchParams(buildSearchQuery(criteria, { ...view, rowsPerPage: parseInt(event.target.value, 10) }));
   };
 
-  // View person details
-  const viewPersonDetails = (person: PersonSearchResult) => {
-    setSelectedPerson(person);
-    setViewDialogOpen(true);
+  // A new sort starts again from the first page
+  const handleSortChange = (field: PersonSearchSortField) => {
+    const order = sortBy === field && sortOrder === 'asc' ? 'desc' : 'asc';
+    setSearchParams(buildSearchQuery(criteria, { rowsPerPage, sortBy: field, sortOrder: order }));
+  };
+
+  const updateTablePreferences = (preferences: PersonSearchTablePreferences) => {
+    setTablePreferences(preferences);
+    if (user) {
+      saveTablePreferences(user.id, preferences);
+    }
+  };
+
+  const toggleColumn = (column: PersonSearchColumn) => {
+    const columns = showColumn(column)
+      ? tablePreferences.columns.filter(key => key !== column)
+      : PERSON_SEARCH_COLUMNS.map(({ key }) => key).filter(key => key === column || showColumn(key));
+    updateTablePreferences({ ...tablePreferences, columns });
+  };
+
+  const renderSortableHeader = (field: PersonSearchSortField, label: string) => (
+    <TableCell sortDirection={sortBy === field ? sortOrder : false}>
+      <TableSortLabel
+        active={sortBy === field}
+        direction={sortBy === field ? sortOrder : 'asc'}
+        onClick={() => handleSortChange(field)}
+      >
+        {label}
+      </TableSortLabel>
+    </TableCell>
+  );
+
+  // Select up to two records to merge
+  const toggleMergeSelection = (personId: string) => {
+    setMergeSelection(prev =>
+      prev.includes(personId)
+        ? prev.filter(id => id !== personId)
+        : prev.length < 2 ? [...prev, personId] : prev
+    );
+  };
+
+  const openMergeTool = () => {
+    const [a, b] = mergeSelection;
+    navigate(`/dashboard/persons/merge?a=${a}&b=${b}`);
   };
 
   // Get person nature display
@@ -290,13 +311,18 @@ const PersonSearchPage = () => {
     return nature ? `${nature.icon} ${nature.label}` : personNature;
   };
 
+  // Get nationality display
+  const getNationalityDisplay = (nationalityCode: string) => {
+    const nationality = NATIONALITIES.find(n => n.value === nationalityCode);
+    return nationality ? nationality.label : nationalityCode;
+  };
+
   // Get ID document display
   const getIdDocumentDisplay = (aliases: any[]) => {
     const currentAlias = aliases?.find(a => a.is_current);
     if (!currentAlias) return 'No ID';
     
-    const docType = ID_DOCUMENT_TYPES.find(t => t.value === currentAlias.id_document_type_code);
-    return `${docType?.label || currentAlias.id_document_type_code}: ${currentAlias.id_document_number}`;
+    return `${getIdDocumentTypeLabel(currentAlias.id_document_type_code, true)}: ${currentAlias.id_document_number}`;
   };
 
   // Get primary address display
@@ -319,6 +345,14 @@ const PersonSearchPage = () => {
 
       {/* Search Form */}
       <Paper sx={{ p: 3, mt: 3 }}>
+        <Box sx={{ mb: 2 }}>
+          <SavedSearchToolbar
+            getCriteria={getFormCriteria}
+            recentSearches={recentSearches}
+            onApply={(query) => applySearchQuery(new URLSearchParams(query))}
+          />
+        </Box>
+
         <form onSubmit={handleSubmit(onSearch)}>
           <Grid container spacing={3}>
             {/* Quick Search */}
@@ -532,6 +566,51 @@ const PersonSearchPage = () => {
                   />
                 </Grid>
 
+                <Grid item xs={12} md={4}>
+                  <Controller
+                    name="documents_expiring_within_days"
+                    control={control}
+                    render={({ field }) => (
+                      <FormControl fullWidth>
+                        <InputLabel>ID Document Expiry</InputLabel>
+                        <Select
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                          label="ID Document Expiry"
+                        >
+                          <MenuItem value="">Any</MenuItem>
+                          {EXPIRY_FILTER_DAYS.map(days => (
+                            <MenuItem key={days} value={days}>
+                              Expired or expiring within {days} days
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                    )}
+                  />
+                </Grid>
+
+                <Grid item xs={12} md={4}>
+                  <Controller
+                    name="is_active"
+                    control={control}
+                    render={({ field }) => (
+                      <FormControl fullWidth>
+                        <InputLabel>Status</InputLabel>
+                        <Select
+                          value={field.value === undefined ? 'all' : field.value ? 'active' : 'inactive'}
+                          onChange={(e) => field.onChange(e.target.value === 'all' ? undefined : e.target.value === 'active')}
+                          label="Status"
+                        >
+                          <MenuItem value="active">Active only</MenuItem>
+                          <MenuItem value="inactive">Deactivated only</MenuItem>
+                          <MenuItem value="all">All</MenuItem>
+                        </Select>
+                      </FormControl>
+                    )}
+                  />
+                </Grid>
+
                 <Grid item xs={12} md={4}>
                   <Controller
                     name="province_code"
@@ -571,10 +650,61 @@ const PersonSearchPage = () => {
       {searchResults && (
         <Paper sx={{ mt: 3 }}>
           <Box sx={{ p: 2, borderBottom: '1px solid #e0e0e0' }}>
-            <Typography variant="h6">
-              Search Results
-              <Badge badgeContent={searchResults.total_count} color="primary" sx={{ ml: 2 }} />
-            </Typography>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Typography variant="h6">
+                Search Results
+                <Badge badgeContent={searchResults.total_count} color="primary" sx={{ ml: 2 }} />
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                <ToggleButtonGroup
+                  size="small"
+                  exclusive
+                  value={tablePreferences.density}
+                  onChange={(_e, density: TableDensity | null) => {
+                    if (density) updateTablePreferences({ ...tablePreferences, density });
+                  }}
+                >
+                  <ToggleButton value="comfortable" aria-label="Comfortable rows">
+                    <Tooltip title="Comfortable rows">
+                      <DensityMediumIcon fontSize="small" />
+                    </Tooltip>
+                  </ToggleButton>
+                  <ToggleButton value="compact" aria-label="Compact rows">
+                    <Tooltip title="Compact rows">
+                      <DensitySmallIcon fontSize="small" />
+                    </Tooltip>
+                  </ToggleButton>
+                </ToggleButtonGroup>
+                <Button
+                  size="small"
+                  startIcon={<ViewColumnIcon />}
+                  onClick={(e) => setColumnsAnchor(e.currentTarget)}
+                >
+                  Columns
+                </Button>
+                {canMerge && (
+                  <Button
+                    variant="outlined"
+                    color="warning"
+                    startIcon={<MergeIcon />}
+                    disabled={mergeSelection.length !== 2}
+                    onClick={openMergeTool}
+                  >
+                    Merge Selected ({mergeSelection.length}/2)
+                  </Button>
+                )}
+              </Box>
+            </Box>
+
+            <Menu anchorEl={columnsAnchor} open={!!columnsAnchor} onClose={() => setColumnsAnchor(null)}>
+              <ListSubheader>Show columns</ListSubheader>
+              {PERSON_SEARCH_COLUMNS.map(column => (
+                <MenuItem key={column.key} dense onClick={() => toggleColumn(column.key)}>
+                  <Checkbox size="small" checked={showColumn(column.key)} sx={{ p: 0, mr: 1 }} />
+                  <ListItemText primary={column.label} />
+                </MenuItem>
+              ))}
+            </Menu>
             
             {searchResults.search_summary && (
               <Typography variant="body2" color="text.secondary">
@@ -587,21 +717,34 @@ const PersonSearchPage = () => {
           </Box>
 
           <TableContainer>
-            <Table>
+            <Table size={tablePreferences.density === 'compact' ? 'small' : 'medium'}>
               <TableHead>
                 <TableRow>
-                  <TableCell>Person Details</TableCell>
-                  <TableCell>Type</TableCell>
-                  <TableCell>Identification</TableCell>
-                  <TableCell>Contact</TableCell>
-                  <TableCell>Address</TableCell>
-                  <TableCell>Status</TableCell>
+                  {canMerge && <TableCell padding="checkbox" />}
+                  {renderSortableHeader('business_or_surname', 'Person Details')}
+                  {showColumn('nature') && <TableCell>Type</TableCell>}
+                  {showColumn('identification') && <TableCell>Identification</TableCell>}
+                  {showColumn('contact') && <TableCell>Contact</TableCell>}
+                  {showColumn('address') && <TableCell>Address</TableCell>}
+                  {showColumn('nationality') && renderSortableHeader('nationality_code', 'Nationality')}
+                  {showColumn('created') && renderSortableHeader('created_at', 'Created')}
+                  {showColumn('status') && <TableCell>Status</TableCell>}
                   <TableCell>Actions</TableCell>
                 </TableRow>
               </TableHead>
               <TableBody>
                 {searchResults.persons.map((person) => (
-                  <TableRow key={person.id} hover>
+                  <TableRow key={person.id} hover selected={mergeSelection.includes(person.id)}>
+                    {canMerge && (
+                      <TableCell padding="checkbox">
+                        <Checkbox
+                          checked={mergeSelection.includes(person.id)}
+                          disabled={mergeSelection.length >= 2 && !mergeSelection.includes(person.id)}
+                          onChange={() => toggleMergeSelection(person.id)}
+                          inputProps={{ 'aria-label': 'Select for merge' }}
+                        />
+                      </TableCell>
+                    )}
                     <TableCell>
                       <Box>
                         <Typography variant="subtitle2">
@@ -621,57 +764,92 @@ const PersonSearchPage = () => {
                       </Box>
                     </TableCell>
                     
-                    <TableCell>
-                      <Chip
-                        label={getPersonNatureDisplay(person.person_nature)}
-                        size="small"
-                        color={['01', '02'].includes(person.person_nature) ? 'primary' : 'secondary'}
-                      />
-                    </TableCell>
+                    {showColumn('nature') && (
+                      <TableCell>
+                        <Chip
+                          label={getPersonNatureDisplay(person.person_nature)}
+                          size="small"
+                          color={['01', '02'].includes(person.person_nature) ? 'primary' : 'secondary'}
+                        />
+                      </TableCell>
+                    )}
                     
-                    <TableCell>
-                      <Typography variant="body2">
-                        {getIdDocumentDisplay(person.aliases || [])}
-                      </Typography>
-                    </TableCell>
+                    {showColumn('identification') && (
+                      <TableCell>
+                        <Typography variant="body2">
+                          {getIdDocumentDisplay(person.aliases || [])}
+                        </Typography>
+                        {(person.aliases || []).map(alias => {
+                          const status = getDocumentExpiryStatus(alias.id_document_expiry_date);
+                          if (!alias.id_document_expiry_date || !status || status === 'valid') return null;
+                          return (
+                            <Chip
+                              key={alias.id}
+                              label={describeExpiry(alias.id_document_expiry_date)}
+                              size="small"
+                              color={status === 'expired' ? 'error' : 'warning'}
+                              sx={{ mt: 0.5 }}
+                            />
+                          );
+                        })}
+                      </TableCell>
+                    )}
                     
-                    <TableCell>
-                      <Box>
-                        {person.email_address && (
-                          <Typography variant="body2" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
-                            <EmailIcon fontSize="small" />
-                            {person.email_address}
-                          </Typography>
-                        )}
-                        {person.cell_phone && (
-                          <Typography variant="body2" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
-                            <PhoneIcon fontSize="small" />
-                            {person.cell_phone}
-                          </Typography>
-                        )}
-                      </Box>
-                    </TableCell>
+                    {showColumn('contact') && (
+                      <TableCell>
+                        <Box>
+                          {person.email_address && (
+                            <Typography variant="body2" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                              <EmailIcon fontSize="small" />
+                              {person.email_address}
+                            </Typography>
+                          )}
+                          {person.cell_phone && (
+                            <Typography variant="body2" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                              <PhoneIcon fontSize="small" />
+                              {person.cell_phone}
+                            </Typography>
+                          )}
+                        </Box>
+                      </TableCell>
+                    )}
                     
-                    <TableCell>
-                      <Typography variant="body2">
-                        {getPrimaryAddressDisplay(person.addresses || [])}
-                      </Typography>
-                    </TableCell>
+                    {showColumn('address') && (
+                      <TableCell>
+                        <Typography variant="body2">
+                          {getPrimaryAddressDisplay(person.addresses || [])}
+                        </Typography>
+                      </TableCell>
+                    )}
                     
-                    <TableCell>
-                      <Chip
-                        label={person.is_active ? 'Active' : 'Inactive'}
-                        size="small"
-                        color={person.is_active ? 'success' : 'error'}
-                      />
-                    </TableCell>
+                    {showColumn('nationality') && (
+                      <TableCell>
+                        <Typography variant="body2">{getNationalityDisplay(person.nationality_code)}</Typography>
+                      </TableCell>
+                    )}
+                    
+                    {showColumn('created') && (
+                      <TableCell>
+                        <Typography variant="body2">{new Date(person.created_at).toLocaleDateString()}</Typography>
+                      </TableCell>
+                    )}
+                    
+                    {showColumn('status') && (
+                      <TableCell>
+                        <Chip
+                          label={person.is_active ? 'Active' : 'Inactive'}
+                          size="small"
+                          color={person.is_active ? 'success' : 'error'}
+                        />
+                      </TableCell>
+                    )}
                     
                     <TableCell>
                       <Box sx={{ display: 'flex', gap: 1 }}>
                         <Tooltip title="View Details">
                           <IconButton
                             size="small"
-                            onClick={() => viewPersonDetails(person)}
+                            onClick={() => navigate(`/dashboard/persons/${person.id}`)}
                           >
                             <ViewIcon />
                           </IconButton>
@@ -680,7 +858,7 @@ const PersonSearchPage = () => {
                         <Tooltip title="Edit Person">
                           <IconButton
                             size="small"
-                            onClick={() => window.location.href = `/persons/${person.id}/edit`}
+                            onClick={() => navigate(`/dashboard/persons/manage?edit=${person.id}`)}
                           >
                             <EditIcon />
                           </IconButton>
@@ -694,163 +872,20 @@ const PersonSearchPage = () => {
           </TableContainer>
 
           <TablePagination
-            rowsPerPageOptions={[10, 25, 50, 100]}
+            rowsPerPageOptions={ROWS_PER_PAGE_OPTIONS}
             component="div"
             count={searchResults.total_count}
             rowsPerPage={rowsPerPage}
             page={page}
             onPageChange={handlePageChange}
             onRowsPerPageChange={handleRowsPerPageChange}
+            // Keyset paging: follow the server's cursors rather than the computed page count
+            backIconButtonProps={{ disabled: page === 0 || (page > 1 && !searchResults.previous_cursor) }}
+            nextIconButtonProps={{ disabled: !searchResults.next_cursor }}
           />
         </Paper>
       )}
 
-      {/* Person Details Dialog */}
-      <Dialog
-        open={viewDialogOpen}
-        onClose={() => setViewDialogOpen(false)}
-        maxWidth="md"
-        fullWidth
-      >
-        <DialogTitle>
-          Person Details
-          {selectedPerson && (
-            <Typography variant="subtitle1" color="text.secondary">
-              {selectedPerson.business_or_surname}
-              {selectedPerson.natural_person?.full_name_1 && 
-                ` - ${selectedPerson.natural_person.full_name_1} ${selectedPerson.natural_person.full_name_2 || ''}`
-              }
-            </Typography>
-          )}
-        </DialogTitle>
-        
-        <DialogContent>
-          {selectedPerson && (
-            <Grid container spacing={3}>
-              {/* Basic Information */}
-              <Grid item xs={12}>
-                <Card>
-                  <CardContent>
-                    <Typography variant="h6" gutterBottom>
-                      Basic Information
-                    </Typography>
-                    <Grid container spacing={2}>
-                      <Grid item xs={6}>
-                        <Typography variant="body2" color="text.secondary">Person Type</Typography>
-                        <Typography>{getPersonNatureDisplay(selectedPerson.person_nature)}</Typography>
-                      </Grid>
-                      <Grid item xs={6}>
-                        <Typography variant="body2" color="text.secondary">Nationality</Typography>
-                        <Typography>{NATIONALITIES.find(n => n.value === selectedPerson.nationality_code)?.label}</Typography>
-                      </Grid>
-                      <Grid item xs={6}>
-                        <Typography variant="body2" color="text.secondary">Status</Typography>
-                        <Chip 
-                          label={selectedPerson.is_active ? 'Active' : 'Inactive'} 
-                          size="small" 
-                          color={selectedPerson.is_active ? 'success' : 'error'} 
-                        />
-                      </Grid>
-                      <Grid item xs={6}>
-                        <Typography variant="body2" color="text.secondary">Created</Typography>
-                        <Typography>{new Date(selectedPerson.created_at).toLocaleDateString()}</Typography>
-                      </Grid>
-                    </Grid>
-                  </CardContent>
-                </Card>
-              </Grid>
-
-              {/* Identification Documents */}
-              {selectedPerson.aliases && selectedPerson.aliases.length > 0 && (
-                <Grid item xs={12}>
-                  <Card>
-                    <CardContent>
-                      <Typography variant="h6" gutterBottom>
-                        Identification Documents
-                      </Typography>
-                      {selectedPerson.aliases.map((alias, _index) => (
-                        <Box key={alias.id} sx={{ mb: 1 }}>
-                          <Typography>
-                            <strong>{ID_DOCUMENT_TYPES.find(t => t.value === alias.id_document_type_code)?.fullLabel}:</strong> {alias.id_document_number}
-                            {alias.is_current && (
-                              <Chip label="Current" size="small" color="primary" sx={{ ml: 1 }} />
-                            )}
-                          </Typography>
-                        </Box>
-                      ))}
-                    </CardContent>
-                  </Card>
-                </Grid>
-              )}
-
-              {/* Addresses */}
-              {selectedPerson.addresses && selectedPerson.addresses.length > 0 && (
-                <Grid item xs={12}>
-                  <Card>
-                    <CardContent>
-                      <Typography variant="h6" gutterBottom>
-                        Addresses
-                      </Typography>
-                      {selectedPerson.addresses.map((address, _index) => (
-                        <Box key={address.id} sx={{ mb: 1 }}>
-                          <Typography>
-                            <strong>{address.address_type === 'street' ? 'Street' : 'Postal'} Address:</strong>
-                            {address.is_primary && (
-                              <Chip label="Primary" size="small" color="primary" sx={{ ml: 1 }} />
-                            )}
-                          </Typography>
-                          <Typography variant="body2" color="text.secondary">
-                            {address.address_line_1}
-                            {address.address_line_4 && `, ${address.address_line_4}`}
-                            {address.postal_code && ` ${address.postal_code}`}
-                          </Typography>
-                        </Box>
-                      ))}
-                    </CardContent>
-                  </Card>
-                </Grid>
-              )}
-
-              {/* Contact Information */}
-              <Grid item xs={12}>
-                <Card>
-                  <CardContent>
-                    <Typography variant="h6" gutterBottom>
-                      Contact Information
-                    </Typography>
-                    <Grid container spacing={2}>
-                      {selectedPerson.email_address && (
-                        <Grid item xs={12}>
-                          <Typography variant="body2" color="text.secondary">Email</Typography>
-                          <Typography>{selectedPerson.email_address}</Typography>
-                        </Grid>
-                      )}
-                      {selectedPerson.cell_phone && (
-                        <Grid item xs={12}>
-                          <Typography variant="body2" color="text.secondary">Cell Phone</Typography>
-                          <Typography>{selectedPerson.cell_phone}</Typography>
-                        </Grid>
-                      )}
-                    </Grid>
-                  </CardContent>
-                </Card>
-              </Grid>
-            </Grid>
-          )}
-        </DialogContent>
-        
-        <DialogActions>
-          <Button onClick={() => setViewDialogOpen(false)}>Close</Button>
-          {selectedPerson && (
-            <Button
-              variant="contained"
-              onClick={() => window.location.href = `/persons/${selectedPerson.id}/edit`}
-            >
-              Edit Person
-            </Button>
-          )}
-        </DialogActions>
-      </Dialog>
     </Box>
   );
 };
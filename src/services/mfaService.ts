@@ -0,0 +1,73 @@
+/**
+ * Multi-Factor Authentication API Service
+ * Handles MFA verification during login, enrolment and device management
+ */
+
+import { API_ENDPOINTS, api } from '../config/api';
+import {
+  AuthTokenResponse,
+  LoginResponse,
+  MfaChallenge,
+  MfaVerifyRequest,
+  MfaStatus,
+  MfaEnrollmentStart,
+  MfaEnrollment,
+  MfaEnrollmentVerifyRequest,
+  MfaEnrollmentResult,
+  MfaBackupCodes
+} from '../types/auth';
+
+/**
+ * Check whether a login response is an MFA challenge rather than tokens
+ */
+export const isMfaChallenge = (response: LoginResponse): response is MfaChallenge =>
+  (response as MfaChallenge).mfa_required === true;
+
+/**
+ * MFA API Services
+ */
+export const mfaService = {
+  // Complete a login with a TOTP or backup code
+  verify: async (data: MfaVerifyRequest): Promise<AuthTokenResponse> => {
+    return api.post<AuthTokenResponse>(API_ENDPOINTS.mfaVerify, data, {
+      credentials: 'include',
+      skipAuth: true,
+      skipAuthRefresh: true
+    });
+  },
+
+  // Get MFA status and devices for the current user
+  getStatus: async (): Promise<MfaStatus> => {
+    return api.get<MfaStatus>(API_ENDPOINTS.mfaStatus);
+  },
+
+  // Start enrolling an authenticator app (returns secret and QR code)
+  startEnrollment: async (data: MfaEnrollmentStart = {}): Promise<MfaEnrollment> => {
+    return api.post<MfaEnrollment>(API_ENDPOINTS.mfaEnroll, data, {
+      credentials: 'include',
+      skipAuth: Boolean(data.mfa_token),
+      skipAuthRefresh: Boolean(data.mfa_token)
+    });
+  },
+
+  // Confirm enrolment with the first code from the authenticator app
+  verifyEnrollment: async (data: MfaEnrollmentVerifyRequest): Promise<MfaEnrollmentResult> => {
+    return api.post<MfaEnrollmentResult>(API_ENDPOINTS.mfaEnrollVerify, data, {
+      credentials: 'include',
+      skipAuth: Boolean(data.mfa_token),
+      skipAuthRefresh: Boolean(data.mfa_token)
+    });
+  },
+
+  // Remove an MFA device
+  removeDevice: async (deviceId: string): Promise<void> => {
+    return api.delete<void>(API_ENDPOINTS.mfaDeviceById(deviceId));
+  },
+
+  // Generate a new set of backup codes (invalidates the previous set)
+  regenerateBackupCodes: async (): Promise<MfaBackupCodes> => {
+    return api.post<MfaBackupCodes>(API_ENDPOINTS.mfaBackupCodes);
+  }
+};
+
+export default mfaService;
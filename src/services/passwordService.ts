@@ -0,0 +1,38 @@
+/**
+ * Password API Service
+ * Handles the password policy and self-service password changes
+ */
+
+import { API_ENDPOINTS, api } from '../config/api';
+import { DEFAULT_PASSWORD_POLICY } from '../config/passwordPolicy';
+import { PasswordPolicy, PasswordChangeRequest } from '../types/auth';
+
+// The policy rarely changes, so it is fetched once per page load
+let cachedPolicy: Promise<PasswordPolicy> | null = null;
+
+/**
+ * Password API Services
+ */
+export const passwordService = {
+  // Get the password policy (falls back to the default policy if unavailable)
+  getPolicy: async (): Promise<PasswordPolicy> => {
+    if (!cachedPolicy) {
+      cachedPolicy = api
+        .get<PasswordPolicy>(API_ENDPOINTS.passwordPolicy)
+        .then(policy => ({ ...DEFAULT_PASSWORD_POLICY, ...policy }))
+        .catch(error => {
+          console.warn('Password policy unavailable, using defaults:', error);
+          cachedPolicy = null;
+          return DEFAULT_PASSWORD_POLICY;
+        });
+    }
+    return cachedPolicy;
+  },
+
+  // Change the current user's password
+  changePassword: async (data: PasswordChangeRequest): Promise<void> => {
+    return api.post<void>(API_ENDPOINTS.changePassword, data);
+  }
+};
+
+export default passwordService;
@@ -0,0 +1,152 @@
+/**
+ * Person Management API Service
+ * Handles all API communication for person registration and search
+ */
+
+import { API_ENDPOINTS, api, isApiError } from '../config/api';
+import {
+  Person,
+  PersonCreate,
+  PersonUpdate,
+  PersonExistenceCheck,
+  PersonSearchRequest,
+  PersonSearchResponse,
+  PersonSearchResult,
+  PersonDraft,
+  PersonDraftSave,
+  PersonDuplicateCheckRequest,
+  PersonDuplicateMatch,
+  PersonMergeRequest,
+  PersonHistoryEntry,
+  PersonStatusChange,
+  PersonStatusHistoryEntry,
+  PersonSavedSearch,
+  PersonSavedSearchCreate
+} from '../types/person';
+
+/**
+ * Person API Services
+ */
+export const personService = {
+  // V00033 - Check whether a person already exists for an ID document
+  checkExistence: async (idType: string, idNumber: string): Promise<PersonExistenceCheck> => {
+    return api.get<PersonExistenceCheck>(API_ENDPOINTS.personCheckExistence(idType, idNumber));
+  },
+
+  // Search persons by ID document number
+  searchByIdNumber: async (idNumber: string): Promise<PersonSearchResult[]> => {
+    return api.get<PersonSearchResult[]>(API_ENDPOINTS.personSearchById(idNumber));
+  },
+
+  // Get the complete person record for an ID document
+  getByDocument: async (idType: string, idNumber: string): Promise<Person> => {
+    return api.get<Person>(API_ENDPOINTS.personSearchByDocument(idType, idNumber));
+  },
+
+  // Search persons with filters and pagination
+  search: async (request: PersonSearchRequest): Promise<PersonSearchResponse> => {
+    return api.post<PersonSearchResponse>(API_ENDPOINTS.personSearch, request);
+  },
+
+  // Find likely duplicates of a new person by name, birth date and contact details
+  findDuplicates: async (request: PersonDuplicateCheckRequest): Promise<PersonDuplicateMatch[]> => {
+    return api.post<PersonDuplicateMatch[]>(API_ENDPOINTS.personDuplicateCheck, request);
+  },
+
+  // Get person by ID
+  getById: async (id: string): Promise<Person> => {
+    return api.get<Person>(API_ENDPOINTS.personById(id));
+  },
+
+  // Create person
+  create: async (data: PersonCreate): Promise<Person> => {
+    return api.post<Person>(`${API_ENDPOINTS.persons}/`, data);
+  },
+
+  // Update person
+  update: async (id: string, data: PersonUpdate): Promise<Person> => {
+    return api.put<Person>(API_ENDPOINTS.personById(id), data);
+  },
+
+  // Audit history of a person, newest first
+  getHistory: async (id: string): Promise<PersonHistoryEntry[]> => {
+    return api.get<PersonHistoryEntry[]>(API_ENDPOINTS.personHistory(id));
+  },
+
+  // Deactivate (soft-delete) a person record
+  deactivate: async (id: string, change: PersonStatusChange): Promise<Person> => {
+    return api.post<Person>(API_ENDPOINTS.personDeactivate(id), change);
+  },
+
+  // Reactivate a deactivated person record
+  reactivate: async (id: string, change: PersonStatusChange): Promise<Person> => {
+    return api.post<Person>(API_ENDPOINTS.personReactivate(id), change);
+  },
+
+  // Activation status changes of a person, newest first
+  getStatusHistory: async (id: string): Promise<PersonStatusHistoryEntry[]> => {
+    return api.get<PersonStatusHistoryEntry[]>(API_ENDPOINTS.personStatusHistory(id));
+  },
+
+  // Merge two person records into one (single audited operation)
+  merge: async (request: PersonMergeRequest): Promise<Person> => {
+    return api.post<Person>(API_ENDPOINTS.personMerge, request);
+  }
+};
+
+/**
+ * Registration Draft API Services
+ * Drafts belong to the signed-in user, so they survive refreshes, logouts
+ * and session expiry
+ */
+export const personDraftService = {
+  // List the current user's drafts (most recently updated first)
+  getMine: async (): Promise<PersonDraft[]> => {
+    return api.get<PersonDraft[]>(API_ENDPOINTS.personDrafts);
+  },
+
+  // Get the draft for an ID document, or null if there is none
+  getByDocument: async (idType: string, idNumber: string): Promise<PersonDraft | null> => {
+    try {
+      return await api.get<PersonDraft>(API_ENDPOINTS.personDraftByDocument(idType, idNumber));
+    } catch (error) {
+      if (isApiError(error) && error.status === 404) return null;
+      throw error;
+    }
+  },
+
+  // Create or replace the draft for an ID document
+  save: async (draft: PersonDraftSave): Promise<PersonDraft> => {
+    return api.put<PersonDraft>(
+      API_ENDPOINTS.personDraftByDocument(draft.id_document_type_code, draft.id_document_number),
+      draft
+    );
+  },
+
+  // Discard the draft for an ID document
+  discard: async (idType: string, idNumber: string): Promise<void> => {
+    return api.delete<void>(API_ENDPOINTS.personDraftByDocument(idType, idNumber));
+  }
+};
+
+/**
+ * Saved Person Search Services
+ */
+export const personSavedSearchService = {
+  // List the current user's searches and those shared with their user group
+  getAll: async (): Promise<PersonSavedSearch[]> => {
+    return api.get<PersonSavedSearch[]>(API_ENDPOINTS.personSavedSearches);
+  },
+
+  // Save the current criteria under a name
+  create: async (search: PersonSavedSearchCreate): Promise<PersonSavedSearch> => {
+    return api.post<PersonSavedSearch>(API_ENDPOINTS.personSavedSearches, search);
+  },
+
+  // Delete one of the current user's saved searches
+  delete: async (id: string): Promise<void> => {
+    return api.delete<void>(API_ENDPOINTS.personSavedSearchById(id));
+  }
+};
+
+export default personService;
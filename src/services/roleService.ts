@@ -0,0 +1,55 @@
+/**
+ * Role API Service
+ * Handles roles, their permissions and the users holding them
+ */
+
+import { API_ENDPOINTS, api } from '../config/api';
+import {
+  PermissionDefinition,
+  RoleDetail,
+  RoleCreate,
+  RoleUpdate,
+  RoleHolder
+} from '../types/role';
+
+/**
+ * Role API Services
+ */
+export const roleService = {
+  // Get all roles with their permissions
+  getAll: async (): Promise<RoleDetail[]> => {
+    return api.get<RoleDetail[]>(API_ENDPOINTS.roles);
+  },
+
+  // Get role by ID
+  getById: async (id: string): Promise<RoleDetail> => {
+    return api.get<RoleDetail>(API_ENDPOINTS.roleById(id));
+  },
+
+  // Create role
+  create: async (data: RoleCreate): Promise<RoleDetail> => {
+    return api.post<RoleDetail>(API_ENDPOINTS.roles, data);
+  },
+
+  // Update role
+  update: async (id: string, data: RoleUpdate): Promise<RoleDetail> => {
+    return api.put<RoleDetail>(API_ENDPOINTS.roleById(id), data);
+  },
+
+  // Delete role
+  delete: async (id: string): Promise<void> => {
+    return api.delete<void>(API_ENDPOINTS.roleById(id));
+  },
+
+  // Get users holding a role
+  getUsers: async (id: string): Promise<RoleHolder[]> => {
+    return api.get<RoleHolder[]>(API_ENDPOINTS.roleUsers(id));
+  },
+
+  // Get every permission that can be assigned to a role
+  getPermissions: async (): Promise<PermissionDefinition[]> => {
+    return api.get<PermissionDefinition[]>(API_ENDPOINTS.permissions);
+  }
+};
+
+export default roleService;
@@ -0,0 +1,257 @@
+/**
+ * Cross-Tab Session Synchronisation for LINC Frontend
+ * Coordinates authentication state between browser tabs over BroadcastChannel
+ *
+ * - One tab holds the leader lock (Web Locks API) and performs token refreshes
+ *   on behalf of the others, so the rotating refresh cookie is only used once
+ * - Login, logout, session expiry and token changes are broadcast to all tabs
+ * - User activity is shared so the idle logout only fires when every tab is idle
+ * - Without BroadcastChannel every tab manages its own session (per-tab fallback)
+ * - Without Web Locks every tab refreshes for itself but still shares the result
+ */
+
+export interface SyncedSession<TUser> {
+  accessToken: string;
+  user: TUser;
+}
+
+export type SessionChangeReason = 'login' | 'refresh';
+
+type SessionMessage<TUser> =
+  | { type: 'session'; tabId: string; session: SyncedSession<TUser>; reason: SessionChangeReason }
+  | { type: 'logout'; tabId: string }
+  | { type: 'expired'; tabId: string }
+  | { type: 'activity'; tabId: string; at: number }
+  | { type: 'refresh-request'; tabId: string; requestId: string; staleToken: string | null }
+  | { type: 'refresh-result'; tabId: string; requestId: string; session: SyncedSession<TUser> | null };
+
+export interface SessionSyncHandlers<TUser> {
+  /** Another tab logged in or refreshed the token */
+  onSession: (session: SyncedSession<TUser>, reason: SessionChangeReason) => void;
+  /** Another tab logged out */
+  onLogout: () => void;
+  /** Another tab found the session could not be refreshed */
+  onExpired: () => void;
+  /** The user was active in another tab at the given time */
+  onActivity: (at: number) => void;
+  /**
+   * Leader only: refresh the session for a follower tab. Resolves null when
+   * the refresh failed or the leader is signed out (the follower then treats
+   * itself as signed out rather than expired).
+   */
+  onRefreshRequest: () => Promise<SyncedSession<TUser> | null>;
+}
+
+const LEADER_LOCK_NAME = 'linc-auth-leader';
+const REFRESH_REQUEST_TIMEOUT_MS = 15000;
+
+const generateId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export class SessionSync<TUser> {
+  private readonly tabId = generateId();
+  private readonly channel: BroadcastChannel | null;
+  private handlers: SessionSyncHandlers<TUser> | null = null;
+  private session: SyncedSession<TUser> | null = null;
+  private leader = false;
+  private leaderReady: Promise<void>;
+  private releaseLeadership: (() => void) | null = null;
+  private pendingRequests = new Map<string, (session: SyncedSession<TUser> | null | undefined) => void>();
+
+  constructor(channelName: string) {
+    this.channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(channelName) : null;
+    this.channel?.addEventListener('message', event => this.handleMessage(event.data));
+    this.leaderReady = this.acquireLeadership();
+  }
+
+  /**
+   * Whether session changes are shared with other tabs
+   */
+  get isSynchronised(): boolean {
+    return this.channel !== null;
+  }
+
+  /**
+   * Whether this tab refreshes the session itself
+   */
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Register the handlers that apply incoming changes to this tab
+   */
+  connect(handlers: SessionSyncHandlers<TUser>): () => void {
+    this.handlers = handlers;
+    return () => {
+      if (this.handlers === handlers) {
+        this.handlers = null;
+      }
+    };
+  }
+
+  /**
+   * Record a new session for this tab and share it with the others
+   */
+  publishSession(session: SyncedSession<TUser>, reason: SessionChangeReason): void {
+    this.session = session;
+    this.post({ type: 'session', tabId: this.tabId, session, reason });
+  }
+
+  /**
+   * Record that this tab logged out and tell the others
+   */
+  publishLogout(): void {
+    this.session = null;
+    this.post({ type: 'logout', tabId: this.tabId });
+  }
+
+  /**
+   * Record that the session could not be refreshed and tell the others
+   */
+  publishExpired(): void {
+    this.session = null;
+    this.post({ type: 'expired', tabId: this.tabId });
+  }
+
+  /**
+   * Tell the other tabs the user is active in this one
+   */
+  publishActivity(at: number): void {
+    this.post({ type: 'activity', tabId: this.tabId, at });
+  }
+
+  /**
+   * Ask the leader tab for a fresh session.
+   * Resolves with the session, null if the leader's refresh failed, or
+   * undefined when this tab should refresh for itself (it is the leader,
+   * tabs are not synchronised or the leader did not answer in time).
+   */
+  async requestRefresh(staleToken: string | null): Promise<SyncedSession<TUser> | null | undefined> {
+    await this.leaderReady;
+    if (!this.channel || this.leader) {
+      return undefined;
+    }
+
+    const requestId = generateId();
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        resolve(undefined);
+      }, REFRESH_REQUEST_TIMEOUT_MS);
+
+      this.pendingRequests.set(requestId, session => {
+        clearTimeout(timer);
+        this.pendingRequests.delete(requestId);
+        resolve(session);
+      });
+
+      this.post({ type: 'refresh-request', tabId: this.tabId, requestId, staleToken });
+    });
+  }
+
+  /**
+   * Stop listening and give up leadership (e.g. on provider unmount)
+   */
+  close(): void {
+    this.releaseLeadership?.();
+    this.channel?.close();
+    this.pendingRequests.forEach(resolve => resolve(undefined));
+    this.pendingRequests.clear();
+  }
+
+  private post(message: SessionMessage<TUser>): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.warn('Session sync message could not be sent:', error);
+    }
+  }
+
+  private handleMessage(message: SessionMessage<TUser>): void {
+    if (!message || message.tabId === this.tabId) return;
+
+    switch (message.type) {
+      case 'session':
+        this.session = message.session;
+        this.handlers?.onSession(message.session, message.reason);
+        break;
+      case 'logout':
+        this.session = null;
+        this.handlers?.onLogout();
+        break;
+      case 'expired':
+        this.session = null;
+        this.handlers?.onExpired();
+        break;
+      case 'activity':
+        this.handlers?.onActivity(message.at);
+        break;
+      case 'refresh-request':
+        if (this.leader) {
+          this.answerRefreshRequest(message.requestId, message.staleToken);
+        }
+        break;
+      case 'refresh-result':
+        this.pendingRequests.get(message.requestId)?.(message.session);
+        break;
+    }
+  }
+
+  /**
+   * Leader: reply with the current session if the follower's token is already
+   * outdated, otherwise refresh first
+   */
+  private async answerRefreshRequest(requestId: string, staleToken: string | null): Promise<void> {
+    let session: SyncedSession<TUser> | null = null;
+    if (this.session && this.session.accessToken !== staleToken) {
+      session = this.session;
+    } else if (this.handlers) {
+      session = await this.handlers.onRefreshRequest().catch(() => null);
+    }
+    this.post({ type: 'refresh-result', tabId: this.tabId, requestId, session });
+  }
+
+  /**
+   * Try to take the leader lock immediately; if another tab holds it, queue
+   * up so this tab takes over when the leader closes
+   */
+  private acquireLeadership(): Promise<void> {
+    const locks = navigatorLocks();
+    if (!this.channel || !locks) {
+      this.leader = true;
+      return Promise.resolve();
+    }
+
+    const holdLock = () => {
+      this.leader = true;
+      return new Promise<void>(release => {
+        this.releaseLeadership = () => {
+          this.leader = false;
+          release();
+        };
+      });
+    };
+
+    return new Promise<void>(resolve => {
+      locks
+        .request(LEADER_LOCK_NAME, { ifAvailable: true }, lock => {
+          if (lock) {
+            resolve();
+            return holdLock();
+          }
+          resolve();
+          return locks.request(LEADER_LOCK_NAME, holdLock);
+        })
+        .catch(() => {
+          this.leader = true;
+          resolve();
+        });
+    });
+  }
+}
+
+const navigatorLocks = (): LockManager | null =>
+  typeof navigator !== 'undefined' && 'locks' in navigator ? navigator.locks : null;
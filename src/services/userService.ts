@@ -4,8 +4,8 @@
  * Integrates with consolidated User model backend
  */
 
-import axios, { AxiosResponse } from 'axios';
-import { API_BASE_URL, getAuthToken } from '../config/api';
+import { api, API_ENDPOINTS } from '../config/api';
+import { validateIdDocumentNumber, getIdDocumentType } from '../config/identityDocuments';
 import {
   User,
   CreateUserRequest,
@@ -18,71 +18,11 @@ import {
   CreateUserSessionRequest,
   UserGroup,
   Office,
-  Province,
-  UserManagementError
+  Province
 } from '../types/user';
-
-// API endpoints
-const USER_ENDPOINTS = {
-  USERS: '/api/v1/user-management',
-  STATISTICS: '/api/v1/user-management/statistics/overview',
-  SEARCH: '/api/v1/user-management/search/users',
-  VALIDATE_USERNAME: '/api/v1/user-management/validate/username',
-  VALIDATE_EMAIL: '/api/v1/user-management/validate/email',
-  USER_GROUPS: '/api/v1/user-groups',
-  OFFICES: '/api/v1/offices',
-  PROVINCES: '/api/v1/lookups/provinces'
-} as const;
+import { EffectivePermissions } from '../types/role';
 
 class UserService {
-  private baseURL: string;
-
-  constructor() {
-    this.baseURL = API_BASE_URL;
-  }
-
-  /**
-   * Get authorization headers for API requests
-   */
-  private getAuthHeaders() {
-    const token = getAuthToken();
-    return {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json'
-    };
-  }
-
-  /**
-   * Handle API errors and extract meaningful error messages
-   */
-  private handleError(error: any): UserManagementError {
-    if (error.response?.data?.detail) {
-      const detail = error.response.data.detail;
-      
-      // Handle validation errors with codes (V06001-V06005)
-      if (typeof detail === 'object' && detail.errors) {
-        return {
-          code: 'VALIDATION_ERROR',
-          message: detail.errors.join(', '),
-          validationCode: detail.errors[0]?.split(':')[0] // Extract V06xxx code
-        };
-      }
-      
-      // Handle string error messages
-      if (typeof detail === 'string') {
-        return {
-          code: 'API_ERROR',
-          message: detail
-        };
-      }
-    }
-    
-    return {
-      code: 'UNKNOWN_ERROR',
-      message: error.message || 'An unexpected error occurred'
-    };
-  }
-
   // ========================================
   // USER CRUD OPERATIONS
   // ========================================
@@ -92,31 +32,14 @@ class UserService {
    * Implements V06001-V06005 validations
    */
   async createUser(userData: CreateUserRequest): Promise<User> {
-    try {
-      const response: AxiosResponse<User> = await axios.post(
-        `${this.baseURL}${USER_ENDPOINTS.USERS}/`,
-        userData,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return api.post<User>(`${API_ENDPOINTS.users}/`, userData);
   }
 
   /**
    * Get user by ID
    */
   async getUser(userId: string): Promise<User> {
-    try {
-      const response: AxiosResponse<User> = await axios.get(
-        `${this.baseURL}${USER_ENDPOINTS.USERS}/${userId}`,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return api.get<User>(API_ENDPOINTS.userById(userId));
   }
 
   /**
@@ -127,64 +50,55 @@ class UserService {
     size: number = 20,
     filters?: UserListFilter
   ): Promise<UserListResponse> {
-    try {
-      const params = new URLSearchParams({
-        page: page.toString(),
-        size: size.toString()
+    const params = new URLSearchParams({
+      page: page.toString(),
+      size: size.toString()
+    });
+
+    // Add filter parameters
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null && value !== '') {
+          params.append(key, value.toString());
+        }
       });
-
-      // Add filter parameters
-      if (filters) {
-        Object.entries(filters).forEach(([key, value]) => {
-          if (value !== undefined && value !== null && value !== '') {
-            params.append(key, value.toString());
-          }
-        });
-      }
-
-      const response: AxiosResponse<UserListResponse> = await axios.get(
-        `${this.baseURL}${USER_ENDPOINTS.USERS}/?${params.toString()}`,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
     }
+
+    return api.get<UserListResponse>(`${API_ENDPOINTS.users}/?${params.toString()}`);
   }
 
   /**
    * Update user
    */
   async updateUser(userId: string, userData: UpdateUserRequest): Promise<User> {
-    try {
-      const response: AxiosResponse<User> = await axios.put(
-        `${this.baseURL}${USER_ENDPOINTS.USERS}/${userId}`,
-        userData,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return api.put<User>(API_ENDPOINTS.userById(userId), userData);
   }
 
   /**
    * Delete user (soft delete)
    */
   async deleteUser(userId: string, softDelete: boolean = true): Promise<User> {
-    try {
-      const params = new URLSearchParams({
-        soft_delete: softDelete.toString()
-      });
+    const params = new URLSearchParams({
+      soft_delete: softDelete.toString()
+    });
 
-      const response: AxiosResponse<User> = await axios.delete(
-        `${this.baseURL}${USER_ENDPOINTS.USERS}/${userId}?${params.toString()}`,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return api.delete<User>(`${API_ENDPOINTS.userById(userId)}?${params.toString()}`);
+  }
+
+  /**
+   * Reset a user's password to a temporary one; the user must change it at next login
+   */
+  async resetPassword(userId: string): Promise<{ temporary_password: string }> {
+    return api.post<{ temporary_password: string }>(API_ENDPOINTS.userResetPassword(userId), {
+      require_password_change: true
+    });
+  }
+
+  /**
+   * Get a user's effective permissions and the source of each one
+   */
+  async getEffectivePermissions(userId: string): Promise<EffectivePermissions> {
+    return api.get<EffectivePermissions>(API_ENDPOINTS.userEffectivePermissions(userId));
   }
 
   // ========================================
@@ -202,28 +116,20 @@ class UserService {
       userType?: string;
     }
   ): Promise<User[]> {
-    try {
-      const params = new URLSearchParams({
-        q: searchTerm,
-        limit: limit.toString()
-      });
-
-      // Add optional filters for staff assignment
-      if (options?.excludeAssignedToLocation) {
-        params.append('exclude_assigned', options.excludeAssignedToLocation);
-      }
-      if (options?.userType) {
-        params.append('user_type', options.userType);
-      }
-
-      const response: AxiosResponse<User[]> = await axios.get(
-        `${this.baseURL}${USER_ENDPOINTS.SEARCH}?${params.toString()}`,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
+    const params = new URLSearchParams({
+      q: searchTerm,
+      limit: limit.toString()
+    });
+
+    // Add optional filters for staff assignment
+    if (options?.excludeAssignedToLocation) {
+      params.append('exclude_assigned', options.excludeAssignedToLocation);
+    }
+    if (options?.userType) {
+      params.append('user_type', options.userType);
     }
+
+    return api.get<User[]>(`${API_ENDPOINTS.userSearch}?${params.toString()}`);
   }
 
   /**
@@ -231,18 +137,12 @@ class UserService {
    * V06003: User Name must be unique within User Group
    */
   async validateUsername(username: string): Promise<{ available: boolean; message: string }> {
-    try {
-      const params = new URLSearchParams({ username });
-      
-      const response: AxiosResponse<{ available: boolean; message: string }> = await axios.post(
-        `${this.baseURL}${USER_ENDPOINTS.VALIDATE_USERNAME}?${params.toString()}`,
-        {},
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    const params = new URLSearchParams({ username });
+    
+    return api.post<{ available: boolean; message: string }>(
+      `${API_ENDPOINTS.userValidateUsername}?${params.toString()}`,
+      {}
+    );
   }
 
   /**
@@ -250,18 +150,12 @@ class UserService {
    * V06004: Email must be valid and unique system-wide
    */
   async validateEmail(email: string): Promise<{ available: boolean; message: string }> {
-    try {
-      const params = new URLSearchParams({ email });
-      
-      const response: AxiosResponse<{ available: boolean; message: string }> = await axios.post(
-        `${this.baseURL}${USER_ENDPOINTS.VALIDATE_EMAIL}?${params.toString()}`,
-        {},
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    const params = new URLSearchParams({ email });
+    
+    return api.post<{ available: boolean; message: string }>(
+      `${API_ENDPOINTS.userValidateEmail}?${params.toString()}`,
+      {}
+    );
   }
 
   // ========================================
@@ -272,15 +166,7 @@ class UserService {
    * Get user management statistics
    */
   async getUserStatistics(): Promise<UserStatistics> {
-    try {
-      const response: AxiosResponse<UserStatistics> = await axios.get(
-        `${this.baseURL}${USER_ENDPOINTS.STATISTICS}`,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return api.get<UserStatistics>(API_ENDPOINTS.userStatistics);
   }
 
   // ========================================
@@ -291,50 +177,25 @@ class UserService {
    * Create user session
    */
   async createUserSession(userId: string, sessionData: CreateUserSessionRequest): Promise<UserSession> {
-    try {
-      const response: AxiosResponse<UserSession> = await axios.post(
-        `${this.baseURL}${USER_ENDPOINTS.USERS}/${userId}/sessions`,
-        sessionData,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return api.post<UserSession>(API_ENDPOINTS.userSessions(userId), sessionData);
   }
 
   /**
    * Get user sessions
    */
   async getUserSessions(userId: string, activeOnly: boolean = true): Promise<UserSession[]> {
-    try {
-      const params = new URLSearchParams({
-        active_only: activeOnly.toString()
-      });
+    const params = new URLSearchParams({
+      active_only: activeOnly.toString()
+    });
 
-      const response: AxiosResponse<UserSession[]> = await axios.get(
-        `${this.baseURL}${USER_ENDPOINTS.USERS}/${userId}/sessions?${params.toString()}`,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return api.get<UserSession[]>(`${API_ENDPOINTS.userSessions(userId)}?${params.toString()}`);
   }
 
   /**
    * End user session
    */
   async endUserSession(sessionId: string): Promise<{ message: string }> {
-    try {
-      const response: AxiosResponse<{ message: string }> = await axios.delete(
-        `${this.baseURL}${USER_ENDPOINTS.USERS}/sessions/${sessionId}`,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return api.delete<{ message: string }>(API_ENDPOINTS.userSessionById(sessionId));
   }
 
   // ========================================
@@ -345,35 +206,18 @@ class UserService {
    * Assign user to location from user management screen
    */
   async assignUserToLocation(userId: string, assignmentData: any): Promise<any> {
-    try {
-      const response: AxiosResponse<any> = await axios.post(
-        `${this.baseURL}${USER_ENDPOINTS.USERS}/${userId}/assignments`,
-        assignmentData,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return api.post<any>(API_ENDPOINTS.userAssignments(userId), assignmentData);
   }
 
   /**
    * Get user location assignments
    */
   async getUserAssignments(userId: string, activeOnly: boolean = true): Promise<any[]> {
-    try {
-      const params = new URLSearchParams({
-        active_only: activeOnly.toString()
-      });
+    const params = new URLSearchParams({
+      active_only: activeOnly.toString()
+    });
 
-      const response: AxiosResponse<any[]> = await axios.get(
-        `${this.baseURL}${USER_ENDPOINTS.USERS}/${userId}/assignments?${params.toString()}`,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return api.get<any[]>(`${API_ENDPOINTS.userAssignments(userId)}?${params.toString()}`);
   }
 
   // ========================================
@@ -385,20 +229,12 @@ class UserService {
    * V06001: User Group must be active and valid
    */
   async getUserGroups(activeOnly: boolean = true): Promise<UserGroup[]> {
-    try {
-      const params = new URLSearchParams();
-      if (activeOnly) {
-        params.append('active_only', 'true');
-      }
-
-      const response: AxiosResponse<UserGroup[]> = await axios.get(
-        `${this.baseURL}${USER_ENDPOINTS.USER_GROUPS}?${params.toString()}`,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
+    const params = new URLSearchParams();
+    if (activeOnly) {
+      params.append('active_only', 'true');
     }
+
+    return api.get<UserGroup[]>(`${API_ENDPOINTS.userGroups}?${params.toString()}`);
   }
 
   /**
@@ -408,7 +244,7 @@ class UserService {
   async getOfficesByUserGroup(userGroupId: string): Promise<Office[]> {
     try {
       // For now, return a placeholder since the offices endpoint doesn't exist yet
-      // This would be: `${this.baseURL}/api/v1/user-groups/${userGroupId}/offices`
+      // This would be: `${API_ENDPOINTS.userGroupById(userGroupId)}/offices`
       
       // Placeholder implementation - return sample offices
       return [
@@ -437,15 +273,7 @@ class UserService {
    * Get provinces for dropdown
    */
   async getProvinces(): Promise<Province[]> {
-    try {
-      const response: AxiosResponse<Province[]> = await axios.get(
-        `${this.baseURL}${USER_ENDPOINTS.PROVINCES}`,
-        { headers: this.getAuthHeaders() }
-      );
-      return response.data;
-    } catch (error) {
-      throw this.handleError(error);
-    }
+    return api.get<Province[]>(API_ENDPOINTS.provinces);
   }
 
   // ========================================
@@ -461,58 +289,12 @@ class UserService {
       return { isValid: false, message: 'ID number and type are required' };
     }
 
-    switch (idType) {
-      case '02': // RSA ID
-        if (!/^\d{13}$/.test(idNumber)) {
-          return { isValid: false, message: 'RSA ID must be 13 digits' };
-        }
-        if (!this.validateRSAIdCheckDigit(idNumber)) {
-          return { isValid: false, message: 'Invalid RSA ID check digit' };
-        }
-        return { isValid: true, message: 'Valid RSA ID' };
-
-      case '04': // Passport
-        if (idNumber.length < 4 || idNumber.length > 20) {
-          return { isValid: false, message: 'Passport must be 4-20 characters' };
-        }
-        if (!/^[A-Za-z0-9]+$/.test(idNumber)) {
-          return { isValid: false, message: 'Passport can only contain letters and numbers' };
-        }
-        return { isValid: true, message: 'Valid passport number' };
-
-      case '03': // Foreign ID
-        if (idNumber.length < 5 || idNumber.length > 25) {
-          return { isValid: false, message: 'Foreign ID must be 5-25 characters' };
-        }
-        return { isValid: true, message: 'Valid foreign ID' };
-
-      default:
-        return { isValid: true, message: 'Valid ID number' };
-    }
-  }
-
-  /**
-   * Validate RSA ID check digit using Luhn algorithm
-   */
-  private validateRSAIdCheckDigit(idNumber: string): boolean {
-    if (idNumber.length !== 13 || !/^\d{13}$/.test(idNumber)) {
-      return false;
-    }
-
-    const digits = idNumber.split('').map(Number);
-    let sum = 0;
-
-    for (let i = 0; i < 12; i++) {
-      if (i % 2 === 0) {
-        sum += digits[i];
-      } else {
-        const doubled = digits[i] * 2;
-        sum += doubled > 9 ? doubled - 9 : doubled;
-      }
+    const error = validateIdDocumentNumber(idType, idNumber);
+    if (error) {
+      return { isValid: false, message: error };
     }
-
-    const checkDigit = (10 - (sum % 10)) % 10;
-    return checkDigit === digits[12];
+    const type = getIdDocumentType(idType);
+    return { isValid: true, message: type ? `Valid ${type.shortLabel}` : 'Valid ID number' };
   }
 
   /**
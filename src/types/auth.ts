@@ -0,0 +1,140 @@
+/**
+ * Authentication Types
+ * TypeScript interfaces matching the backend auth and MFA schemas
+ */
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  email?: string;
+  first_name?: string;
+  last_name?: string;
+  is_active: boolean;
+  is_superuser: boolean;
+  user_type_code?: string;
+  password_change_required?: boolean;
+  // Geographic data scope
+  authority_level?: string;
+  province_code?: string;
+  user_group_code?: string;
+  can_access_all_provinces?: boolean;
+  roles: string[];
+  permissions: string[];
+}
+
+export interface LoginCredentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Successful authentication (login, MFA verification or enrolment)
+ */
+export interface AuthTokenResponse {
+  access_token: string;
+  token_type?: string;
+  user: AuthUser;
+  /** Set on first login or after an admin reset; the user must change their password */
+  password_change_required?: boolean;
+}
+
+export type MfaMethod = 'totp' | 'backup_code';
+
+/**
+ * Returned by /auth/login instead of tokens when a second factor is needed.
+ * When enrollment_required is set the user has no device yet and must enrol
+ * before the login can complete.
+ */
+export interface MfaChallenge {
+  mfa_required: true;
+  mfa_token: string;
+  methods: MfaMethod[];
+  enrollment_required?: boolean;
+  expires_in?: number;
+}
+
+export type LoginResponse = AuthTokenResponse | MfaChallenge;
+
+/**
+ * Outcome of AuthContext.login
+ */
+export type LoginResult =
+  | { status: 'authenticated' }
+  | { status: 'mfa_required'; challenge: MfaChallenge }
+  | { status: 'mfa_enrollment_required'; challenge: MfaChallenge };
+
+export interface MfaVerifyRequest {
+  mfa_token: string;
+  code: string;
+  method: MfaMethod;
+}
+
+export interface MfaDevice {
+  id: string;
+  name: string;
+  device_type: 'totp';
+  is_verified: boolean;
+  created_at: string;
+  last_used_at?: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  devices: MfaDevice[];
+  backup_codes_remaining: number;
+}
+
+export interface MfaEnrollmentStart {
+  /** Only needed while enrolling during login, before a session exists */
+  mfa_token?: string;
+  device_name?: string;
+}
+
+export interface MfaEnrollment {
+  device_id: string;
+  secret: string;
+  otpauth_uri: string;
+  /** QR code image as a data URI */
+  qr_code: string;
+}
+
+export interface MfaEnrollmentVerifyRequest {
+  device_id: string;
+  code: string;
+  mfa_token?: string;
+}
+
+/**
+ * Enrolment result; tokens are only returned when enrolling during login
+ */
+export interface MfaEnrollmentResult {
+  backup_codes: string[];
+  access_token?: string;
+  user?: AuthUser;
+}
+
+export interface MfaBackupCodes {
+  backup_codes: string[];
+}
+
+/**
+ * Password policy served by the backend (GET /auth/password-policy)
+ */
+export interface PasswordPolicy {
+  min_length: number;
+  max_length: number;
+  require_uppercase: boolean;
+  require_lowercase: boolean;
+  require_digit: boolean;
+  require_special: boolean;
+  disallow_username: boolean;
+  /** Number of previous passwords that may not be reused (checked server-side) */
+  history_count: number;
+  max_age_days?: number;
+}
+
+export interface PasswordChangeRequest {
+  current_password: string;
+  new_password: string;
+}
@@ -0,0 +1,360 @@
+/**
+ * Person Management Types
+ * TypeScript interfaces matching the backend Person schemas
+ */
+
+export interface PersonAlias {
+  id?: string;
+  id_document_type_code: string;
+  id_document_number: string;
+  country_of_issue?: string;
+  name_in_document?: string;
+  alias_status?: string;
+  is_current: boolean;
+  id_document_expiry_date?: string;
+}
+
+export interface PersonAddress {
+  id?: string;
+  address_type: string;
+  address_line_1: string;
+  address_line_2?: string;
+  address_line_3?: string;
+  address_line_4?: string;
+  address_line_5?: string;
+  postal_code?: string;
+  country_code?: string;
+  province_code?: string;
+  is_primary: boolean;
+}
+
+export interface NaturalPerson {
+  full_name_1?: string;
+  full_name_2?: string;
+  full_name_3?: string;
+  birth_date?: string;
+  preferred_language_code?: string;
+}
+
+/**
+ * Natural person who acts for an organisation (director, trustee, partner...)
+ */
+export interface JuristicPersonRepresentative {
+  /** Existing person the representative is linked to */
+  person_id?: string;
+  id_document_type_code: string;
+  id_document_number: string;
+  /** Display name of the linked person */
+  name?: string;
+  capacity: string;
+}
+
+/**
+ * Organisation details for juristic person natures (03, 10-17)
+ */
+export interface JuristicPerson {
+  registration_number?: string;
+  trading_name?: string;
+  registration_date?: string;
+  representatives: JuristicPersonRepresentative[];
+}
+
+/**
+ * Full person record as returned by GET /persons/{id} and /persons/search
+ */
+export interface Person {
+  id: string;
+  business_or_surname: string;
+  initials?: string;
+  person_nature: string;
+  nationality_code: string;
+  preferred_language?: string;
+  email_address?: string;
+  home_phone?: string;
+  work_phone?: string;
+  cell_phone_country_code?: string;
+  cell_phone?: string;
+  fax_phone?: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at?: string;
+  natural_person?: NaturalPerson;
+  juristic_person?: JuristicPerson;
+  aliases?: PersonAlias[];
+  addresses?: PersonAddress[];
+}
+
+/**
+ * Person summary returned by the existence check and ID number search
+ */
+export interface PersonSummary {
+  id?: string;
+  business_or_surname?: string;
+  name?: string; // API returns this field instead of business_or_surname
+  initials?: string;
+  person_nature: string;
+  nationality_code?: string;
+  email_address?: string;
+  cell_phone?: string;
+  is_active: boolean;
+  created_at?: string;
+  id_type?: string; // API returns this for document type
+  id_number?: string; // API returns this for document number
+  natural_person?: {
+    full_name_1?: string;
+    full_name_2?: string;
+    birth_date?: string;
+  };
+  aliases?: Array<{
+    id: string;
+    id_document_type_code: string;
+    id_document_number: string;
+    is_current: boolean;
+  }>;
+  addresses?: Array<{
+    id: string;
+    address_type: string;
+    address_line_1: string;
+    address_line_4?: string;
+    postal_code?: string;
+    is_primary: boolean;
+  }>;
+}
+
+export interface PersonExistenceCheck {
+  exists: boolean;
+  person_summary?: PersonSummary;
+}
+
+/**
+ * Payload for creating or updating a person
+ */
+export interface PersonCreate {
+  business_or_surname: string;
+  initials?: string;
+  person_nature: string;
+  nationality_code: string;
+  preferred_language?: string;
+  email_address?: string;
+  home_phone?: string;
+  work_phone?: string;
+  cell_phone_country_code?: string;
+  cell_phone?: string;
+  fax_phone?: string;
+  natural_person?: NaturalPerson;
+  juristic_person?: JuristicPerson;
+  aliases: PersonAlias[];
+  addresses: PersonAddress[];
+  /** Supervisor sign-off for details that disagree with the RSA ID number */
+  consistency_override?: PersonConsistencyOverride;
+}
+
+/**
+ * Recorded when a supervisor saves a person whose birth date, gender or
+ * nationality conflicts with the RSA ID number
+ */
+export interface PersonConsistencyOverride {
+  reason: string;
+  conflicts: string[];
+}
+
+export type PersonUpdate = Partial<PersonCreate>;
+
+/**
+ * Consolidates two records into one. The merged person is retired and its
+ * ID documents and addresses move to the surviving person; the backend
+ * records the operation (with reason) as a single audit entry.
+ */
+export interface PersonMergeRequest {
+  surviving_person_id: string;
+  merged_person_id: string;
+  /** Final field values, aliases and addresses of the surviving person */
+  values: PersonUpdate;
+  reason: string;
+}
+
+export type PersonHistoryAction = 'created' | 'updated' | 'deactivated' | 'reactivated' | 'merged';
+
+export interface PersonFieldChange {
+  /** Dotted field path, e.g. natural_person.full_name_1 or aliases[0].id_document_number */
+  field: string;
+  old_value?: string | null;
+  new_value?: string | null;
+}
+
+/**
+ * One audited change to a person record, newest first from GET /persons/{id}/history
+ */
+export interface PersonHistoryEntry {
+  id: string;
+  action: PersonHistoryAction;
+  changed_at: string;
+  changed_by: string;
+  changes: PersonFieldChange[];
+  reason?: string;
+}
+
+/**
+ * Reason for deactivating or reactivating a person; both are required and
+ * kept in the person's status history
+ */
+export interface PersonStatusChange {
+  reason_code: string;
+  note: string;
+}
+
+export interface PersonStatusHistoryEntry {
+  id: string;
+  /** Status the person was changed to */
+  is_active: boolean;
+  reason_code: string;
+  note: string;
+  changed_by: string;
+  changed_at: string;
+}
+
+/**
+ * Demographic criteria for the fuzzy duplicate check run before registration
+ */
+export interface PersonDuplicateCheckRequest {
+  business_or_surname: string;
+  initials?: string;
+  birth_date?: string;
+  cell_phone?: string;
+  email_address?: string;
+}
+
+export interface PersonDuplicateMatch {
+  person: PersonSummary;
+  /** Similarity between 0 and 1 */
+  score: number;
+  /** Criteria that matched, e.g. surname, birth_date, cell_phone */
+  matched_fields: string[];
+}
+
+/**
+ * In-progress registration saved by the wizard, keyed by the ID document
+ * it was started for
+ */
+export interface PersonDraft {
+  id_document_type_code: string;
+  id_document_number: string;
+  /** Wizard step to resume at */
+  current_step: number;
+  form_data: PersonUpdate;
+  updated_at: string;
+}
+
+export type PersonDraftSave = Omit<PersonDraft, 'updated_at'>;
+
+export interface PersonSearchRequest {
+  // Basic search fields
+  search_text?: string;
+  id_document_number?: string;
+  business_or_surname?: string;
+  first_name?: string;
+  person_nature?: string;
+  nationality_code?: string;
+  email_address?: string;
+  cell_phone?: string;
+
+  // Advanced filters
+  province_code?: string;
+  city?: string;
+  is_active?: boolean;
+  created_date_from?: string;
+  created_date_to?: string;
+  /** Persons with an ID document expiring within this many days (or already expired) */
+  documents_expiring_within_days?: number;
+
+  // Sorting
+  sort_by?: PersonSearchSortField;
+  sort_order?: SortOrder;
+
+  // Pagination
+  skip?: number;
+  limit?: number;
+  /** Keyset cursor from a previous response; takes precedence over skip */
+  cursor?: string;
+}
+
+export type PersonSearchSortField = 'business_or_surname' | 'created_at' | 'nationality_code';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface PersonSearchResult {
+  id: string;
+  business_or_surname: string;
+  initials?: string;
+  person_nature: string;
+  nationality_code: string;
+  email_address?: string;
+  cell_phone?: string;
+  is_active: boolean;
+  created_at: string;
+
+  // Related data
+  natural_person?: {
+    full_name_1?: string;
+    full_name_2?: string;
+    birth_date?: string;
+  };
+
+  aliases?: Array<{
+    id: string;
+    id_document_type_code: string;
+    id_document_number: string;
+    is_current: boolean;
+    id_document_expiry_date?: string;
+  }>;
+
+  addresses?: Array<{
+    id: string;
+    address_type: string;
+    address_line_1: string;
+    address_line_4?: string; // suburb
+    postal_code?: string;
+    is_primary: boolean;
+  }>;
+}
+
+export interface PersonSearchResponse {
+  persons: PersonSearchResult[];
+  total_count: number;
+  /** Cursors for the adjacent pages; null at either end of the results */
+  next_cursor?: string | null;
+  previous_cursor?: string | null;
+  search_summary: {
+    total_results: number;
+    search_time_ms: number;
+    filters_applied: string[];
+  };
+}
+
+/**
+ * Search filters without sorting or paging, as stored in saved searches
+ */
+export type PersonSearchCriteria = Omit<PersonSearchRequest, 'skip' | 'limit' | 'cursor' | 'sort_by' | 'sort_order'>;
+
+export type SavedSearchVisibility = 'private' | 'user_group';
+
+/**
+ * Named person search. Private searches are only listed for their owner;
+ * user group searches are listed for everyone in the owner's user group.
+ */
+export interface PersonSavedSearch {
+  id: string;
+  name: string;
+  visibility: SavedSearchVisibility;
+  criteria: PersonSearchCriteria;
+  owner_id: string;
+  owner_name?: string;
+  user_group_code?: string;
+  created_at: string;
+}
+
+export interface PersonSavedSearchCreate {
+  name: string;
+  visibility: SavedSearchVisibility;
+  criteria: PersonSearchCriteria;
+}
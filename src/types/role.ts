@@ -0,0 +1,72 @@
+/**
+ * Role and Privilege Type Definitions
+ * Matches backend role/permission schemas used by the System Privileges page
+ */
+
+export interface PermissionDefinition {
+  id: string;
+  name: string;
+  display_name?: string;
+  description?: string;
+  category?: string;
+}
+
+export interface RoleDetail {
+  id: string;
+  name: string;
+  display_name: string;
+  description?: string;
+  is_system_role: boolean;
+  permissions: PermissionDefinition[];
+  user_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RoleCreate {
+  name: string;
+  display_name: string;
+  description?: string;
+  permission_ids: string[];
+}
+
+export interface RoleUpdate {
+  display_name?: string;
+  description?: string;
+  permission_ids?: string[];
+}
+
+/**
+ * User holding a role (summary shown on the privileges page)
+ */
+export interface RoleHolder {
+  id: string;
+  username: string;
+  full_name?: string;
+  user_group_code?: string;
+  is_active: boolean;
+}
+
+export type PermissionSourceType = 'role' | 'user_group' | 'superuser' | 'direct';
+
+export interface PermissionSource {
+  type: PermissionSourceType;
+  /** Role name or user group code; absent for superuser and direct grants */
+  name?: string;
+}
+
+export interface EffectivePermission {
+  name: string;
+  sources: PermissionSource[];
+}
+
+/**
+ * A user's resolved permission set and where each permission comes from
+ */
+export interface EffectivePermissions {
+  user_id: string;
+  username: string;
+  is_superuser: boolean;
+  roles: string[];
+  permissions: EffectivePermission[];
+}
@@ -4,6 +4,8 @@
  * Consolidated to work with the existing User model
  */
 
+import { ID_DOCUMENT_TYPE_CODES } from '../config/identityDocuments';
+
 export interface User {
   id: string;
   username: string;
@@ -113,13 +115,16 @@ export enum UserType {
   ADMIN = "5"
 }
 
-export enum IDType {
-  TRN = "01",
-  SA_ID = "02",
-  FOREIGN_ID = "03",
-  PASSPORT = "04",
-  OTHER = "97"
-}
+// Document codes are owned by the identity documents module
+export const IDType = {
+  TRN: ID_DOCUMENT_TYPE_CODES.TRN,
+  SA_ID: ID_DOCUMENT_TYPE_CODES.RSA_ID,
+  FOREIGN_ID: ID_DOCUMENT_TYPE_CODES.FOREIGN_ID,
+  PASSPORT: ID_DOCUMENT_TYPE_CODES.PASSPORT,
+  OTHER: "97"
+} as const;
+
+export type IDType = typeof IDType[keyof typeof IDType];
 
 export enum AuthorityLevel {
   NATIONAL = "NATIONAL",
@@ -396,14 +401,6 @@ export interface Province {
   countryCode: string;
 }
 
-// Error handling
-export interface UserManagementError {
-  code: string;
-  message: string;
-  field?: string;
-  validationCode?: string; // V06001-V06005
-}
-
 // Export grouped types for easier imports
 export type {
   User as UserProfile, // Alias for backward compatibility